@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import fc from "fast-check";
+import { diff } from "../diff";
+import { applyDiff, revertDiff } from "../apply";
+import { DiffType } from "../types";
+
+/**
+ * Diff 应用与撤销属性测试
+ * Feature: json-visual-diff
+ */
+
+describe("Apply Diff Property Tests", () => {
+  /**
+   * Property: 应用往返一致性
+   *
+   * 对于任意两个 JSON 值，applyDiff(old, diff(old, new)) 应该等于 new，
+   * revertDiff(new, diff(old, new)) 应该等于 old，且严格模式不会误报
+   */
+  it("Property: 应用与撤销往返一致性", () => {
+    fc.assert(
+      fc.property(fc.jsonValue(), fc.jsonValue(), (oldValue, newValue) => {
+        const result = diff(oldValue, newValue);
+
+        expect(applyDiff(oldValue, result, { strict: true })).toEqual(newValue);
+        expect(revertDiff(newValue, result, { strict: true })).toEqual(oldValue);
+
+        return true;
+      }),
+      { numRuns: 200 },
+    );
+  });
+
+  /**
+   * Property: 数组应用往返一致性（各数组算法、位置模式、身份键匹配与移动检测）
+   */
+  it("Property: 数组应用往返一致性", () => {
+    const itemArb = fc.oneof(fc.integer({ min: 0, max: 5 }), fc.record({ id: fc.nat(3) }));
+
+    fc.assert(
+      fc.property(
+        fc.array(itemArb, { maxLength: 10 }),
+        fc.array(itemArb, { maxLength: 10 }),
+        fc.constantFrom("myers" as const, "patience" as const, "lcs" as const, "position" as const),
+        fc.boolean(),
+        fc.boolean(),
+        (oldValue, newValue, arrayDiffMode, keyed, detectMoves) => {
+          const result = diff(oldValue, newValue, {
+            arrayDiffMode,
+            arrayKey: keyed ? "id" : undefined,
+            detectMoves,
+          });
+
+          expect(applyDiff(oldValue, result, { strict: true })).toEqual(newValue);
+          expect(revertDiff(newValue, result, { strict: true })).toEqual(oldValue);
+
+          return true;
+        },
+      ),
+      { numRuns: 200 },
+    );
+  });
+
+  /**
+   * Property: 无序数组应用往返一致性
+   *
+   * 无序模式下只有顺序不同的数组视为未改变（应用后保持旧顺序），其余情况应用后与新值完全一致
+   */
+  it("Property: 无序数组应用往返一致性", () => {
+    const itemArb = fc.oneof(
+      fc.integer({ min: 0, max: 5 }),
+      fc.record({ id: fc.nat(3), v: fc.nat(2) }),
+    );
+    const sorted = (arr: any[]) => arr.map((item) => JSON.stringify(item)).sort();
+
+    fc.assert(
+      fc.property(
+        fc.array(itemArb, { maxLength: 10 }),
+        fc.array(itemArb, { maxLength: 10 }),
+        fc.boolean(),
+        (oldValue, newValue, keyed) => {
+          const result = diff(oldValue, newValue, {
+            arrayDiffMode: "unordered",
+            arrayKey: keyed ? "id" : undefined,
+          });
+
+          if (result.root.type === DiffType.UNCHANGED) {
+            expect(sorted(oldValue)).toEqual(sorted(newValue));
+          } else {
+            expect(applyDiff(oldValue, result, { strict: true })).toEqual(newValue);
+            expect(revertDiff(newValue, result, { strict: true })).toEqual(oldValue);
+          }
+
+          return true;
+        },
+      ),
+      { numRuns: 200 },
+    );
+  });
+  /**
+   * Property: 输入不可变性
+   */
+  it("Property: 应用 diff 不修改输入", () => {
+    fc.assert(
+      fc.property(fc.jsonValue(), fc.jsonValue(), (oldValue, newValue) => {
+        const oldSnapshot = structuredClone(oldValue);
+        const newSnapshot = structuredClone(newValue);
+        const result = diff(oldValue, newValue);
+
+        applyDiff(oldValue, result);
+        revertDiff(newValue, result);
+
+        expect(oldValue).toEqual(oldSnapshot);
+        expect(newValue).toEqual(newSnapshot);
+
+        return true;
+      }),
+      { numRuns: 100 },
+    );
+  });
+});
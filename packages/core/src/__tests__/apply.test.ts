@@ -0,0 +1,200 @@
+import { describe, it, expect } from "vitest";
+import { diff } from "../diff";
+import { applyDiff, revertDiff, DiffApplyError } from "../apply";
+
+/**
+ * Diff 应用与撤销单元测试
+ */
+
+describe("DiffApplier", () => {
+  describe("applyDiff", () => {
+    it("应该将对象的增删改应用到旧值", () => {
+      const old = { a: 1, b: 2, nested: { x: true } };
+      const newObj = { a: 1, c: 3, nested: { x: false } };
+      const result = diff(old, newObj);
+
+      expect(applyDiff(old, result)).toEqual(newObj);
+    });
+
+    it("应该应用 LCS 数组的插入、删除和修改", () => {
+      const old = [{ id: 1 }, 2, 3, { id: 4 }];
+      const newArr = [0, { id: 1 }, 3, { id: 5 }];
+      const result = diff(old, newArr);
+
+      expect(applyDiff(old, result)).toEqual(newArr);
+    });
+
+    it("不应该修改输入并与输入共享未改变的子树", () => {
+      const shared = { deep: [1, 2, 3] };
+      const old = { shared, value: 1 };
+      const newObj = { shared: { deep: [1, 2, 3] }, value: 2 };
+      const snapshot = structuredClone(old);
+
+      const applied = applyDiff(old, diff(old, newObj));
+
+      expect(old).toEqual(snapshot);
+      expect(applied).toEqual(newObj);
+      expect(applied.shared).toBe(shared);
+    });
+
+    it("非严格模式下应该保留 diff 未覆盖的数组尾部元素", () => {
+      const result = diff([1, 2], [1, 3]);
+
+      expect(applyDiff([1, 2, 9], result)).toEqual([1, 3, 9]);
+    });
+  });
+
+  describe("扩展类型", () => {
+    it("应该应用和撤销 Map 与 Set 的差异", () => {
+      const old = {
+        map: new Map<any, any>([
+          ["a", 1],
+          [{ id: 1 }, "x"],
+        ]),
+        set: new Set([1, 2]),
+      };
+      const newObj = {
+        map: new Map<any, any>([
+          ["a", 2],
+          [{ id: 2 }, "y"],
+        ]),
+        set: new Set([2, 3]),
+      };
+      const result = diff(old, newObj);
+
+      expect(applyDiff(old, result)).toEqual(newObj);
+      expect(revertDiff(newObj, result)).toEqual(old);
+      expect(applyDiff(old, result, { strict: true })).toEqual(newObj);
+    });
+
+    it("严格模式应该校验未改变的 Map、Set 与 Error", () => {
+      const old = {
+        m: new Map([["a", { x: 1 }]]),
+        s: new Set([1, { y: 2 }]),
+        e: new Error("same"),
+        n: 1,
+      };
+      const newObj = { ...old, n: 2 };
+      const result = diff(old, newObj);
+
+      expect(applyDiff(old, result, { strict: true })).toEqual(newObj);
+      expect(revertDiff(newObj, result, { strict: true })).toEqual(old);
+      expect(() =>
+        applyDiff({ ...old, m: new Map([["a", { x: 9 }]]) }, result, { strict: true }),
+      ).toThrow(DiffApplyError);
+      expect(() => applyDiff({ ...old, s: new Set([1]) }, result, { strict: true })).toThrow(
+        DiffApplyError,
+      );
+      expect(() => applyDiff({ ...old, e: new Error("other") }, result, { strict: true })).toThrow(
+        DiffApplyError,
+      );
+    });
+
+    it("应该整体替换 Error 和二进制数据", () => {
+      const old = { error: new Error("a"), bytes: new Uint8Array([1]) };
+      const newObj = { error: new Error("b"), bytes: new Uint8Array([2]) };
+      const applied = applyDiff(old, diff(old, newObj));
+
+      expect(applied.error).toBe(newObj.error);
+      expect(applied.bytes).toBe(newObj.bytes);
+    });
+  });
+
+  describe("省略了未改变节点的结果", () => {
+    it("对象中省略的字段应该保留旧值", () => {
+      const old = { a: 1, b: 2, c: { x: 1 } };
+      const newObj = { a: 1, b: 3, c: { x: 1 } };
+      const result = diff(old, newObj, { includeUnchanged: false });
+
+      expect(applyDiff(old, result)).toEqual(newObj);
+    });
+
+    it("省略了元素的数组无法应用", () => {
+      const result = diff({ items: [1, 2, 3] }, { items: [1, 2, 4] }, { includeUnchanged: false });
+
+      expect(() => applyDiff({ items: [1, 2, 3] }, result)).toThrow(/array elements were omitted/);
+    });
+  });
+
+  describe("达到 maxDepth 的结果", () => {
+    const old = { a: { b: { c: 1 } }, d: { e: 1 } };
+    const newObj = { a: { b: { c: 2 } }, d: { e: 1 } };
+    const result = diff(old, newObj, { maxDepth: 1 });
+
+    it("被截断的修改无法应用或撤销", () => {
+      expect(() => applyDiff(old, result)).toThrow(/truncated by maxDepth/);
+      expect(() => revertDiff(newObj, result)).toThrow(DiffApplyError);
+      expect(() => applyDiff(old, result, { strict: true })).toThrow(/truncated by maxDepth/);
+    });
+
+    it("被截断但未改变的节点应该保留基准值", () => {
+      const shared = { b: { c: 1 } };
+      const partial = diff({ a: shared }, { a: shared, x: 2 }, { maxDepth: 1 });
+
+      expect(applyDiff({ a: shared }, partial, { strict: true })).toEqual({ a: shared, x: 2 });
+      expect(revertDiff({ a: shared, x: 2 }, partial, { strict: true })).toEqual({ a: shared });
+    });
+  });
+
+  describe("revertDiff", () => {
+    it("应该将新值还原为旧值", () => {
+      const old = { list: [1, 2, 3], name: "a" };
+      const newObj = { list: [2, 3, 4], title: "b" };
+      const result = diff(old, newObj);
+
+      expect(revertDiff(newObj, result)).toEqual(old);
+    });
+  });
+
+  describe("严格模式", () => {
+    it("基准文档一致时应该正常应用", () => {
+      const old = { a: [1, 2], b: "x" };
+      const newObj = { a: [2], b: "y" };
+      const result = diff(old, newObj);
+
+      expect(applyDiff(old, result, { strict: true })).toEqual(newObj);
+      expect(revertDiff(newObj, result, { strict: true })).toEqual(old);
+    });
+
+    it("修改节点的旧值不一致时应该抛出 DiffApplyError", () => {
+      const result = diff({ user: { name: "a" } }, { user: { name: "b" } });
+
+      try {
+        applyDiff({ user: { name: "c" } }, result, { strict: true });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(DiffApplyError);
+        expect((error as DiffApplyError).path).toEqual(["user", "name"]);
+        expect((error as DiffApplyError).expected).toBe("a");
+        expect((error as DiffApplyError).actual).toBe("c");
+      }
+    });
+
+    it("未改变的值发生漂移时应该抛出 DiffApplyError", () => {
+      const result = diff({ a: 1, b: 1 }, { a: 1, b: 2 });
+
+      expect(() => applyDiff({ a: 5, b: 1 }, result, { strict: true })).toThrow(DiffApplyError);
+      expect(applyDiff({ a: 5, b: 1 }, result)).toEqual({ a: 5, b: 2 });
+    });
+
+    it("添加的键已存在或删除的键不存在时应该抛出 DiffApplyError", () => {
+      const result = diff({ a: 1 }, { b: 1 });
+
+      expect(() => applyDiff({ a: 1, b: 1 }, result, { strict: true })).toThrow(DiffApplyError);
+      expect(() => applyDiff({}, result, { strict: true })).toThrow(DiffApplyError);
+    });
+
+    it("数组长度不一致时应该抛出 DiffApplyError", () => {
+      const result = diff([1, 2], [1, 3]);
+
+      expect(() => applyDiff([1, 2, 9], result, { strict: true })).toThrow(DiffApplyError);
+      expect(() => applyDiff([1], result, { strict: true })).toThrow(DiffApplyError);
+    });
+
+    it("容器类型不一致时应该抛出 DiffApplyError", () => {
+      const result = diff({ a: { b: 1 } }, { a: { b: 2 } });
+
+      expect(() => applyDiff({ a: [1] }, result)).toThrow(DiffApplyError);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { CustomComparators } from "../comparator";
+import { LCSArrayDiff } from "../lcs";
+import { diff } from "../diff";
+import { DiffType } from "../types";
+
+/**
+ * 自定义比较器单元测试
+ */
+
+const approx = (a: any, b: any) =>
+  typeof a === "number" && typeof b === "number" && Math.abs(a - b) < 0.01;
+const isUuid = (_path: string[], value: any) =>
+  typeof value === "string" && /^[0-9a-f]{8}-[0-9a-f]{4}-/.test(value);
+
+describe("CustomComparators", () => {
+  it("应该按路径模式匹配比较器", () => {
+    const comparators = new CustomComparators([{ match: "**.price", compare: approx }]);
+
+    expect(comparators.compare(1.001, 1.002, ["items", "0", "price"])).toBe("unchanged");
+    expect(comparators.compare(1, 2, ["items", "0", "price"])).toBe("modified");
+    expect(comparators.compare(1.001, 1.002, ["items", "0", "cost"])).toBeUndefined();
+  });
+
+  it("谓词需要对两侧的值都返回 true", () => {
+    const comparators = new CustomComparators([{ match: isUuid, compare: () => true }]);
+
+    expect(comparators.compare("0a1b2c3d-1111-x", "9f8e7d6c-2222-y", ["id"])).toBe("unchanged");
+    expect(comparators.compare("0a1b2c3d-1111-x", "plain", ["id"])).toBeUndefined();
+  });
+
+  it("应该使用第一个匹配的比较器", () => {
+    const comparators = new CustomComparators([
+      { match: "$.a", compare: () => "modified" },
+      { match: "**", compare: () => "unchanged" },
+    ]);
+
+    expect(comparators.compare(1, 1, ["a"])).toBe("modified");
+    expect(comparators.compare(1, 2, ["b"])).toBe("unchanged");
+  });
+
+  it("应该向比较函数传递路径", () => {
+    const paths: string[][] = [];
+    const comparators = new CustomComparators([
+      {
+        match: "$.a.b",
+        compare: (_a, _b, ctx) => {
+          paths.push(ctx.path);
+          return true;
+        },
+      },
+    ]);
+    comparators.compare(1, 2, ["a", "b"]);
+
+    expect(paths).toEqual([["a", "b"]]);
+  });
+});
+
+describe("DiffEngine 自定义比较器", () => {
+  it("比较器判定相等的值应该标记为未改变", () => {
+    const result = diff(
+      { updatedAt: "2024-01-01T00:00:00Z", name: "a" },
+      { updatedAt: "2024-06-01T00:00:00Z", name: "a" },
+      { comparators: [{ match: "$.updatedAt", compare: () => true }] },
+    );
+
+    expect(result.root.type).toBe(DiffType.UNCHANGED);
+    expect(result.stats.modified).toBe(0);
+  });
+
+  it("比较器判定不相等的容器应该整体标记为修改", () => {
+    const result = diff(
+      { meta: { a: 1 } },
+      { meta: { a: 1 } },
+      { comparators: [{ match: "$.meta", compare: () => "modified" }] },
+    );
+    const meta = result.root.children![0];
+
+    expect(meta.type).toBe(DiffType.MODIFIED);
+    expect(meta.children).toBeUndefined();
+  });
+
+  it("数组应该按自定义相等对齐元素", () => {
+    const oldArr = [
+      { requestId: "r1", value: 1 },
+      { requestId: "r2", value: 2 },
+    ];
+    const newArr = [
+      { requestId: "x0", value: 0 },
+      { requestId: "x1", value: 1 },
+      { requestId: "x2", value: 2 },
+    ];
+    const result = diff(oldArr, newArr, {
+      comparators: [{ match: "$[*].requestId", compare: () => true }],
+    });
+
+    expect(result.root.children!.map((c) => c.type)).toEqual([
+      DiffType.ADDED,
+      DiffType.UNCHANGED,
+      DiffType.UNCHANGED,
+    ]);
+  });
+
+  it("LCSArrayDiff.isEqual 应该使用自定义比较器", () => {
+    const comparators = new CustomComparators([{ match: "**.price", compare: approx }]);
+
+    expect(LCSArrayDiff.isEqual({ price: 1.001 }, { price: 1.002 })).toBe(false);
+    expect(LCSArrayDiff.isEqual({ price: 1.001 }, { price: 1.002 }, { comparators })).toBe(true);
+    expect(LCSArrayDiff.isEqual([{ price: 1 }], [{ price: 1.5 }], { comparators })).toBe(false);
+  });
+
+  it("数组对齐哈希应该忽略由比较器接管的子树", () => {
+    const comparators = new CustomComparators([{ match: "**.ts", compare: () => true }]);
+    const [ids1, ids2] = LCSArrayDiff.toIds([{ v: 1, ts: 1 }], [{ v: 1, ts: 2 }], undefined, {
+      comparators,
+    });
+
+    expect(ids1[0]).toBe(ids2[0]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { diff, diffAsync } from "../diff";
+import { DiffResultBuilder } from "../result";
+import { DiffType } from "../types";
+
+/**
+ * 深层嵌套文档单元测试
+ */
+
+const DEPTH = 100_000;
+
+// 链表形状的文档：{ value: 0, next: { value: 1, next: ... } }
+const makeList = (depth: number, last: number) => {
+  let node: any = { value: last, next: null };
+  for (let i = depth - 1; i >= 0; i--) {
+    node = { value: i, next: node };
+  }
+  return node;
+};
+
+// 沿 next 找到最深处的对象节点（不读取 path，避免逐层生成路径数组）
+const deepest = (root: any) => {
+  let node = root;
+  for (;;) {
+    const next = node.children.find((child: any) => child.children);
+    if (!next) {
+      return node;
+    }
+    node = next;
+  }
+};
+
+describe("深层嵌套文档", () => {
+  it("应该可以比较 10 万层嵌套的文档", () => {
+    const result = diff(makeList(DEPTH, -1), makeList(DEPTH, -2));
+
+    // 每一层对象及最深处的 value 被修改，其余 value 与末尾的 null 未改变
+    expect(result.stats.modified).toBe(DEPTH + 2);
+    expect(result.stats.unchanged).toBe(DEPTH + 1);
+    expect(result.root.type).toBe(DiffType.MODIFIED);
+
+    const bottom = deepest(result.root);
+    const value = bottom.children.find((child: any) => child.type === DiffType.MODIFIED);
+    expect(value.path).toHaveLength(DEPTH + 1);
+    expect(value.path.slice(0, 3)).toEqual(["next", "next", "next"]);
+    expect(value.path[DEPTH]).toBe("value");
+    expect(value.oldValue).toBe(-1);
+    expect(value.newValue).toBe(-2);
+  });
+
+  it("结果工具函数应该可以处理深层结果", () => {
+    const result = diff(makeList(DEPTH, -1), makeList(DEPTH, -2));
+
+    expect(DiffResultBuilder.validateNode(result.root)).toBe(true);
+    expect(DiffResultBuilder.countNodes(result.root)).toBe(DEPTH * 2 + 3);
+    expect(DiffResultBuilder.getMaxDepth(result.root)).toBe(DEPTH + 1);
+    expect(DiffResultBuilder.computeStats(result.root)).toEqual(result.stats);
+
+    const cloned = DiffResultBuilder.cloneNode(result.root);
+    expect(DiffResultBuilder.countNodes(cloned)).toBe(DEPTH * 2 + 3);
+
+    const modified = DiffResultBuilder.filterNodes(
+      cloned,
+      (node) => node.type === DiffType.MODIFIED,
+    );
+    expect(modified).toHaveLength(DEPTH + 2);
+    expect(modified[modified.length - 1].path).toHaveLength(DEPTH + 1);
+  });
+
+  it("异步 diff 应该可以比较深层文档", async () => {
+    const result = await diffAsync(makeList(10_000, 1), makeList(10_000, 2), {
+      yieldEvery: 5000,
+    });
+
+    expect(result.stats.modified).toBe(10_002);
+  });
+});
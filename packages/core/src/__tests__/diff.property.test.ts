@@ -94,6 +94,37 @@ describe("Diff Engine Property Tests", () => {
     );
   });
 
+  /**
+   * Property 2 (补充): 相同引用的快速路径
+   *
+   * 比较同一个引用与比较内容相同的副本应该得到相同的结果；
+   * 折叠未改变的子树不应该改变统计信息
+   */
+  it("Property 2 (补充): 相同引用的快速路径与子树折叠", () => {
+    const modes = ["lcs", "myers", "patience", "unordered", "position"] as const;
+    fc.assert(
+      fc.property(
+        fc.jsonValue(),
+        fc.jsonValue(),
+        fc.constantFrom(...modes),
+        (value, other, arrayDiffMode) => {
+          const options = { arrayDiffMode };
+          expect(diff(value, value, options)).toEqual(diff(value, structuredClone(value), options));
+
+          const collapsed = diff(value, other, {
+            ...options,
+            collapseUnchanged: true,
+            hashSubtrees: true,
+          });
+          expect(collapsed.stats).toEqual(diff(value, other, options).stats);
+
+          return true;
+        },
+      ),
+      { numRuns: 100 },
+    );
+  });
+
   /**
    * Property 3: 嵌套结构递归性
    * Validates: Requirements 1.3, 3.6
@@ -166,6 +197,7 @@ describe("Diff Engine Property Tests", () => {
    * - 类型为 DELETED 时，应该只包含 oldValue
    * - 类型为 MODIFIED 时，应该同时包含 oldValue 和 newValue
    * - 类型为 UNCHANGED 时，oldValue 应该等于 newValue
+   * - 类型为 MOVED 时，应该同时包含 oldValue、newValue、fromIndex 和 toIndex
    */
   it("Property 5: 差异类型完整性", () => {
     fc.assert(
@@ -205,6 +237,16 @@ describe("Diff Engine Property Tests", () => {
               }
               break;
 
+            case DiffType.MOVED:
+              // MOVED 节点应该同时包含 oldValue、newValue 以及移动前后的下标
+              if (!("oldValue" in node) || !("newValue" in node)) {
+                return false;
+              }
+              if (typeof node.fromIndex !== "number" || typeof node.toIndex !== "number") {
+                return false;
+              }
+              break;
+
             default:
               return false;
           }
@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { diff, DiffEngine } from "../diff";
-import { DiffType, ValueType } from "../types";
+import { diff, similarity, DiffEngine } from "../diff";
+import { DiffNode, DiffType, ValueType } from "../types";
+import { TypeNormalizer } from "../normalizer";
 
 /**
  * 核心 Diff Engine 单元测试
@@ -139,6 +140,123 @@ describe("DiffEngine", () => {
       const result = diff(sym1, sym2);
       expect(result.root.type).toBe(DiffType.UNCHANGED);
     });
+
+    it("应该按键比较 Map 并支持非字符串键", () => {
+      const objKey = { id: 1 };
+      const oldMap = new Map<any, any>([
+        ["a", 1],
+        [2, "two"],
+        [objKey, { x: 1 }],
+      ]);
+      const newMap = new Map<any, any>([
+        ["a", 1],
+        [{ id: 1 }, { x: 2 }],
+        [true, "yes"],
+      ]);
+      const result = diff(oldMap, newMap);
+      const children = result.root.children!;
+
+      expect(result.root.valueType).toBe(ValueType.MAP);
+      expect(children.map((c) => [c.type, c.path[0]])).toEqual([
+        [DiffType.UNCHANGED, "a"],
+        [DiffType.DELETED, "2"],
+        [DiffType.MODIFIED, '{"id":1}'],
+        [DiffType.ADDED, "true"],
+      ]);
+      expect(children[2].mapKey).toBe(objKey);
+      expect(children[3].mapKey).toBe(true);
+      expect(diff(new Map([["a", 1]]), new Map([["a", 2]])).root.type).toBe(DiffType.MODIFIED);
+    });
+
+    it("应该按成员比较 Set", () => {
+      const result = diff(new Set([1, 2, { a: 1 }]), new Set([2, 3, { a: 1 }]));
+
+      expect(result.root.valueType).toBe(ValueType.SET);
+      expect(result.root.children!.map((c) => c.type)).toEqual([
+        DiffType.DELETED,
+        DiffType.UNCHANGED,
+        DiffType.UNCHANGED,
+        DiffType.ADDED,
+      ]);
+      expect(diff(new Set([1, 2]), new Set([2, 1])).root.type).toBe(DiffType.UNCHANGED);
+    });
+
+    it("应该比较 BigInt", () => {
+      expect(diff(10n, 10n).root).toMatchObject({
+        type: DiffType.UNCHANGED,
+        valueType: ValueType.BIGINT,
+      });
+      expect(diff({ n: 1n }, { n: 2n }).root.children![0].type).toBe(DiffType.MODIFIED);
+    });
+
+    it("应该逐字节比较二进制数据并附带摘要", () => {
+      const result = diff(new Uint8Array([1, 2, 3, 4]), new Uint8Array([1, 9, 3, 8, 5]));
+
+      expect(result.root).toMatchObject({
+        type: DiffType.MODIFIED,
+        valueType: ValueType.TYPED_ARRAY,
+        byteDiff: { oldByteLength: 4, newByteLength: 5, changedBytes: 3, firstChangedOffset: 1 },
+      });
+      expect(diff(new Uint8Array([1]).buffer, new Uint8Array([1]).buffer).root.type).toBe(
+        DiffType.UNCHANGED,
+      );
+      expect(diff(new Uint8Array([1, 0]), new Uint16Array([1])).root.byteDiff).toMatchObject({
+        changedBytes: 0,
+        firstChangedOffset: -1,
+      });
+    });
+
+    it("应该按 name、message 和 stack 比较 Error", () => {
+      const error = new TypeError("boom");
+      const other = new TypeError("bang");
+      other.stack = error.stack;
+      const result = diff(error, other);
+
+      expect(result.root.valueType).toBe(ValueType.ERROR);
+      expect(
+        result.root.children!.filter((c) => c.type !== DiffType.UNCHANGED).map((c) => c.path),
+      ).toEqual([["message"]]);
+    });
+
+    it("应该比较 URL 和包装对象", () => {
+      expect(diff(new URL("https://a.com/x"), new URL("https://a.com/x")).root.type).toBe(
+        DiffType.UNCHANGED,
+      );
+      expect(diff(new URL("https://a.com/x"), new URL("https://a.com/y")).root).toMatchObject({
+        type: DiffType.MODIFIED,
+        valueType: ValueType.URL,
+      });
+      expect(diff(Object(1), Object(1)).root.type).toBe(DiffType.UNCHANGED);
+      expect(diff(Object("a"), Object("b")).root).toMatchObject({
+        type: DiffType.MODIFIED,
+        valueType: ValueType.BOXED,
+      });
+    });
+
+    it("应该能序列化扩展类型", () => {
+      const serialize = (value: any) =>
+        TypeNormalizer.serialize(value, TypeNormalizer.getValueType(value));
+
+      expect(serialize(10n)).toBe("10n");
+      expect(serialize({ n: 10n })).toBe('{"n":"10n"}');
+      expect(
+        serialize(
+          new Map<any, any>([
+            ["a", 1],
+            [2, new Set([3])],
+          ]),
+        ),
+      ).toBe('Map(2) {"a" => 1, 2 => Set(1) {3}}');
+      expect(serialize(new Int16Array([1, -2]))).toBe("Int16Array(2) [1, -2]");
+      expect(serialize(new ArrayBuffer(8))).toBe("ArrayBuffer(8)");
+      expect(serialize(new RangeError("out"))).toBe("RangeError: out");
+      expect(serialize(new URL("https://a.com"))).toBe("https://a.com/");
+      expect(serialize(Object(true))).toBe("[Boolean: true]");
+
+      const cyclic = new Map<string, any>();
+      cyclic.set("self", cyclic);
+      expect(serialize(cyclic)).toBe('Map(1) {"self" => [Circular]}');
+    });
   });
 
   describe("循环引用", () => {
@@ -151,6 +269,62 @@ describe("DiffEngine", () => {
 
       expect(() => diff(obj1, obj2)).not.toThrow();
     });
+
+    it("共享引用不应该被误判为循环引用", () => {
+      const shared = { x: 1 };
+      const oldObj = { a: shared, b: shared, list: [shared, shared] };
+      const newObj = { a: shared, b: { x: 2 }, list: [shared, shared] };
+      const result = diff(oldObj, newObj);
+
+      const findChild = (key: string) => result.root.children!.find((c) => c.path[0] === key)!;
+      expect(findChild("a").type).toBe(DiffType.UNCHANGED);
+      expect(findChild("b").type).toBe(DiffType.MODIFIED);
+      expect(findChild("b").children).toHaveLength(1);
+      expect(findChild("list").type).toBe(DiffType.UNCHANGED);
+      expect(JSON.stringify(result.root)).not.toContain("Circular");
+    });
+
+    it("应该标记循环引用指向的祖先路径", () => {
+      const oldObj: any = { name: "a", child: { value: 1 } };
+      oldObj.child.parent = oldObj;
+      const newObj: any = { name: "a", child: { value: 2 } };
+      newObj.child.parent = newObj;
+
+      const result = diff(oldObj, newObj);
+      const child = result.root.children!.find((c) => c.path[0] === "child")!;
+      const parent = child.children!.find((c) => c.path[1] === "parent")!;
+
+      expect(parent.circular).toEqual({ oldRefPath: [], newRefPath: [] });
+      expect(parent.type).toBe(DiffType.UNCHANGED);
+      expect(parent.oldValue).toBe(oldObj);
+      expect(parent.newValue).toBe(newObj);
+    });
+
+    it("只有一侧形成循环时应该标记为修改", () => {
+      const oldObj: any = { items: [{ id: 1 }] };
+      oldObj.items[0].owner = oldObj.items;
+      const newObj: any = { items: [{ id: 1, owner: { id: 0 } }] };
+
+      const result = diff(oldObj, newObj);
+      const owner = result.root.children![0].children![0].children!.find(
+        (c) => c.path[2] === "owner",
+      )!;
+
+      expect(owner.type).toBe(DiffType.MODIFIED);
+      expect(owner.circular).toEqual({ oldRefPath: ["items"], newRefPath: undefined });
+    });
+
+    it("关闭 detectCircular 时不应该标记共享引用", () => {
+      const shared = { x: 1 };
+      const result = diff(
+        { a: shared, b: shared },
+        { a: shared, b: shared },
+        { detectCircular: false },
+      );
+
+      expect(result.root.type).toBe(DiffType.UNCHANGED);
+      expect(result.root.children!.every((c) => c.circular === undefined)).toBe(true);
+    });
   });
 
   describe("配置选项", () => {
@@ -186,6 +360,422 @@ describe("DiffEngine", () => {
       expect(lcsResult).toBeDefined();
       expect(posResult).toBeDefined();
     });
+
+    it("应该支持按身份键匹配数组元素", () => {
+      const old = {
+        users: [
+          { id: 1, name: "a" },
+          { id: 2, name: "b" },
+        ],
+      };
+      const newObj = {
+        users: [
+          { id: 0, name: "z" },
+          { id: 1, name: "a" },
+          { id: 2, name: "c" },
+        ],
+      };
+      const result = diff(old, newObj, { arrayKey: "id" });
+
+      const users = result.root.children![0].children!;
+      expect(users.map((c) => c.type)).toEqual([
+        DiffType.ADDED,
+        DiffType.UNCHANGED,
+        DiffType.MODIFIED,
+      ]);
+      expect(users[2].children?.find((c) => c.path[2] === "name")?.oldValue).toBe("b");
+      expect(result.stats.deleted).toBe(0);
+    });
+
+    it("身份键应该优先于位置比较模式", () => {
+      const old = [{ id: 1 }, { id: 2 }];
+      const newArr = [{ id: 2 }];
+      const result = diff(old, newArr, { arrayDiffMode: "position", arrayKey: "id" });
+
+      expect(result.root.children!.map((c) => c.type)).toEqual([
+        DiffType.DELETED,
+        DiffType.UNCHANGED,
+      ]);
+    });
+
+    it("应该支持函数形式的身份键", () => {
+      const paths: string[][] = [];
+      const result = diff([{ key: "a", v: 1 }], [{ key: "a", v: 2 }], {
+        arrayKey: (item, path) => {
+          paths.push(path);
+          return item.key;
+        },
+      });
+
+      expect(result.root.children![0].type).toBe(DiffType.MODIFIED);
+      expect(paths[0]).toEqual([]);
+    });
+
+    it("应该支持按路径模式配置身份键", () => {
+      const old = {
+        orders: [{ orderId: 1, items: [{ sku: "a", qty: 1 }] }],
+        tags: [{ id: 1 }],
+      };
+      const newObj = {
+        orders: [
+          {
+            orderId: 1,
+            items: [
+              { sku: "b", qty: 1 },
+              { sku: "a", qty: 2 },
+            ],
+          },
+        ],
+        tags: [{ id: 2 }],
+      };
+      const result = diff(old, newObj, {
+        arrayKey: { "$.orders": "orderId", "orders[*].items": "sku" },
+      });
+
+      const items = result.root.children![0].children![0].children!.find(
+        (c) => c.path[2] === "items",
+      )!.children!;
+      expect(items.map((c) => c.type)).toEqual([DiffType.ADDED, DiffType.MODIFIED]);
+
+      // tags 没有匹配的规则，使用默认的 LCS 比较
+      const tags = result.root.children!.find((c) => c.path[0] === "tags")!.children!;
+      expect(tags.map((c) => c.type)).toEqual([DiffType.MODIFIED]);
+    });
+  });
+
+  describe("移动检测", () => {
+    it("应该将重新排序的元素识别为移动", () => {
+      const result = diff(["a", "b", "c"], ["b", "c", "a"]);
+      const moved = result.root.children!.filter((c) => c.type === DiffType.MOVED);
+
+      expect(moved).toHaveLength(1);
+      expect(moved[0].fromIndex).toBe(0);
+      expect(moved[0].toIndex).toBe(2);
+      expect(moved[0].path).toEqual(["2"]);
+      expect(result.stats.moved).toBe(1);
+      expect(result.stats.added).toBe(0);
+      expect(result.stats.deleted).toBe(0);
+    });
+
+    it("应该识别按身份键匹配的移动并比较内部差异", () => {
+      const old = [
+        { id: 1, v: "a" },
+        { id: 2, v: "b" },
+      ];
+      const newArr = [
+        { id: 2, v: "b" },
+        { id: 1, v: "x" },
+      ];
+      const result = diff(old, newArr, { arrayKey: "id" });
+      const moved = result.root.children!.find((c) => c.type === DiffType.MOVED)!;
+
+      expect(moved.fromIndex).toBe(0);
+      expect(moved.toIndex).toBe(1);
+      expect(moved.children?.find((c) => c.path[1] === "v")?.type).toBe(DiffType.MODIFIED);
+      expect(result.stats.moved).toBe(1);
+    });
+
+    it("关闭 detectMoves 时应该保持删除 + 添加", () => {
+      const result = diff(["a", "b", "c"], ["b", "c", "a"], { detectMoves: false });
+
+      expect(result.stats.moved).toBe(0);
+      expect(result.stats.added).toBe(1);
+      expect(result.stats.deleted).toBe(1);
+    });
+  });
+
+  describe("无序数组", () => {
+    it("只有顺序不同的数组应该视为未改变", () => {
+      const result = diff(
+        { tags: ["a", "b", "c"] },
+        { tags: ["c", "a", "b"] },
+        { arrayDiffMode: "unordered" },
+      );
+
+      expect(result.root.type).toBe(DiffType.UNCHANGED);
+      expect(result.stats.moved).toBe(0);
+    });
+
+    it("应该只报告真正的新增与删除，重复元素按次数计算", () => {
+      const result = diff(["read", "read", "write"], ["write", "read", "admin"], {
+        arrayDiffMode: "unordered",
+      });
+      const changes = result.root.children!.filter((c) => c.type !== DiffType.UNCHANGED);
+
+      expect(changes.map((c) => [c.type, c.path])).toEqual([
+        [DiffType.ADDED, ["2"]],
+        [DiffType.DELETED, ["1"]],
+      ]);
+    });
+
+    it("应该按身份键匹配并递归比较元素", () => {
+      const result = diff(
+        [
+          { id: 1, on: true },
+          { id: 2, on: false },
+        ],
+        [
+          { id: 2, on: true },
+          { id: 1, on: true },
+        ],
+        { arrayDiffMode: "unordered", arrayKey: "id" },
+      );
+      const [first, second] = result.root.children!;
+
+      expect(first).toMatchObject({ type: DiffType.MODIFIED, path: ["0"], fromIndex: 1 });
+      expect(first.children!.find((c) => c.path[1] === "on")!.type).toBe(DiffType.MODIFIED);
+      expect(second).toMatchObject({ type: DiffType.UNCHANGED, path: ["1"], fromIndex: 0 });
+    });
+
+    it("应该支持按路径模式配置比较模式", () => {
+      const oldValue = { flags: ["x", "y"], steps: ["x", "y"] };
+      const newValue = { flags: ["y", "x"], steps: ["y", "x"] };
+      const result = diff(oldValue, newValue, {
+        arrayDiffMode: { "$.flags": "unordered" },
+        detectMoves: false,
+      });
+      const [flags, steps] = result.root.children!;
+
+      expect(flags.type).toBe(DiffType.UNCHANGED);
+      expect(steps.type).toBe(DiffType.MODIFIED);
+    });
+  });
+
+  describe("类型变化", () => {
+    it("类型不同的节点应该记录两侧的值类型", () => {
+      const result = diff({ list: { a: 1 } }, { list: [1] });
+      const list = result.root.children![0];
+
+      expect(list.type).toBe(DiffType.MODIFIED);
+      expect(list.valueType).toBe(ValueType.OBJECT);
+      expect(list.oldValueType).toBe(ValueType.OBJECT);
+      expect(list.newValueType).toBe(ValueType.ARRAY);
+      expect(result.stats.typeChanged).toBe(1);
+    });
+
+    it("类型相同的节点不应该设置值类型变化字段", () => {
+      const result = diff({ a: 1, b: [1] }, { a: 2, b: [2] });
+
+      expect(result.stats.typeChanged).toBe(0);
+      expect(result.root.children![0]).not.toHaveProperty("newValueType");
+    });
+
+    it("比较器与最大深度生成的节点也应该记录类型变化", () => {
+      const compared = diff(
+        { a: null },
+        { a: {} },
+        {
+          comparators: [{ match: "$.a", compare: () => "modified" }],
+        },
+      );
+      const limited = diff({ a: { b: 1 } }, { a: { b: [1] } }, { maxDepth: 2 });
+
+      expect(compared.root.children![0].newValueType).toBe(ValueType.OBJECT);
+      expect(limited.root.children![0].children![0].oldValueType).toBe(ValueType.PRIMITIVE);
+      expect(limited.root.children![0].children![0].newValueType).toBe(ValueType.ARRAY);
+    });
+  });
+
+  describe("未改变子树的折叠", () => {
+    const shared = { profile: { name: "Alice", tags: ["a", "b"] }, settings: { theme: "dark" } };
+
+    it("相同引用的子树应该折叠为带 size 的节点", () => {
+      const result = diff(
+        { user: shared, count: 1 },
+        { user: shared, count: 2 },
+        { collapseUnchanged: true },
+      );
+      const user = result.root.children!.find((c) => c.path[0] === "user")!;
+
+      expect(user).toMatchObject({
+        type: DiffType.UNCHANGED,
+        valueType: ValueType.OBJECT,
+        oldValue: shared,
+        newValue: shared,
+        size: 8,
+      });
+      expect(user.children).toBeUndefined();
+      expect(result.stats.unchanged).toBe(8);
+      expect(result.stats.modified).toBe(2);
+    });
+
+    it("未开启折叠时相同引用的子树应该完整展开", () => {
+      const result = diff({ user: shared }, { user: shared });
+      const user = result.root.children![0];
+
+      expect(user.size).toBeUndefined();
+      expect(user.children).toHaveLength(2);
+      expect(result.stats.unchanged).toBe(9);
+    });
+
+    it("开启 hashSubtrees 时内容相同的不同引用也应该折叠", () => {
+      const copy = structuredClone(shared);
+      const collapsed = diff({ user: shared }, { user: copy }, { collapseUnchanged: true });
+      const hashed = diff(
+        { user: shared },
+        { user: copy },
+        { collapseUnchanged: true, hashSubtrees: true },
+      );
+
+      expect(collapsed.root.children![0].children).toHaveLength(2);
+      expect(hashed.root).toMatchObject({ type: DiffType.UNCHANGED, size: 9 });
+      expect(hashed.root.children).toBeUndefined();
+      expect(hashed.stats).toEqual(collapsed.stats);
+    });
+
+    it("哈希相同但内容不同的子树不应该折叠", () => {
+      const result = diff(
+        { user: shared },
+        { user: { ...shared, settings: { theme: "light" } } },
+        { collapseUnchanged: true, hashSubtrees: true },
+      );
+      const [user] = result.root.children!;
+      const [profile, settings] = user.children!;
+
+      expect(user.type).toBe(DiffType.MODIFIED);
+      expect(profile).toMatchObject({ type: DiffType.UNCHANGED, size: 5 });
+      expect(settings.type).toBe(DiffType.MODIFIED);
+    });
+
+    it("包含循环引用的子树只按引用折叠", () => {
+      const makeCyclic = () => {
+        const value: any = { name: "node" };
+        value.self = value;
+        return value;
+      };
+      const result = diff(
+        { a: makeCyclic() },
+        { a: makeCyclic() },
+        { collapseUnchanged: true, hashSubtrees: true },
+      );
+      const [a] = result.root.children!;
+
+      expect(a.type).toBe(DiffType.UNCHANGED);
+      expect(a.children).toHaveLength(2);
+      expect(a.children![1].circular).toBeDefined();
+    });
+
+    it("配置了自定义比较器时不应该折叠相同引用的子树", () => {
+      const o = { x: 1 };
+      const options = { comparators: [{ match: "$.a.x", compare: () => false }] };
+      const expanded = diff({ a: o }, { a: o }, options);
+      const collapsed = diff({ a: o }, { a: o }, { ...options, collapseUnchanged: true });
+
+      expect(expanded.stats.modified).toBe(3);
+      expect(collapsed.root).toEqual(expanded.root);
+      expect(collapsed.stats).toEqual(expanded.stats);
+    });
+
+    it("nanEqual 为 false 时不应该折叠相同引用的子树", () => {
+      const o = { x: NaN };
+      const options = { numeric: { nanEqual: false } };
+      const expanded = diff({ a: o }, { a: o }, options);
+      const collapsed = diff(
+        { a: o },
+        { a: o },
+        { ...options, collapseUnchanged: true, hashSubtrees: true },
+      );
+
+      expect(expanded.root.children![0].children![0].type).toBe(DiffType.MODIFIED);
+      expect(collapsed.root).toEqual(expanded.root);
+      expect(collapsed.stats).toEqual(expanded.stats);
+    });
+
+    it("相同引用的数组应该跳过序列匹配并按下标配对", () => {
+      const items = [{ id: 1 }, { id: 2 }, { id: 1 }];
+      for (const arrayDiffMode of ["lcs", "myers", "unordered"] as const) {
+        const result = diff({ items }, { items }, { arrayDiffMode, arrayKey: "id" });
+
+        expect(result.root.children![0].children!.map((c) => [c.type, c.path[1]])).toEqual([
+          [DiffType.UNCHANGED, "0"],
+          [DiffType.UNCHANGED, "1"],
+          [DiffType.UNCHANGED, "2"],
+        ]);
+      }
+    });
+  });
+
+  describe("只保留变化的结果", () => {
+    const oldValue = { a: 1, b: 2, c: { x: 1, y: 2 }, d: [1, 2, 3, 4, 5] };
+    const newValue = { a: 1, b: 3, c: { x: 1, y: 2 }, d: [1, 2, 9, 4, 5] };
+    const shape = (node: DiffNode): any[] => [
+      node.path.join("."),
+      node.type,
+      node.omitted ?? 0,
+      ...(node.children ?? []).map(shape),
+    ];
+
+    it("关闭 includeUnchanged 时只保留变化及其祖先，并记录省略的子节点数", () => {
+      const result = diff(oldValue, newValue, { includeUnchanged: false });
+
+      expect(shape(result.root)).toEqual([
+        "",
+        DiffType.MODIFIED,
+        2,
+        ["b", DiffType.MODIFIED, 0],
+        ["d", DiffType.MODIFIED, 4, ["d.2", DiffType.DELETED, 0], ["d.2", DiffType.ADDED, 0]],
+      ]);
+      expect(result.stats).toMatchObject({ unchanged: 0, modified: 3, added: 1, deleted: 1 });
+    });
+
+    it("unchangedContext 应该保留每处变化前后的未改变兄弟节点", () => {
+      const result = diff(
+        { d: [1, 2, 3, 4, 5, 6, 7] },
+        { d: [1, 2, 3, 9, 5, 6, 7] },
+        {
+          includeUnchanged: false,
+          unchangedContext: 1,
+        },
+      );
+      const [d] = result.root.children!;
+
+      expect(d.children!.map((c) => [c.path[1], c.type])).toEqual([
+        ["2", DiffType.UNCHANGED],
+        ["3", DiffType.DELETED],
+        ["3", DiffType.ADDED],
+        ["4", DiffType.UNCHANGED],
+      ]);
+      expect(d.omitted).toBe(4);
+    });
+
+    it("作为上下文保留的未改变容器不应该包含子节点", () => {
+      const result = diff(
+        { a: { x: 1, y: 2 }, b: 1 },
+        { a: { x: 1, y: 2 }, b: 2 },
+        { includeUnchanged: false, unchangedContext: 1 },
+      );
+      const [a, b] = result.root.children!;
+
+      expect(a).toMatchObject({ type: DiffType.UNCHANGED, children: [], omitted: 2 });
+      expect(b.type).toBe(DiffType.MODIFIED);
+    });
+
+    it("没有变化时只保留根节点", () => {
+      const result = diff(oldValue, structuredClone(oldValue), { includeUnchanged: false });
+
+      expect(result.root).toMatchObject({ type: DiffType.UNCHANGED, children: [], omitted: 4 });
+      expect(result.stats.unchanged).toBe(1);
+    });
+
+    it("应该与 collapseUnchanged 同时使用", () => {
+      const shared = { x: 1 };
+      const result = diff(
+        { s: shared, n: 1 },
+        { s: shared, n: 2 },
+        {
+          includeUnchanged: false,
+          collapseUnchanged: true,
+        },
+      );
+
+      expect(result.root.children!.map((c) => c.path[0])).toEqual(["n"]);
+      expect(result.root.omitted).toBe(1);
+    });
+
+    it("unchangedContext 不是非负整数时应该抛出错误", () => {
+      expect(() => new DiffEngine({ unchangedContext: -1 })).toThrow(/unchangedContext/);
+      expect(() => new DiffEngine({ unchangedContext: 1.5 })).toThrow(/unchangedContext/);
+    });
   });
 
   describe("统计信息", () => {
@@ -199,6 +789,169 @@ describe("DiffEngine", () => {
       expect(result.stats.deleted).toBeGreaterThan(0); // c
       expect(result.stats.added).toBeGreaterThan(0); // d
     });
+
+    it("应该区分叶子与容器，并按值类型和顶层键分类", () => {
+      const result = diff(
+        { user: { address: { city: "Paris", zip: "75001" } }, tags: ["a"] },
+        { user: { address: { city: "Lyon", zip: "75001" } }, tags: ["a", "bé"] },
+      );
+      const counts = (counts: Partial<Record<DiffType, number>>) => ({
+        added: 0,
+        deleted: 0,
+        modified: 0,
+        unchanged: 0,
+        moved: 0,
+        ignored: 0,
+        ...counts,
+      });
+
+      // 原有字段保持按节点计数：city 及其三层祖先容器与 tags 都计入 modified
+      expect(result.stats).toMatchObject({ modified: 5, unchanged: 2, added: 1 });
+      expect(result.stats.leaves).toEqual(counts({ modified: 1, unchanged: 2, added: 1 }));
+      expect(result.stats.containers).toEqual(counts({ modified: 4 }));
+      expect(result.stats.byValueType).toEqual({
+        [ValueType.PRIMITIVE]: counts({ modified: 1, unchanged: 2, added: 1 }),
+      });
+      expect(result.stats.byTopLevelKey).toEqual({
+        user: counts({ modified: 1, unchanged: 1 }),
+        tags: counts({ unchanged: 1, added: 1 }),
+      });
+      expect(result.stats.maxChangeDepth).toBe(3);
+      // "Paris" + "Lyon" + "bé"（é 占 2 字节）
+      expect(result.stats.bytesChanged).toBe(12);
+    });
+
+    it("二进制数据按变化的字节数计算", () => {
+      const result = diff({ data: new Uint8Array([1, 2, 3]) }, { data: new Uint8Array([1, 9, 3]) });
+
+      expect(result.stats.bytesChanged).toBe(1);
+      expect(result.stats.byValueType).toEqual({
+        [ValueType.TYPED_ARRAY]: expect.objectContaining({ modified: 1 }),
+      });
+    });
+
+    it("没有变化时最大变化深度为 -1", () => {
+      const result = diff({ a: [1, 2] }, { a: [1, 2] });
+
+      expect(result.stats.maxChangeDepth).toBe(-1);
+      expect(result.stats.bytesChanged).toBe(0);
+      expect(result.stats.containers!.unchanged).toBe(2);
+      expect(result.stats.byTopLevelKey!.a.unchanged).toBe(2);
+    });
+
+    it("折叠的子树应该按展开后的值统计", () => {
+      const value = { a: { x: [1, 2] }, b: new Map([["k", { y: 1 }]]) };
+      const collapsed = diff(value, value, { collapseUnchanged: true });
+
+      expect(collapsed.root.children).toBeUndefined();
+      expect(collapsed.stats).toEqual(diff(value, structuredClone(value)).stats);
+    });
+  });
+
+  describe("相似度", () => {
+    it("相同的值相似度为 1，不同的原始值为 0", () => {
+      expect(similarity({ a: [1, 2] }, { a: [1, 2] })).toBe(1);
+      expect(similarity(1, 2)).toBe(0);
+    });
+
+    it("应该按未改变的值占比计算", () => {
+      // 根节点、id、tags 及其两个元素未改变，name 被修改
+      expect(
+        similarity({ id: 1, name: "a", tags: ["x", "y"] }, { id: 1, name: "b", tags: ["x", "y"] }),
+      ).toBeCloseTo(5 / 6);
+      expect(similarity({ a: 1 }, { b: 2 })).toBeCloseTo(1 / 3);
+    });
+
+    it("新增与删除的子树应该按大小计入", () => {
+      // a 及其三个字段被删除
+      expect(similarity({ a: { x: 1, y: 2, z: 3 }, b: 1 }, { b: 1 })).toBeCloseTo(2 / 6);
+    });
+
+    it("应该按路径模式的权重计算", () => {
+      const oldValue = { id: 1, meta: { updatedAt: 1, by: "a" } };
+      const newValue = { id: 1, meta: { updatedAt: 2, by: "b" } };
+
+      expect(similarity(oldValue, newValue)).toBeCloseTo(3 / 5);
+      expect(similarity(oldValue, newValue, { similarityWeights: { "$.meta": 0 } })).toBe(1);
+      expect(similarity(oldValue, newValue, { similarityWeights: { "$.meta.by": 3 } })).toBeCloseTo(
+        3 / 7,
+      );
+    });
+
+    it("diff 结果应该包含相似度", () => {
+      const options = { similarityWeights: { "$.b": 2 } };
+      const result = diff({ a: 1, b: 2 }, { a: 1, b: 3 }, options);
+
+      expect(result.similarity).toBeCloseTo(2 / 4);
+      expect(result.similarity).toBe(similarity({ a: 1, b: 2 }, { a: 1, b: 3 }, options));
+    });
+
+    it("省略未改变节点的结果应该得到相同的相似度", () => {
+      const oldValue = { a: { x: 1, y: [1, 2, 3] }, b: "s", c: [1, 2] };
+      const newValue = { a: { x: 2, y: [1, 2, 3] }, b: "s", c: [1, 3] };
+      const pruned = diff(oldValue, newValue, { includeUnchanged: false });
+
+      expect(pruned.similarity).toBeCloseTo(diff(oldValue, newValue).similarity!);
+    });
+
+    it("similarityThreshold 应该只将足够相似的元素配对为修改", () => {
+      const oldValue = [{ id: 1, name: "a", role: "x" }];
+      const different = [{ id: 2, name: "b", role: "y" }];
+      const close = [{ id: 1, name: "b", role: "x" }];
+      const types = (result: ReturnType<typeof diff>) =>
+        result.root.children!.map((child) => child.type);
+
+      expect(types(diff(oldValue, different))).toEqual([DiffType.MODIFIED]);
+      expect(types(diff(oldValue, different, { similarityThreshold: 0.5 }))).toEqual([
+        DiffType.DELETED,
+        DiffType.ADDED,
+      ]);
+      expect(types(diff(oldValue, close, { similarityThreshold: 0.5 }))).toEqual([
+        DiffType.MODIFIED,
+      ]);
+      expect(
+        types(diff(oldValue, different, { similarityThreshold: 0.5, arrayDiffMode: "unordered" })),
+      ).toEqual([DiffType.ADDED, DiffType.DELETED]);
+    });
+
+    it("相似判断时比较过的元素不应该再次比较", () => {
+      const oldValue = [{ id: 1, name: "a", role: "x" }];
+      const newValue = [{ id: 1, name: "b", role: "x" }];
+      for (const arrayDiffMode of ["lcs", "unordered"] as const) {
+        let calls = 0;
+        const comparators = [
+          { match: "$[*].name", compare: (a: any, b: any) => (calls++, a === b) },
+        ];
+        const plain = diff(oldValue, newValue, { arrayDiffMode, comparators });
+        const plainCalls = calls;
+        calls = 0;
+        const result = diff(oldValue, newValue, {
+          arrayDiffMode,
+          comparators,
+          similarityThreshold: 0.5,
+        });
+
+        // 序列匹配的相等判断也会调用比较器；相似判断的结果被复用，调用次数与不设置阈值时相同
+        expect(calls).toBe(plainCalls);
+        expect(result.root).toEqual(plain.root);
+      }
+    });
+
+    it("元素的相似度应该使用元素路径上的权重", () => {
+      const result = diff([{ id: 1, name: "a" }], [{ id: 1, name: "b" }], {
+        similarityThreshold: 0.9,
+        similarityWeights: { "$[*].name": 0 },
+      });
+
+      expect(result.root.children!.map((child) => child.type)).toEqual([DiffType.MODIFIED]);
+    });
+
+    it("无效的阈值与权重应该抛出错误", () => {
+      expect(() => new DiffEngine({ similarityThreshold: 1.5 })).toThrow(/similarityThreshold/);
+      expect(() => similarity({ a: 1 }, { a: 2 }, { similarityWeights: { "$.a": -1 } })).toThrow(
+        /Similarity weight/,
+      );
+    });
   });
 
   describe("嵌套结构", () => {
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { diff, diffAsync } from "../diff";
+import { DiffProgress, DiffType } from "../types";
+
+/**
+ * 异步 diff 单元测试
+ */
+
+const makeTree = (size: number, seed: number) =>
+  Array.from({ length: size }, (_, i) => ({
+    id: i,
+    name: `item-${i}`,
+    tags: [i % 3, i % 5],
+    meta: { score: (i * seed) % 7, nested: new Map([["k", i % seed]]) },
+  }));
+
+describe("diffAsync", () => {
+  it("应该与同步 diff 产生相同的结果", async () => {
+    const oldValue = makeTree(200, 3);
+    const newValue = makeTree(210, 4);
+    const options = { arrayKey: "id", detectMoves: true };
+
+    const result = await diffAsync(oldValue, newValue, { ...options, yieldEvery: 50 });
+
+    expect(result).toEqual(diff(oldValue, newValue, options));
+  });
+
+  it("应该支持循环引用检测", async () => {
+    const oldValue: any = { a: 1 };
+    oldValue.self = oldValue;
+    const newValue: any = { a: 2 };
+    newValue.self = newValue;
+
+    const result = await diffAsync(oldValue, newValue, { yieldEvery: 1 });
+
+    expect(result).toEqual(diff(oldValue, newValue));
+  });
+
+  it("应该在分块之间让出事件循环", async () => {
+    const ticks: number[] = [];
+    const timer = setInterval(() => ticks.push(ticks.length), 0);
+
+    try {
+      await diffAsync(makeTree(300, 3), makeTree(300, 4), { yieldEvery: 100 });
+    } finally {
+      clearInterval(timer);
+    }
+
+    expect(ticks.length).toBeGreaterThan(0);
+  });
+
+  it("应该报告进度", async () => {
+    const progress: DiffProgress[] = [];
+    const result = await diffAsync(makeTree(100, 3), makeTree(100, 4), {
+      yieldEvery: 100,
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(progress.length).toBeGreaterThan(1);
+    for (let i = 1; i < progress.length; i++) {
+      expect(progress[i].visited).toBeGreaterThan(progress[i - 1].visited);
+    }
+    for (const p of progress) {
+      expect(p.estimatedTotal).toBeGreaterThanOrEqual(p.visited);
+    }
+
+    const last = progress[progress.length - 1];
+    const { added, deleted, modified, unchanged, moved } = result.stats;
+    expect(last.estimatedTotal).toBe(last.visited);
+    expect(last.visited).toBe(added + deleted + modified + unchanged + moved);
+  });
+
+  it("应该可以通过 signal 取消", async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const promise = diffAsync(makeTree(500, 3), makeTree(500, 4), {
+      signal: controller.signal,
+      yieldEvery: 10,
+      onProgress: () => {
+        if (++calls === 3) controller.abort();
+      },
+    });
+
+    await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+    expect(calls).toBe(3);
+  });
+
+  it("已取消的 signal 应该立即拒绝", async () => {
+    const reason = new Error("stale");
+    const controller = new AbortController();
+    controller.abort(reason);
+
+    await expect(diffAsync(1, 2, { signal: controller.signal })).rejects.toBe(reason);
+  });
+
+  it("叶子值应该直接完成", async () => {
+    const result = await diffAsync("a", "b");
+
+    expect(result.root.type).toBe(DiffType.MODIFIED);
+  });
+
+  it("yieldEvery 必须为正数", async () => {
+    await expect(diffAsync({}, {}, { yieldEvery: 0 })).rejects.toThrow("yieldEvery");
+  });
+});
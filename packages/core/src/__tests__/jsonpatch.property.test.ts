@@ -0,0 +1,193 @@
+import { describe, it, expect } from "vitest";
+import fc from "fast-check";
+import { diff } from "../diff";
+import { DiffType } from "../types";
+import { JsonPatchExporter, toJsonPatch, type JsonPatchOperation } from "../jsonpatch";
+
+/**
+ * JSON Patch 导出属性测试
+ * Feature: json-visual-diff
+ */
+
+describe("JSON Patch Property Tests", () => {
+  /**
+   * Property: JSON Patch 往返一致性
+   *
+   * 对于任意两个 JSON 值，将 diff 结果导出的 patch 按顺序应用到旧值上，应该得到新值
+   */
+  it("Property: JSON Patch 往返一致性", () => {
+    fc.assert(
+      fc.property(fc.jsonValue(), fc.jsonValue(), (oldValue, newValue) => {
+        const patch = toJsonPatch(diff(oldValue, newValue));
+        const patched = applyPatch(oldValue, patch);
+
+        expect(patched).toEqual(newValue);
+
+        return true;
+      }),
+      { numRuns: 200 },
+    );
+  });
+
+  /**
+   * Property: 数组 patch 往返一致性（各数组算法、位置模式、身份键匹配与移动检测）
+   */
+  it("Property: 数组 patch 往返一致性", () => {
+    const itemArb = fc.oneof(fc.integer({ min: 0, max: 5 }), fc.record({ id: fc.nat(3) }));
+
+    fc.assert(
+      fc.property(
+        fc.array(itemArb, { maxLength: 10 }),
+        fc.array(itemArb, { maxLength: 10 }),
+        fc.constantFrom("myers" as const, "patience" as const, "lcs" as const, "position" as const),
+        fc.boolean(),
+        fc.boolean(),
+        (oldValue, newValue, arrayDiffMode, keyed, detectMoves) => {
+          const patch = toJsonPatch(
+            diff(oldValue, newValue, {
+              arrayDiffMode,
+              arrayKey: keyed ? "id" : undefined,
+              detectMoves,
+            }),
+          );
+
+          expect(applyPatch(oldValue, patch)).toEqual(newValue);
+
+          return true;
+        },
+      ),
+      { numRuns: 200 },
+    );
+  });
+
+  /**
+   * Property: 无序数组 patch 往返一致性
+   *
+   * 无序模式下数组有变化时，patch 应该同时把元素移动到新值中的位置
+   */
+  it("Property: 无序数组 patch 往返一致性", () => {
+    const itemArb = fc.oneof(
+      fc.integer({ min: 0, max: 5 }),
+      fc.record({ id: fc.nat(3), v: fc.nat(2) }),
+    );
+
+    fc.assert(
+      fc.property(
+        fc.array(itemArb, { maxLength: 10 }),
+        fc.array(itemArb, { maxLength: 10 }),
+        fc.boolean(),
+        (oldValue, newValue, keyed) => {
+          const result = diff(oldValue, newValue, {
+            arrayDiffMode: "unordered",
+            arrayKey: keyed ? "id" : undefined,
+          });
+          const patched = applyPatch(oldValue, toJsonPatch(result));
+
+          expect(patched).toEqual(result.root.type === DiffType.UNCHANGED ? oldValue : newValue);
+
+          return true;
+        },
+      ),
+      { numRuns: 200 },
+    );
+  });
+  /**
+   * Property: 路径格式正确性
+   *
+   * 所有生成的路径都应该是合法的 JSON Pointer，并且 patch 不修改输入
+   */
+  it("Property: 路径格式正确性", () => {
+    fc.assert(
+      fc.property(fc.jsonValue(), fc.jsonValue(), (oldValue, newValue) => {
+        const snapshot = JSON.stringify(oldValue);
+        const patch = toJsonPatch(diff(oldValue, newValue));
+
+        for (const operation of patch) {
+          expect(operation.path === "" || operation.path.startsWith("/")).toBe(true);
+          expect(["add", "remove", "replace", "move"]).toContain(operation.op);
+        }
+
+        applyPatch(oldValue, patch);
+        expect(JSON.stringify(oldValue)).toBe(snapshot);
+
+        return true;
+      }),
+      { numRuns: 100 },
+    );
+  });
+});
+
+/**
+ * 读取 JSON Pointer 指向的值
+ */
+function readPointer(document: any, pointer: string): any {
+  return JsonPatchExporter.parsePointer(pointer).reduce((value, token) => value[token], document);
+}
+
+/**
+ * 按 RFC 6902 语义应用 patch（支持 add / remove / replace / move）
+ */
+function applyPatch(document: any, patch: JsonPatchOperation[]): any {
+  let root = structuredClone(document);
+
+  for (const operation of patch) {
+    if (operation.op === "move") {
+      // move 等价于先从 from 取出值并删除，再添加到 path
+      const value = readPointer(root, operation.from!);
+      root = applyPatch(root, [
+        { op: "remove", path: operation.from! },
+        { op: "add", path: operation.path, value },
+      ]);
+      continue;
+    }
+
+    const tokens = JsonPatchExporter.parsePointer(operation.path);
+
+    if (tokens.length === 0) {
+      root = operation.op === "remove" ? undefined : structuredClone(operation.value);
+      continue;
+    }
+
+    let parent = root;
+    for (const token of tokens.slice(0, -1)) {
+      parent = parent[token];
+    }
+    const last = tokens[tokens.length - 1];
+
+    if (Array.isArray(parent)) {
+      const index = Number(last);
+      if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+        throw new Error(`Invalid array index: ${operation.path}`);
+      }
+      if (operation.op === "add") {
+        parent.splice(index, 0, structuredClone(operation.value));
+      } else {
+        if (index >= parent.length) {
+          throw new Error(`Index out of bounds: ${operation.path}`);
+        }
+        if (operation.op === "remove") {
+          parent.splice(index, 1);
+        } else {
+          parent[index] = structuredClone(operation.value);
+        }
+      }
+    } else {
+      if (operation.op !== "add" && !Object.prototype.hasOwnProperty.call(parent, last)) {
+        throw new Error(`Path does not exist: ${operation.path}`);
+      }
+      if (operation.op === "remove") {
+        delete parent[last];
+      } else {
+        // 使用 defineProperty 以正确处理 "__proto__" 等特殊键
+        Object.defineProperty(parent, last, {
+          value: structuredClone(operation.value),
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        });
+      }
+    }
+  }
+
+  return root;
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { diff } from "../diff";
+import { JsonPatchExporter, toJsonPatch } from "../jsonpatch";
+
+/**
+ * JSON Patch 导出器单元测试
+ */
+
+describe("JsonPatchExporter", () => {
+  describe("JSON Pointer", () => {
+    it("应该转义 ~ 和 /", () => {
+      expect(JsonPatchExporter.escapePointerToken("a/b")).toBe("a~1b");
+      expect(JsonPatchExporter.escapePointerToken("m~n")).toBe("m~0n");
+      expect(JsonPatchExporter.escapePointerToken("~1")).toBe("~01");
+    });
+
+    it("应该正确构建和解析指针", () => {
+      const path = ["a/b", "c~d", "0", ""];
+      const pointer = JsonPatchExporter.toPointer(path);
+
+      expect(pointer).toBe("/a~1b/c~0d/0/");
+      expect(JsonPatchExporter.parsePointer(pointer)).toEqual(path);
+      expect(JsonPatchExporter.toPointer([])).toBe("");
+      expect(JsonPatchExporter.parsePointer("")).toEqual([]);
+    });
+
+    it("应该拒绝不以 / 开头的指针", () => {
+      expect(() => JsonPatchExporter.parsePointer("a/b")).toThrow();
+    });
+  });
+
+  describe("操作生成", () => {
+    it("相同的值应该生成空 patch", () => {
+      expect(toJsonPatch(diff({ a: [1, 2] }, { a: [1, 2] }))).toEqual([]);
+    });
+
+    it("应该生成对象属性的 add/remove/replace 操作", () => {
+      const patch = toJsonPatch(diff({ a: 1, b: 2 }, { a: 3, c: 4 }));
+
+      expect(patch).toContainEqual({ op: "replace", path: "/a", value: 3 });
+      expect(patch).toContainEqual({ op: "remove", path: "/b" });
+      expect(patch).toContainEqual({ op: "add", path: "/c", value: 4 });
+    });
+
+    it("根节点类型变化时应该替换整个文档", () => {
+      expect(toJsonPatch(diff({ a: 1 }, [1]))).toEqual([{ op: "replace", path: "", value: [1] }]);
+    });
+
+    it("数组删除后的下标应该按顺序修正", () => {
+      const patch = toJsonPatch(diff([1, 2, 3, 4], [1, 4, 5]));
+
+      expect(patch).toEqual([
+        { op: "remove", path: "/1" },
+        { op: "remove", path: "/1" },
+        { op: "add", path: "/2", value: 5 },
+      ]);
+    });
+
+    it("应该转义包含特殊字符的键", () => {
+      const patch = toJsonPatch(diff({ "a/b": { "~": 1 } }, { "a/b": { "~": 2 } }));
+
+      expect(patch).toEqual([{ op: "replace", path: "/a~1b/~0", value: 2 }]);
+    });
+
+    it("达到 maxDepth 的修改应该拒绝导出", () => {
+      const result = diff({ a: { b: { c: 1 } } }, { a: { b: { c: 2 } } }, { maxDepth: 1 });
+
+      expect(() => toJsonPatch(result)).toThrow(/\$\.a: diff truncated by maxDepth/);
+    });
+  });
+});
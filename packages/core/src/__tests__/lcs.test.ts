@@ -162,4 +162,141 @@ describe("LCS 数组 Diff 算法", () => {
       expect(LCSArrayDiff.isEqual(arr1, arr2)).toBe(false);
     });
   });
+
+  describe("移动检测", () => {
+    it("默认不检测移动", () => {
+      const ops = LCSArrayDiff.diff([1, 2, 3], [2, 3, 1]);
+
+      expect(ops.some((op) => op.type === "move")).toBe(false);
+    });
+
+    it("应该将相等元素的 delete + add 配对为 move", () => {
+      const ops = LCSArrayDiff.diff([1, 2, 3], [2, 3, 1], { detectMoves: true });
+
+      expect(ops.map((op) => op.type)).toEqual(["keep", "keep", "move"]);
+      expect(ops[2]).toMatchObject({ index: 2, fromIndex: 0, value: 1, newValue: 1 });
+    });
+
+    it("重复元素应该各自只配对一次", () => {
+      const ops = LCSArrayDiff.diff([1, 1, 2], [2, 1, 1, 1], { detectMoves: true });
+
+      expect(ops.filter((op) => op.type === "move")).toHaveLength(1);
+      expect(ops.filter((op) => op.type === "add")).toHaveLength(1);
+      expect(ops.filter((op) => op.type === "delete")).toHaveLength(0);
+    });
+  });
+
+  describe("身份键匹配", () => {
+    const byId = (item: any) => (item && typeof item === "object" ? item.id : undefined);
+
+    it("应该将相同身份键的元素视为保持，以便递归比较内部差异", () => {
+      const arr1 = [
+        { id: 1, name: "a" },
+        { id: 2, name: "b" },
+      ];
+      const arr2 = [
+        { id: 1, name: "a" },
+        { id: 2, name: "c" },
+      ];
+      const ops = LCSArrayDiff.diff(arr1, arr2, { keyOf: byId });
+
+      expect(ops.map((op) => op.type)).toEqual(["keep", "keep"]);
+    });
+
+    it("不应该将身份键不同的元素配对为 modify", () => {
+      const arr1 = [{ id: 1, name: "a" }];
+      const arr2 = [{ id: 2, name: "a" }];
+
+      expect(LCSArrayDiff.diff(arr1, arr2).map((op) => op.type)).toEqual(["modify"]);
+      expect(LCSArrayDiff.diff(arr1, arr2, { keyOf: byId }).map((op) => op.type)).toEqual([
+        "delete",
+        "add",
+      ]);
+    });
+
+    it("没有身份键的元素应该回退到深度比较", () => {
+      const arr1 = [1, { id: 1, v: 1 }, 2];
+      const arr2 = [1, { id: 1, v: 2 }, 3];
+      const ops = LCSArrayDiff.diff(arr1, arr2, { keyOf: byId });
+
+      expect(ops.filter((op) => op.type === "keep")).toHaveLength(2);
+      expect(ops.filter((op) => op.type === "delete")).toHaveLength(1);
+      expect(ops.filter((op) => op.type === "add")).toHaveLength(1);
+    });
+  });
+
+  describe("无序匹配", () => {
+    it("重排的元素应该全部保持", () => {
+      const ops = LCSArrayDiff.diffUnordered(["a", "b", "c"], ["c", "a", "b"]);
+
+      expect(ops.map((op) => op.type)).toEqual(["keep", "keep", "keep"]);
+      expect(ops.map((op) => op.index)).toEqual([2, 0, 1]);
+    });
+
+    it("重复元素应该按出现次数匹配", () => {
+      const ops = LCSArrayDiff.diffUnordered([1, 1, 2], [2, 1, 3]);
+
+      expect(ops.map((op) => [op.type, op.value])).toEqual([
+        ["keep", 2],
+        ["keep", 1],
+        ["add", 3],
+        ["delete", 1],
+      ]);
+      expect(ops[3].index).toBe(1);
+    });
+
+    it("剩余的同类型对象应该配对为 modify", () => {
+      const ops = LCSArrayDiff.diffUnordered([{ a: 1 }, "x"], ["y", { a: 2 }]);
+
+      expect(ops.map((op) => op.type)).toEqual(["add", "modify", "delete"]);
+      expect(ops[1]).toMatchObject({ index: 0, value: { a: 1 }, newValue: { a: 2 } });
+    });
+
+    it("应该按身份键匹配元素", () => {
+      const byId = (item: any) => item.id;
+      const ops = LCSArrayDiff.diffUnordered(
+        [
+          { id: 1, v: 1 },
+          { id: 2, v: 2 },
+        ],
+        [
+          { id: 2, v: 3 },
+          { id: 1, v: 1 },
+        ],
+        { keyOf: byId },
+      );
+
+      expect(ops.map((op) => [op.type, op.index])).toEqual([
+        ["keep", 1],
+        ["keep", 0],
+      ]);
+    });
+  });
+
+  describe("相似判断", () => {
+    it("不相似的同类型元素不应该配对为 modify", () => {
+      const calls: Array<[any, any, number]> = [];
+      const similar = (a: any, b: any, index: number) => {
+        calls.push([a, b, index]);
+        return a.v === b.v;
+      };
+      const ops = LCSArrayDiff.diff([1, { v: 1, w: 1 }, { v: 2 }], [1, { v: 1, w: 2 }, { v: 3 }], {
+        similar,
+      });
+
+      expect(ops.map((op) => op.type)).toEqual(["keep", "modify", "delete", "add"]);
+      expect(calls.map(([, , index]) => index)).toEqual([1, 2]);
+    });
+
+    it("无序匹配时剩余元素应该与第一个相似的旧元素配对", () => {
+      const ops = LCSArrayDiff.diffUnordered([{ v: 1 }, { v: 2 }], [{ v: 2, w: 1 }], {
+        similar: (a, b) => a.v === b.v,
+      });
+
+      expect(ops.map((op) => [op.type, op.index])).toEqual([
+        ["modify", 1],
+        ["delete", 0],
+      ]);
+    });
+  });
 });
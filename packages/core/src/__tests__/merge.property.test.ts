@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import fc from "fast-check";
+import { merge3 } from "../merge";
+
+/**
+ * 三路合并属性测试
+ * Feature: json-visual-diff
+ */
+
+describe("Merge Property Tests", () => {
+  /**
+   * Property: 单侧修改
+   *
+   * 当一侧与基准相同时，合并结果应该等于另一侧，且没有冲突
+   */
+  it("Property: 单侧修改直接采用另一侧", () => {
+    fc.assert(
+      fc.property(fc.jsonValue(), fc.jsonValue(), (base, changed) => {
+        const oursOnly = merge3(base, changed, base);
+        const theirsOnly = merge3(base, base, changed);
+
+        expect(oursOnly.conflicts).toEqual([]);
+        expect(oursOnly.merged).toEqual(changed);
+        expect(theirsOnly.conflicts).toEqual([]);
+        expect(theirsOnly.merged).toEqual(changed);
+
+        return true;
+      }),
+      { numRuns: 100 },
+    );
+  });
+
+  /**
+   * Property: 相同修改
+   *
+   * 两侧做了完全相同的修改时，合并结果应该等于该修改，且没有冲突
+   */
+  it("Property: 两侧相同的修改没有冲突", () => {
+    fc.assert(
+      fc.property(fc.jsonValue(), fc.jsonValue(), (base, changed) => {
+        const result = merge3(base, changed, structuredClone(changed));
+
+        expect(result.conflicts).toEqual([]);
+        expect(result.merged).toEqual(changed);
+
+        return true;
+      }),
+      { numRuns: 100 },
+    );
+  });
+
+  /**
+   * Property: 策略对称性
+   *
+   * 交换 ours 与 theirs 并交换策略，应该得到相同的合并结果和相同数量的冲突
+   */
+  it("Property: ours/theirs 策略对称", () => {
+    const docArb = fc.dictionary(
+      fc.constantFrom("a", "b", "c", "d"),
+      fc.oneof(
+        fc.integer({ min: 0, max: 3 }),
+        fc.array(fc.integer({ min: 0, max: 3 }), { maxLength: 4 }),
+      ),
+    );
+
+    fc.assert(
+      fc.property(docArb, docArb, docArb, (base, ours, theirs) => {
+        const left = merge3(base, ours, theirs, { strategy: "ours" });
+        const right = merge3(base, theirs, ours, { strategy: "theirs" });
+
+        expect(left.merged).toEqual(right.merged);
+        expect(left.conflicts.length).toBe(right.conflicts.length);
+
+        return true;
+      }),
+      { numRuns: 200 },
+    );
+  });
+});
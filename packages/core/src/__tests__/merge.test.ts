@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import { merge3, MergeConflictError, type MergeConflict } from "../merge";
+
+/**
+ * 三路合并单元测试
+ */
+
+describe("MergeEngine", () => {
+  describe("自动合并", () => {
+    it("应该合并两侧互不重叠的对象修改", () => {
+      const base = { a: 1, b: 2, c: { x: 1, y: 1 } };
+      const ours = { a: 10, b: 2, c: { x: 2, y: 1 } };
+      const theirs = { a: 1, c: { x: 1, y: 2 }, d: 4 };
+
+      const result = merge3(base, ours, theirs);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.merged).toEqual({ a: 10, c: { x: 2, y: 2 }, d: 4 });
+    });
+
+    it("两侧相同的修改不应该产生冲突", () => {
+      const result = merge3({ a: 1 }, { a: 2, b: [1] }, { a: 2, b: [1] });
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.merged).toEqual({ a: 2, b: [1] });
+    });
+
+    it("应该合并数组中不同位置的插入和删除", () => {
+      const base = [1, 2, 3, 4];
+      const ours = [0, 1, 2, 3, 4];
+      const theirs = [1, 2, 4, 5];
+
+      const result = merge3(base, ours, theirs);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.merged).toEqual([0, 1, 2, 4, 5]);
+    });
+
+    it("应该递归合并数组中被两侧修改的对象", () => {
+      const base = { users: [{ name: "a", age: 1 }] };
+      const ours = { users: [{ name: "b", age: 1 }] };
+      const theirs = { users: [{ name: "a", age: 2 }] };
+
+      const result = merge3(base, ours, theirs);
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.merged).toEqual({ users: [{ name: "b", age: 2 }] });
+    });
+
+    it("无序比较模式的数组应该按位置合并", () => {
+      const base = { tags: ["a", "b"] };
+      const ours = { tags: ["a", "b", "c"] };
+      const theirs = { tags: ["b"] };
+
+      const result = merge3(base, ours, theirs, { arrayDiffMode: { "$.tags": "unordered" } });
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.merged).toEqual({ tags: ["b", "c"] });
+    });
+  });
+
+  describe("冲突检测", () => {
+    it("应该报告同一路径的不同修改", () => {
+      const result = merge3({ a: 1 }, { a: 2 }, { a: 3 }, { strategy: "ours" });
+
+      expect(result.conflicts).toEqual([
+        { type: "modify-modify", path: ["a"], base: 1, ours: 2, theirs: 3 },
+      ]);
+      expect(result.merged).toEqual({ a: 2 });
+    });
+
+    it("应该报告删除与修改冲突", () => {
+      const result = merge3({ a: { x: 1 } }, {}, { a: { x: 2 } }, { strategy: "theirs" });
+
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0].type).toBe("delete-modify");
+      expect(result.conflicts[0].ours).toBeUndefined();
+      expect(result.merged).toEqual({ a: { x: 2 } });
+    });
+
+    it("应该报告两侧添加了不同值的冲突", () => {
+      const result = merge3({}, { a: 1 }, { a: 2 }, { strategy: "theirs" });
+
+      expect(result.conflicts[0].type).toBe("add-add");
+      expect(result.merged).toEqual({ a: 2 });
+    });
+
+    it("应该报告同一数组位置的并发插入", () => {
+      const result = merge3([1, 2], [1, "x", 2], [1, "y", 2], { strategy: "ours" });
+
+      expect(result.conflicts).toEqual([
+        { type: "array-insert", path: ["1"], ours: ["x"], theirs: ["y"] },
+      ]);
+      expect(result.merged).toEqual([1, "x", 2]);
+    });
+
+    it("达到 maxDepth 的修改应该拒绝合并", () => {
+      const base = { a: { b: { c: 1 } }, x: 1 };
+      const ours = { a: { b: { c: 2 } }, x: 1 };
+      const theirs = { a: { b: { c: 3 } }, x: 2 };
+
+      expect(() => merge3(base, ours, theirs, { maxDepth: 1, strategy: "ours" })).toThrow(
+        /\$\.a: diff truncated by maxDepth/,
+      );
+    });
+
+    it("达到 maxDepth 但未改变的节点应该保留基准值", () => {
+      const shared = { b: { c: 1 } };
+      const result = merge3(
+        { a: shared },
+        { a: shared, y: 1 },
+        { a: shared, z: 2 },
+        { maxDepth: 1 },
+      );
+
+      expect(result).toEqual({ merged: { a: shared, y: 1, z: 2 }, conflicts: [] });
+    });
+  });
+
+  describe("冲突解决策略", () => {
+    it("默认 fail 策略应该抛出包含全部冲突的 MergeConflictError", () => {
+      try {
+        merge3({ a: 1, b: 1 }, { a: 2, b: 2 }, { a: 3, b: 3 });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(MergeConflictError);
+        expect((error as MergeConflictError).conflicts).toHaveLength(2);
+      }
+    });
+
+    it("fail 策略在没有冲突时应该正常返回", () => {
+      expect(merge3({ a: 1 }, { a: 2 }, { a: 1 }, { strategy: "fail" }).merged).toEqual({ a: 2 });
+    });
+
+    it("自定义回调应该决定冲突位置的值", () => {
+      const seen: MergeConflict[] = [];
+      const result = merge3(
+        { count: 1, tags: ["a"], removed: 1 },
+        { count: 2, tags: ["a", "b"], removed: 2 },
+        { count: 3, tags: ["a", "c"], removed: 3 },
+        {
+          strategy: (conflict) => {
+            seen.push(conflict);
+            if (conflict.type === "array-insert") {
+              return [...conflict.ours, ...conflict.theirs];
+            }
+            if (conflict.path[0] === "removed") {
+              return undefined;
+            }
+            return conflict.ours + conflict.theirs;
+          },
+        },
+      );
+
+      expect(seen).toHaveLength(3);
+      expect(result.merged).toEqual({ count: 5, tags: ["a", "b", "c"] });
+    });
+
+    it("应该将 DiffOptions 传递给 DiffEngine", () => {
+      const result = merge3(
+        { a: 1, b: 1, meta: 1 },
+        { a: 1, b: 2, meta: 2 },
+        { a: 2, b: 1, meta: 3 },
+        { ignoreKeys: ["meta"], strategy: "fail" },
+      );
+
+      expect(result.conflicts).toEqual([]);
+      expect(result.merged).toEqual({ a: 2, b: 2, meta: 1 });
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { NumericEquality } from "../numeric";
+import { LCSArrayDiff } from "../lcs";
+import { diff } from "../diff";
+import { DiffType } from "../types";
+
+/**
+ * 数值比较单元测试
+ */
+
+describe("NumericEquality", () => {
+  it("默认应该精确比较数值", () => {
+    expect(NumericEquality.equals(1, 1)).toBe(true);
+    expect(NumericEquality.equals(0.1 + 0.2, 0.3)).toBe(false);
+  });
+
+  it("默认应该将 NaN 视为相等", () => {
+    expect(NumericEquality.equals(NaN, NaN)).toBe(true);
+    expect(NumericEquality.equals(NaN, NaN, { nanEqual: false })).toBe(false);
+    expect(NumericEquality.equals(NaN, 0)).toBe(false);
+  });
+
+  it("应该按配置区分正负零", () => {
+    expect(NumericEquality.equals(0, -0)).toBe(true);
+    expect(NumericEquality.equals(0, -0, { signedZero: true })).toBe(false);
+    expect(NumericEquality.equals(-0, -0, { signedZero: true })).toBe(true);
+  });
+
+  it("应该支持绝对误差", () => {
+    expect(NumericEquality.equals(0.1 + 0.2, 0.3, { absoluteTolerance: 1e-9 })).toBe(true);
+    expect(NumericEquality.equals(1, 1.1, { absoluteTolerance: 0.05 })).toBe(false);
+  });
+
+  it("应该支持相对误差", () => {
+    expect(NumericEquality.equals(1000, 1001, { relativeTolerance: 0.01 })).toBe(true);
+    expect(NumericEquality.equals(1, 1.1, { relativeTolerance: 0.01 })).toBe(false);
+  });
+
+  it("严格整数模式下整数与非整数总是不相等", () => {
+    const options = { absoluteTolerance: 0.1, strictInteger: true };
+
+    expect(NumericEquality.equals(1, 1.01, options)).toBe(false);
+    expect(NumericEquality.equals(1.01, 1.02, options)).toBe(true);
+  });
+
+  it("无穷大只与自身相等", () => {
+    const options = { relativeTolerance: 1 };
+
+    expect(NumericEquality.equals(Infinity, Infinity, options)).toBe(true);
+    expect(NumericEquality.equals(Infinity, 1e308, options)).toBe(false);
+  });
+});
+
+describe("DiffEngine 数值选项", () => {
+  it("修改的数值节点应该带有变化量", () => {
+    const result = diff({ price: 10 }, { price: 12.5 });
+
+    expect(result.root.children![0]).toMatchObject({ type: DiffType.MODIFIED, delta: 2.5 });
+  });
+
+  it("误差范围内的数值应该标记为未改变", () => {
+    const result = diff(
+      { ratio: 0.30000000000000004, list: [0.1, 0.2] },
+      { ratio: 0.3, list: [0.1000001, 0.2] },
+      { numeric: { absoluteTolerance: 1e-6 } },
+    );
+
+    expect(result.root.type).toBe(DiffType.UNCHANGED);
+  });
+
+  it("NaN 叶子节点默认不应该标记为修改", () => {
+    const result = diff({ value: NaN }, { value: NaN });
+
+    expect(result.root.type).toBe(DiffType.UNCHANGED);
+    expect(diff({ value: NaN }, { value: NaN }, { numeric: { nanEqual: false } }).root.type).toBe(
+      DiffType.MODIFIED,
+    );
+  });
+
+  it("数组应该按数值误差对齐元素", () => {
+    const ops = LCSArrayDiff.diff([1.0000001, 2, 3], [0, 1, 2, 3], {
+      numeric: { absoluteTolerance: 1e-3 },
+    });
+
+    expect(ops.map((op) => op.type)).toEqual(["add", "keep", "keep", "keep"]);
+  });
+
+  it("isEqual 应该使用数值选项", () => {
+    expect(LCSArrayDiff.isEqual([0], [-0])).toBe(true);
+    expect(LCSArrayDiff.isEqual([0], [-0], { numeric: { signedZero: true } })).toBe(false);
+    expect(LCSArrayDiff.isEqual({ a: NaN }, { a: NaN })).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import { PathFilter } from "../pathfilter";
+import { LCSArrayDiff } from "../lcs";
+import { diff } from "../diff";
+import { applyDiff } from "../apply";
+import { toJsonPatch } from "../jsonpatch";
+import { DiffType } from "../types";
+
+/**
+ * 路径忽略 / 包含规则单元测试
+ */
+
+describe("PathFilter", () => {
+  it("没有规则时应该包含所有路径", () => {
+    const filter = new PathFilter();
+
+    expect(filter.isEmpty).toBe(true);
+    expect(filter.resolve(["a", "b"])).toBe("include");
+  });
+
+  it("忽略规则应该优先于包含规则", () => {
+    const filter = new PathFilter(["$.user.password"], ["$.user"]);
+
+    expect(filter.resolve(["user", "name"])).toBe("include");
+    expect(filter.resolve(["user", "password"])).toBe("exclude");
+  });
+
+  it("包含规则应该区分被覆盖、部分包含和排除的路径", () => {
+    const filter = new PathFilter([], ["$.items[*].price"]);
+
+    expect(filter.resolve([])).toBe("partial");
+    expect(filter.resolve(["items", "0"])).toBe("partial");
+    expect(filter.resolve(["items", "0", "price"])).toBe("include");
+    expect(filter.resolve(["items", "0", "name"])).toBe("exclude");
+    expect(filter.resolve(["meta"])).toBe("exclude");
+  });
+
+  it("部分包含的叶子值应该被忽略", () => {
+    const filter = new PathFilter([], ["**.createdAt"]);
+
+    expect(filter.excludes(["a"], 1)).toBe(true);
+    expect(filter.excludes(["a"], { createdAt: 1 })).toBe(false);
+    expect(filter.excludes(["a", "createdAt"], 1)).toBe(false);
+  });
+});
+
+describe("DiffEngine 路径规则", () => {
+  const oldValue = {
+    meta: { updatedAt: 1, etag: "a" },
+    items: [
+      { id: 1, updatedAt: 1, etag: "x" },
+      { id: 2, updatedAt: 1, etag: "y" },
+    ],
+  };
+  const newValue = {
+    meta: { updatedAt: 2, etag: "b" },
+    items: [
+      { id: 1, updatedAt: 2, etag: "z" },
+      { id: 2, updatedAt: 1, etag: "w" },
+    ],
+  };
+
+  it("应该只忽略匹配路径上的键", () => {
+    const result = diff(oldValue, newValue, {
+      ignorePaths: ["$.meta.updatedAt", "$.items[*].etag", "$..debug"],
+    });
+    const [meta, items] = result.root.children!;
+
+    expect(meta.children!.map((c) => c.path[1])).toEqual(["etag"]);
+    expect(items.children![0].children!.map((c) => c.path[2])).toEqual(["id", "updatedAt"]);
+    expect(items.children![0].children![1].type).toBe(DiffType.MODIFIED);
+    expect(items.children![1].type).toBe(DiffType.UNCHANGED);
+  });
+
+  it("mark 模式应该输出 IGNORED 节点并计入统计", () => {
+    const result = diff(oldValue, newValue, {
+      ignorePaths: ["**.updatedAt", "**.etag"],
+      ignoreMode: "mark",
+    });
+    const meta = result.root.children![0];
+
+    expect(result.root.type).toBe(DiffType.UNCHANGED);
+    expect(meta.children!.map((c) => c.type)).toEqual([DiffType.IGNORED, DiffType.IGNORED]);
+    expect(meta.children![0]).toMatchObject({ oldValue: 1, newValue: 2 });
+    expect(result.stats.ignored).toBe(6);
+  });
+
+  it("被忽略的新增键只带有新值", () => {
+    const result = diff({}, { debug: true }, { ignorePaths: ["$..debug"], ignoreMode: "mark" });
+    const node = result.root.children![0];
+
+    expect(node.type).toBe(DiffType.IGNORED);
+    expect(node).not.toHaveProperty("oldValue");
+    expect(node.newValue).toBe(true);
+  });
+
+  it("包含规则应该只比较匹配的路径", () => {
+    const result = diff(oldValue, newValue, { includePaths: ["$.items[*].updatedAt"] });
+    const items = result.root.children!;
+
+    expect(items.map((c) => c.path)).toEqual([["items"]]);
+    expect(items[0].children!.map((c) => c.children!.map((d) => d.path[2]))).toEqual([
+      ["updatedAt"],
+      ["updatedAt"],
+    ]);
+    expect(result.stats.modified).toBe(4);
+  });
+
+  it("数组对齐应该忽略被过滤的字段", () => {
+    const ops = LCSArrayDiff.diff(
+      [{ id: 1, etag: "a" }],
+      [
+        { id: 0, etag: "b" },
+        { id: 1, etag: "c" },
+      ],
+      { filter: new PathFilter(["$[*].etag"]) },
+    );
+
+    expect(ops.map((op) => op.type)).toEqual(["add", "keep"]);
+  });
+
+  it("被忽略的数组元素总是标记为 IGNORED", () => {
+    const result = diff([1, 2, 3], [1, 5, 3], { ignorePaths: ["$[1]"] });
+
+    expect(result.root.type).toBe(DiffType.UNCHANGED);
+    expect(result.root.children![1]).toMatchObject({ type: DiffType.IGNORED, oldValue: 2 });
+  });
+
+  it("应用补丁时应该保留被忽略路径的基准值", () => {
+    const old = { a: 1, secret: "x", list: [1, 2] };
+    const next = { a: 2, secret: "y", list: [1, 3] };
+    const result = diff(old, next, { ignorePaths: ["$.secret", "$.list[1]"], ignoreMode: "mark" });
+
+    expect(applyDiff(old, result, { strict: true })).toEqual({ a: 2, secret: "x", list: [1, 2] });
+    expect(toJsonPatch(result)).toEqual([{ op: "replace", path: "/a", value: 2 }]);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { PathPattern } from "../pathpattern";
+
+/**
+ * 路径模式单元测试
+ */
+
+describe("PathPattern", () => {
+  describe("parse", () => {
+    it("应该解析点号和方括号语法", () => {
+      expect(PathPattern.parse("$.user.name")).toEqual([
+        { type: "key", value: "user" },
+        { type: "key", value: "name" },
+      ]);
+      expect(PathPattern.parse("items[0][\"a.b\"]['c']")).toEqual([
+        { type: "key", value: "items" },
+        { type: "key", value: "0" },
+        { type: "key", value: "a.b" },
+        { type: "key", value: "c" },
+      ]);
+    });
+
+    it("应该解析通配符和递归下降", () => {
+      expect(PathPattern.parse("$.items[*].etag")).toEqual([
+        { type: "key", value: "items" },
+        { type: "wildcard" },
+        { type: "key", value: "etag" },
+      ]);
+      expect(PathPattern.parse("$..debug")).toEqual([
+        { type: "descent" },
+        { type: "key", value: "debug" },
+      ]);
+      expect(PathPattern.parse("**.createdAt")).toEqual([
+        { type: "descent" },
+        { type: "key", value: "createdAt" },
+      ]);
+    });
+
+    it("应该拒绝无效的方括号片段", () => {
+      expect(() => PathPattern.parse("items[abc]")).toThrow();
+      expect(() => PathPattern.parse("items[0")).toThrow();
+    });
+  });
+
+  describe("matches", () => {
+    it("应该完全匹配精确路径", () => {
+      expect(PathPattern.matches("$.meta.updatedAt", ["meta", "updatedAt"])).toBe(true);
+      expect(PathPattern.matches("$.meta.updatedAt", ["items", "3", "updatedAt"])).toBe(false);
+      expect(PathPattern.matches("$.meta", ["meta", "updatedAt"])).toBe(false);
+      expect(PathPattern.matches("$", [])).toBe(true);
+    });
+
+    it("通配符应该只匹配一个片段", () => {
+      const pattern = PathPattern.compile("$.items[*].etag");
+
+      expect(pattern.matches(["items", "0", "etag"])).toBe(true);
+      expect(pattern.matches(["items", "12", "etag"])).toBe(true);
+      expect(pattern.matches(["items", "etag"])).toBe(false);
+      expect(pattern.matches(["items", "0", "x", "etag"])).toBe(false);
+    });
+
+    it("递归下降应该匹配任意深度", () => {
+      const pattern = PathPattern.compile("$..debug");
+
+      expect(pattern.matches(["debug"])).toBe(true);
+      expect(pattern.matches(["a", "b", "debug"])).toBe(true);
+      expect(pattern.matches(["a", "debug", "b"])).toBe(false);
+      expect(PathPattern.matches("**.createdAt", ["x", "0", "createdAt"])).toBe(true);
+      expect(PathPattern.matches("a.**", ["a"])).toBe(true);
+      expect(PathPattern.matches("a.**", ["a", "b", "c"])).toBe(true);
+    });
+  });
+
+  describe("relation", () => {
+    it("路径或其祖先匹配时应该返回 covered", () => {
+      const pattern = PathPattern.compile("$.user.profile");
+
+      expect(pattern.relation(["user", "profile"])).toBe("covered");
+      expect(pattern.relation(["user", "profile", "name"])).toBe("covered");
+      expect(PathPattern.compile("$").relation([])).toBe("covered");
+    });
+
+    it("后代可能匹配时应该返回 partial", () => {
+      expect(PathPattern.compile("$.user.profile").relation(["user"])).toBe("partial");
+      expect(PathPattern.compile("$.items[*].id").relation(["items", "3"])).toBe("partial");
+      expect(PathPattern.compile("**.createdAt").relation(["a", "b"])).toBe("partial");
+    });
+
+    it("不可能匹配时应该返回 none", () => {
+      expect(PathPattern.compile("$.user.profile").relation(["meta"])).toBe("none");
+      expect(PathPattern.compile("$.items[*].id").relation(["items", "0", "name"])).toBe("none");
+    });
+  });
+
+  describe("advance", () => {
+    it("逐个片段推进的结果应该与 matches 一致", () => {
+      const pattern = PathPattern.compile("$..items[*].id");
+      const path = ["a", "items", "0", "id"];
+
+      let states = pattern.initialStates();
+      for (const segment of path) {
+        states = pattern.advance(states, segment);
+      }
+
+      expect(states[pattern.tokens.length]).toBe(pattern.matches(path));
+      expect(pattern.advance(pattern.initialStates(), "a").includes(true)).toBe(true);
+      const exact = PathPattern.compile("$.x");
+      expect(exact.advance(exact.initialStates(), "y").includes(true)).toBe(false);
+    });
+  });
+
+  describe("fromPath", () => {
+    it("应该只匹配给定的路径，特殊字符按原样匹配", () => {
+      const path = ['a.b["c"]', "*", "..", "x\\y", "0"];
+      const pattern = PathPattern.fromPath(path);
+
+      expect(pattern.tokens).toEqual(path.map((value) => ({ type: "key", value })));
+      expect(pattern.matches(path)).toBe(true);
+      expect(pattern.matches(['a.b["c"]', "other", "..", "x\\y", "0"])).toBe(false);
+      expect(PathPattern.fromPath([]).matches([])).toBe(true);
+    });
+  });
+});
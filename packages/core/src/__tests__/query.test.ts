@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { diff } from "../diff";
+import { DiffIndex, changesUnder, query, select } from "../query";
+import { DiffResultBuilder } from "../result";
+import { DiffType, ValueType } from "../types";
+
+/**
+ * Diff 结果查询单元测试
+ */
+
+const result = diff(
+  {
+    users: [
+      { name: "Alice", email: "alice@old.com" },
+      { name: "Bob", email: "bob@example.com" },
+    ],
+    config: { theme: "dark", flags: { beta: false } },
+    version: 1,
+  },
+  {
+    users: [
+      { name: "Alice", email: "alice@new.com" },
+      { name: "Bob", email: "bob@example.com" },
+      { name: "Carol", email: "carol@example.com" },
+    ],
+    config: { theme: "dark", flags: { beta: true, next: true } },
+    version: 1,
+  },
+);
+
+const pathsOf = (nodes: { path: string[] }[]) => nodes.map((node) => node.path.join("."));
+
+describe("query", () => {
+  it("应该查询与路径模式匹配的节点", () => {
+    expect(pathsOf(query(result, "$.users[*].email"))).toEqual(["users.0.email", "users.1.email"]);
+    expect(query(result, "$.users[0].email")[0].type).toBe(DiffType.MODIFIED);
+  });
+
+  it("应该支持递归下降", () => {
+    expect(pathsOf(query(result, "$..beta"))).toEqual(["config.flags.beta"]);
+    expect(pathsOf(query(result, "**.name"))).toEqual(["users.0.name", "users.1.name"]);
+  });
+
+  it("应该匹配根节点", () => {
+    expect(query(result, "$")).toEqual([result.root]);
+  });
+
+  it("不匹配时应该返回空数组", () => {
+    expect(query(result, "$.missing.key")).toEqual([]);
+  });
+});
+
+describe("changesUnder", () => {
+  it("应该返回子树中发生变化的节点", () => {
+    expect(pathsOf(changesUnder(result, "$.config"))).toEqual([
+      "config",
+      "config.flags",
+      "config.flags.beta",
+      "config.flags.next",
+    ]);
+  });
+
+  it("重叠的匹配不应该产生重复节点", () => {
+    const nodes = changesUnder(result, "$..*");
+
+    expect(new Set(nodes).size).toBe(nodes.length);
+    expect(nodes).toHaveLength(
+      DiffResultBuilder.filterNodes(
+        result.root,
+        (node) => node !== result.root && node.type !== DiffType.UNCHANGED,
+      ).length,
+    );
+  });
+});
+
+describe("select", () => {
+  it("应该按类型、值类型与深度选择节点", () => {
+    expect(pathsOf(select(result, { type: ["added", "deleted"] }))).toEqual([
+      "users.2",
+      "config.flags.next",
+    ]);
+    expect(
+      pathsOf(select(result, { type: "modified", valueType: "object", depth: { max: 1 } })),
+    ).toEqual(["", "config"]);
+    expect(pathsOf(select(result, { valueType: ValueType.PRIMITIVE, depth: 1 }))).toEqual([
+      "version",
+    ]);
+  });
+
+  it("应该支持按路径模式限定范围", () => {
+    expect(pathsOf(select(result, { path: "$.users[*]", type: DiffType.UNCHANGED }))).toEqual([
+      "users.1",
+    ]);
+  });
+});
+
+describe("DiffIndex", () => {
+  it("每个结果只构建一次索引", () => {
+    expect(DiffIndex.of(result)).toBe(DiffIndex.of(result));
+    expect(DiffIndex.of(result).nodes).toHaveLength(DiffResultBuilder.countNodes(result.root));
+  });
+
+  it("应该按精确路径查找节点", () => {
+    const index = DiffIndex.of(result);
+
+    expect(index.get(["config", "flags", "beta"])).toBe(
+      DiffResultBuilder.findNodeByPath(result.root, ["config", "flags", "beta"]),
+    );
+    expect(index.get([])).toBe(result.root);
+    expect(index.get(["config", "nope"])).toBeUndefined();
+  });
+
+  it("路径片段可以包含模式语法中的特殊字符", () => {
+    const special = diff({ 'a.b["c"]': { "*": 1 } }, { 'a.b["c"]': { "*": 2 } });
+
+    expect(DiffIndex.of(special).get(['a.b["c"]', "*"])!.newValue).toBe(2);
+  });
+
+  it("被删除的元素与同一下标的元素应该都能被找到", () => {
+    const arrays = diff(
+      { list: [1, { a: 1 }] },
+      { list: [{ a: 2 }] },
+      { arrayDiffMode: "position" },
+    );
+    const index = DiffIndex.of(arrays);
+
+    expect(index.get(["list", "0", "a"])).toBeUndefined();
+    expect(pathsOf(query(arrays, "$.list[*]"))).toEqual(["list.0", "list.1"]);
+  });
+});
@@ -27,6 +27,9 @@ describe("Diff Result Builder Property Tests", () => {
           deleted: 0,
           modified: 0,
           unchanged: 0,
+          moved: 0,
+          ignored: 0,
+          typeChanged: 0,
         };
 
         const countNodes = (node: DiffNode) => {
@@ -44,6 +47,15 @@ describe("Diff Result Builder Property Tests", () => {
             case DiffType.UNCHANGED:
               manualStats.unchanged++;
               break;
+            case DiffType.MOVED:
+              manualStats.moved++;
+              break;
+            case DiffType.IGNORED:
+              manualStats.ignored++;
+              break;
+          }
+          if (node.newValueType !== undefined) {
+            manualStats.typeChanged++;
           }
 
           // 递归统计子节点
@@ -61,6 +73,9 @@ describe("Diff Result Builder Property Tests", () => {
         expect(result.stats.deleted).toBe(manualStats.deleted);
         expect(result.stats.modified).toBe(manualStats.modified);
         expect(result.stats.unchanged).toBe(manualStats.unchanged);
+        expect(result.stats.moved).toBe(manualStats.moved);
+        expect(result.stats.ignored).toBe(manualStats.ignored);
+        expect(result.stats.typeChanged).toBe(manualStats.typeChanged);
 
         // 使用 DiffResultBuilder 重新计算统计信息，应该得到相同结果
         const recomputedStats = DiffResultBuilder.computeStats(result.root);
@@ -68,13 +83,16 @@ describe("Diff Result Builder Property Tests", () => {
         expect(recomputedStats.deleted).toBe(result.stats.deleted);
         expect(recomputedStats.modified).toBe(result.stats.modified);
         expect(recomputedStats.unchanged).toBe(result.stats.unchanged);
+        expect(recomputedStats.moved).toBe(result.stats.moved);
+        expect(recomputedStats.typeChanged).toBe(result.stats.typeChanged);
 
         // 验证总节点数等于各类型之和
         const totalNodes =
           result.stats.added +
           result.stats.deleted +
           result.stats.modified +
-          result.stats.unchanged;
+          result.stats.unchanged +
+          result.stats.moved;
         const actualTotalNodes = DiffResultBuilder.countNodes(result.root);
         expect(totalNodes).toBe(actualTotalNodes);
 
@@ -178,6 +196,33 @@ describe("Diff Result Builder Property Tests", () => {
     );
   });
 
+  /**
+   * 补充测试：叶子与容器的计数之和等于按节点的计数，
+   * 按值类型与按顶层键的计数之和等于叶子的计数
+   */
+  it("Property 6 (补充): 叶子与容器的统计信息一致", () => {
+    const types = Object.values(DiffType);
+    const sum = (groups: Array<Record<DiffType, number>>, type: DiffType) =>
+      groups.reduce((total, counts) => total + counts[type], 0);
+
+    fc.assert(
+      fc.property(fc.object({ maxDepth: 3 }), fc.object({ maxDepth: 3 }), (oldValue, newValue) => {
+        const { root, stats } = diff(oldValue, newValue);
+
+        for (const type of types) {
+          expect(stats.leaves![type] + stats.containers![type]).toBe(stats[type]);
+          expect(sum(Object.values(stats.byValueType!), type)).toBe(stats.leaves![type]);
+          // 根节点是对象，所有叶子都位于某个顶层键下
+          expect(sum(Object.values(stats.byTopLevelKey!), type)).toBe(stats.leaves![type]);
+        }
+        expect(stats.maxChangeDepth).toBeLessThanOrEqual(DiffResultBuilder.getMaxDepth(root));
+
+        return true;
+      }),
+      { numRuns: 100 },
+    );
+  });
+
   /**
    * Property 7: Diff 结果可序列化
    * Validates: Requirements 3.7
@@ -0,0 +1,76 @@
+import { describe, it } from "vitest";
+import fc from "fast-check";
+import { SequenceMatcher } from "../sequence";
+import { LCSArrayDiff } from "../lcs";
+
+/**
+ * 序列匹配算法属性测试
+ * Feature: json-visual-diff
+ */
+describe("序列匹配算法 - 属性测试", () => {
+  const seqArb = fc.array(fc.integer({ min: 0, max: 6 }), { maxLength: 40 });
+
+  /**
+   * Property: 匹配对有效性
+   * 对于任意两个序列，所有算法的匹配对都应该严格递增且对应元素相等
+   */
+  it("Property: 所有算法都应该生成有效的公共子序列", () => {
+    fc.assert(
+      fc.property(seqArb, seqArb, fc.constantFrom("myers", "patience", "lcs"), (a, b, algo) => {
+        const matches = SequenceMatcher[algo as "myers" | "patience" | "lcs"](a, b);
+        let lastOld = -1;
+        let lastNew = -1;
+        for (const { oldIndex, newIndex } of matches) {
+          if (oldIndex <= lastOld || newIndex <= lastNew) return false;
+          if (a[oldIndex] !== b[newIndex]) return false;
+          lastOld = oldIndex;
+          lastNew = newIndex;
+        }
+        return true;
+      }),
+      { numRuns: 300 },
+    );
+  });
+
+  /**
+   * Property: 最优性
+   * Myers 与 LCS 算法的匹配数应该等于最长公共子序列的长度
+   */
+  it("Property: myers 与 lcs 应该找到最长公共子序列", () => {
+    fc.assert(
+      fc.property(seqArb, seqArb, (a, b) => {
+        const dp = LCSArrayDiff.computeLCS(a, b);
+        const length = dp[a.length][b.length];
+        return (
+          SequenceMatcher.myers(a, b).length === length &&
+          SequenceMatcher.lcs(a, b).length === length
+        );
+      }),
+      { numRuns: 300 },
+    );
+  });
+
+  /**
+   * Property: 算法之间的 diff 等价性
+   * 不同算法生成的操作序列都应该能将旧数组转换为新数组
+   */
+  it("Property: 各算法的操作序列都应该能重建新数组", () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.jsonValue({ maxDepth: 2 }), { maxLength: 15 }),
+        fc.array(fc.jsonValue({ maxDepth: 2 }), { maxLength: 15 }),
+        fc.constantFrom("myers", "patience", "lcs"),
+        (arr1, arr2, algorithm) => {
+          const ops = LCSArrayDiff.diff(arr1, arr2, {
+            algorithm: algorithm as "myers" | "patience" | "lcs",
+          });
+          const rebuilt = ops
+            .filter((op) => op.type !== "delete")
+            .map((op) => (op.type === "keep" ? op.value : (op.newValue ?? op.value)));
+          return LCSArrayDiff.isEqual(rebuilt, arr2);
+        },
+      ),
+      { numRuns: 200 },
+    );
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from "vitest";
+import { SequenceMatcher, SequenceMatch } from "../sequence";
+import { LCSArrayDiff } from "../lcs";
+import { diff } from "../diff";
+import { DiffType } from "../types";
+
+const algorithms = ["myers", "patience", "lcs"] as const;
+
+/**
+ * 校验匹配对严格递增且对应元素相等
+ */
+function expectValidMatches(a: number[], b: number[], matches: SequenceMatch[]) {
+  let lastOld = -1;
+  let lastNew = -1;
+  for (const { oldIndex, newIndex } of matches) {
+    expect(oldIndex).toBeGreaterThan(lastOld);
+    expect(newIndex).toBeGreaterThan(lastNew);
+    expect(a[oldIndex]).toBe(b[newIndex]);
+    lastOld = oldIndex;
+    lastNew = newIndex;
+  }
+}
+
+/**
+ * 多次运行取最短耗时（毫秒）
+ */
+function measure(fn: () => void, runs = 3): number {
+  let best = Infinity;
+  for (let i = 0; i < runs; i++) {
+    const start = performance.now();
+    fn();
+    best = Math.min(best, performance.now() - start);
+  }
+  return best;
+}
+
+/**
+ * 生成长度为 n、在 changes 个分散位置发生修改的一对数组
+ */
+function mostlyEqual(n: number, changes: number): [number[], number[]] {
+  const oldArr = Array.from({ length: n }, (_, i) => i);
+  const newArr = [...oldArr];
+  const step = Math.floor(n / (changes + 1));
+  for (let c = 1; c <= changes; c++) {
+    const at = c * step;
+    if (c % 3 === 0) {
+      newArr.splice(at, 1);
+    } else if (c % 3 === 1) {
+      newArr.splice(at, 0, -c);
+    } else {
+      newArr[at] = -c;
+    }
+  }
+  return [oldArr, newArr];
+}
+
+describe("序列匹配算法", () => {
+  describe.each(algorithms)("%s", (algorithm) => {
+    it("应该处理空序列", () => {
+      expect(SequenceMatcher[algorithm]([], [])).toEqual([]);
+      expect(SequenceMatcher[algorithm]([], [1, 2])).toEqual([]);
+      expect(SequenceMatcher[algorithm]([1, 2], [])).toEqual([]);
+    });
+
+    it("相同序列应该全部匹配", () => {
+      const a = [1, 2, 3, 4];
+      const matches = SequenceMatcher[algorithm](a, a);
+
+      expect(matches).toHaveLength(4);
+      expectValidMatches(a, a, matches);
+    });
+
+    it("应该找到最长公共子序列", () => {
+      const a = [1, 2, 3, 4, 5, 6];
+      const b = [2, 9, 3, 5, 7, 6];
+      const matches = SequenceMatcher[algorithm](a, b);
+
+      expectValidMatches(a, b, matches);
+      expect(matches.map((m) => a[m.oldIndex])).toEqual([2, 3, 5, 6]);
+    });
+
+    it("没有公共元素时不应该匹配", () => {
+      expect(SequenceMatcher[algorithm]([1, 2, 3], [4, 5, 6])).toEqual([]);
+    });
+  });
+
+  it("patience 应该优先以唯一元素为锚点", () => {
+    // 唯一元素 2 作为锚点，而不是重复出现的 0
+    const a = [0, 0, 2, 0];
+    const b = [2, 0, 0, 0];
+    const matches = SequenceMatcher.patience(a, b);
+
+    expectValidMatches(a, b, matches);
+    expect(matches[0]).toEqual({ oldIndex: 2, newIndex: 0 });
+  });
+
+  it("myers 的匹配数应该等于 LCS 长度", () => {
+    const a = [3, 1, 4, 1, 5, 9, 2, 6, 5, 3, 5];
+    const b = [2, 7, 1, 8, 2, 8, 1, 8, 2, 8, 4, 5, 9];
+    const dp = LCSArrayDiff.computeLCS(a, b);
+
+    expect(SequenceMatcher.myers(a, b)).toHaveLength(dp[a.length][b.length]);
+  });
+});
+
+describe("元素哈希", () => {
+  it("相等的值应该具有相同的哈希", () => {
+    expect(LCSArrayDiff.hash({ a: 1, b: [1, 2] })).toBe(LCSArrayDiff.hash({ b: [1, 2], a: 1 }));
+    expect(LCSArrayDiff.hash(new Date("2024-01-01"))).toBe(
+      LCSArrayDiff.hash(new Date("2024-01-01")),
+    );
+    expect(LCSArrayDiff.hash(0)).toBe(LCSArrayDiff.hash(-0));
+  });
+
+  it("应该区分不同类型的值", () => {
+    expect(LCSArrayDiff.hash(1)).not.toBe(LCSArrayDiff.hash("1"));
+    expect(LCSArrayDiff.hash(null)).not.toBe(LCSArrayDiff.hash(undefined));
+  });
+
+  it("应该处理循环引用", () => {
+    const obj: any = { a: 1 };
+    obj.self = obj;
+
+    expect(() => LCSArrayDiff.hash(obj)).not.toThrow();
+  });
+
+  it("toIds 应该为相等的元素分配相同的 id", () => {
+    const [ids1, ids2] = LCSArrayDiff.toIds([{ a: 1 }, 2, "x"], ["x", { a: 1 }, 3]);
+
+    expect(ids1[0]).toBe(ids2[1]);
+    expect(ids1[2]).toBe(ids2[0]);
+    expect(ids2[2]).not.toBe(ids1[1]);
+  });
+});
+
+describe("大数组性能", () => {
+  it.each(algorithms)("%s 应该能处理 20000 个元素的数组", (algorithm) => {
+    const [oldArr, newArr] = mostlyEqual(20000, 30);
+    const ops = LCSArrayDiff.diff(oldArr, newArr, { algorithm });
+
+    expect(ops.filter((op) => op.type === "keep").length).toBeGreaterThan(19900);
+  });
+
+  it("完全不同的大数组不应该耗尽内存或调用栈", () => {
+    const oldArr = Array.from({ length: 20000 }, (_, i) => i);
+    const newArr = Array.from({ length: 20000 }, (_, i) => -i - 1);
+    const ops = LCSArrayDiff.diff(oldArr, newArr);
+
+    expect(ops).toHaveLength(40000);
+  });
+
+  it("大部分元素相同时耗时应该接近线性增长", () => {
+    const [small1, small2] = mostlyEqual(10000, 20);
+    const [large1, large2] = mostlyEqual(40000, 20);
+
+    // 预热
+    LCSArrayDiff.diff(small1, small2, { algorithm: "myers" });
+
+    const smallTime = measure(() => LCSArrayDiff.diff(small1, small2, { algorithm: "myers" }));
+    const largeTime = measure(() => LCSArrayDiff.diff(large1, large2, { algorithm: "myers" }));
+
+    // 规模扩大 4 倍，线性算法约为 4 倍，平方算法约为 16 倍
+    expect(largeTime / Math.max(smallTime, 1)).toBeLessThan(10);
+  });
+
+  it("DiffEngine 应该能比较 20000 个对象元素的数组", () => {
+    const oldArr = Array.from({ length: 20000 }, (_, i) => ({ id: i, value: i }));
+    const newArr = oldArr.map((item) => (item.id % 5000 === 0 ? { ...item, value: -1 } : item));
+    const result = diff(oldArr, newArr, { arrayDiffMode: "myers" });
+
+    expect(result.root.type).toBe(DiffType.MODIFIED);
+    expect(result.root.children!.filter((c) => c.type === DiffType.MODIFIED)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { diff } from "../diff";
+import { summarize } from "../summary";
+
+/**
+ * 变化摘要单元测试
+ */
+
+const oldDoc = {
+  status: "draft",
+  user: { address: { city: "NYC", street: "1st Ave", zip: "10001" }, name: "Alice" },
+  tags: ["a"],
+};
+const newDoc = {
+  status: "published",
+  user: { address: { city: "LA", street: "Main St", zip: "90001" }, name: "Alice" },
+  tags: ["a", "b", "c"],
+};
+
+describe("summarize", () => {
+  it("应该按父路径分组生成英文摘要", () => {
+    const summary = summarize(diff(oldDoc, newDoc));
+
+    expect(summary.text).toBe(
+      "`status` changed from `draft` to `published`; " +
+        "3 fields changed in `user.address`; " +
+        "2 items added to `tags`.",
+    );
+    expect(summary.total).toBe(6);
+    expect(summary.omitted).toBe(0);
+  });
+
+  it("应该生成简体中文摘要", () => {
+    const summary = summarize(diff(oldDoc, newDoc), { locale: "zh-CN" });
+
+    expect(summary.text).toBe(
+      "`status` 从 `draft` 改为 `published`；" +
+        "`user.address` 中修改了 3 个字段；" +
+        "`tags` 中新增了 2 项。",
+    );
+  });
+
+  it("应该返回结构化的句子", () => {
+    const { sentences } = summarize(diff(oldDoc, newDoc));
+
+    expect(sentences.map((s) => [s.path, s.kinds, s.nodes.length])).toEqual([
+      [["status"], ["modified"], 1],
+      [["user", "address"], ["modified"], 3],
+      [["tags"], ["added"], 2],
+    ]);
+    expect(sentences[2].nodes.map((node) => node.path)).toEqual([
+      ["tags", "1"],
+      ["tags", "2"],
+    ]);
+  });
+
+  it("同一个父路径下的不同变化应该合并为一句", () => {
+    const summary = summarize(diff({ a: 1, b: 2, c: 3 }, { a: 10, b: 20, d: 4 }));
+
+    expect(summary.text).toBe("`root`: 2 fields changed, 1 field added, 1 field removed.");
+    expect(summary.sentences[0].kinds).toEqual(["modified", "added", "deleted"]);
+  });
+
+  it("groupBy 为 none 时每处变化单独成句", () => {
+    const summary = summarize(diff({ a: 1, b: [1] }, { a: 2, b: [1, 2] }), { groupBy: "none" });
+
+    expect(summary.text).toBe("`a` changed from `1` to `2`; `b[1]` added (`2`).");
+  });
+
+  it("应该描述删除与移动", () => {
+    const result = diff(
+      { list: [{ id: 1 }, { id: 2 }], gone: true },
+      { list: [{ id: 2 }, { id: 1 }] },
+      { arrayKey: "id" },
+    );
+
+    expect(summarize(result, { groupBy: "none" }).text).toBe(
+      "`list[1]` moved from index 0 to 1; `gone` removed.",
+    );
+  });
+
+  it("超过 maxItems 的变化应该合并为一句", () => {
+    const summary = summarize(diff(oldDoc, newDoc), { maxItems: 1 });
+
+    expect(summary.sentences).toHaveLength(1);
+    expect(summary.omitted).toBe(5);
+    expect(summary.text).toBe("`status` changed from `draft` to `published`; and 5 more changes.");
+    expect(summarize(diff(oldDoc, newDoc), { maxItems: 1, locale: "zh-CN" }).text).toBe(
+      "`status` 从 `draft` 改为 `published`；以及另外 5 处变化。",
+    );
+  });
+
+  it("应该截断过长的值", () => {
+    const summary = summarize(diff({ a: { text: "x".repeat(100) } }, { a: [1] }));
+
+    expect(summary.text).toBe(`\`a\` changed from \`{"text":"${"x".repeat(30)}…\` to \`[1]\`.`);
+  });
+
+  it("没有变化时应该返回空摘要", () => {
+    expect(summarize(diff({ a: 1 }, { a: 1 })).text).toBe("No changes.");
+    expect(summarize(diff({ a: 1 }, { a: 1 }), { locale: "zh-CN" }).text).toBe("没有变化。");
+  });
+
+  it("应该拒绝无效的配置", () => {
+    const result = diff(1, 2);
+
+    expect(() => summarize(result, { locale: "fr" as any })).toThrow("Unsupported summary locale");
+    expect(() => summarize(result, { maxItems: 0 })).toThrow("maxItems");
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it } from "vitest";
+import fc from "fast-check";
+import { TextDiff } from "../textdiff";
+
+/**
+ * 字符串内部差异属性测试
+ */
+
+describe("字符串内部差异 - 属性测试", () => {
+  const granularityArb = fc.constantFrom("char", "word", "line") as fc.Arbitrary<
+    "char" | "word" | "line"
+  >;
+  const textArb = fc.string({ unit: fc.constantFrom("a", "b", " ", "\n", ",", "é", "😀") });
+
+  it("片段应该能还原新旧字符串", () => {
+    fc.assert(
+      fc.property(textArb, textArb, granularityArb, (oldText, newText, granularity) => {
+        const segments = TextDiff.diff(oldText, newText, granularity);
+        const oldJoined = segments
+          .filter((s) => s.op !== "insert")
+          .map((s) => s.text)
+          .join("");
+        const newJoined = segments
+          .filter((s) => s.op !== "delete")
+          .map((s) => s.text)
+          .join("");
+
+        return oldJoined === oldText && newJoined === newText;
+      }),
+      { numRuns: 200 },
+    );
+  });
+
+  it("片段应该非空且相邻片段类型不同", () => {
+    fc.assert(
+      fc.property(textArb, textArb, granularityArb, (oldText, newText, granularity) => {
+        const segments = TextDiff.diff(oldText, newText, granularity);
+        return segments.every(
+          (s, i) => s.text.length > 0 && (i === 0 || segments[i - 1].op !== s.op),
+        );
+      }),
+      { numRuns: 200 },
+    );
+  });
+});
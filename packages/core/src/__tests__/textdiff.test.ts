@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { TextDiff } from "../textdiff";
+import { diff, DiffEngine } from "../diff";
+import { DiffResultBuilder } from "../result";
+import { DiffType } from "../types";
+
+/**
+ * 字符串内部差异单元测试
+ */
+
+describe("TextDiff", () => {
+  it("应该按粒度切分字符串", () => {
+    expect(TextDiff.tokenize("héllo", "char")).toEqual(["h", "é", "l", "l", "o"]);
+    expect(TextDiff.tokenize("hello,  world!", "word")).toEqual(["hello", ",", "  ", "world", "!"]);
+    expect(TextDiff.tokenize("a\nb\n\nc", "line")).toEqual(["a\n", "b\n", "\n", "c"]);
+    expect(TextDiff.tokenize("", "word")).toEqual([]);
+  });
+
+  it("应该按单词计算差异", () => {
+    expect(TextDiff.diff("the quick brown fox", "the slow brown fox")).toEqual([
+      { op: "equal", text: "the " },
+      { op: "delete", text: "quick" },
+      { op: "insert", text: "slow" },
+      { op: "equal", text: " brown fox" },
+    ]);
+  });
+
+  it("应该按字符计算差异", () => {
+    expect(TextDiff.diff("color", "colour", "char")).toEqual([
+      { op: "equal", text: "colo" },
+      { op: "insert", text: "u" },
+      { op: "equal", text: "r" },
+    ]);
+  });
+
+  it("应该按行计算差异", () => {
+    expect(TextDiff.diff("a\nb\nc\n", "a\nx\nc\n", "line")).toEqual([
+      { op: "equal", text: "a\n" },
+      { op: "delete", text: "b\n" },
+      { op: "insert", text: "x\n" },
+      { op: "equal", text: "c\n" },
+    ]);
+  });
+
+  it("空字符串应该只产生插入或删除片段", () => {
+    expect(TextDiff.diff("", "abc")).toEqual([{ op: "insert", text: "abc" }]);
+    expect(TextDiff.diff("abc", "")).toEqual([{ op: "delete", text: "abc" }]);
+    expect(TextDiff.diff("", "")).toEqual([]);
+  });
+});
+
+describe("DiffEngine 字符串内部差异", () => {
+  it("默认不计算字符串内部差异", () => {
+    const result = diff({ title: "hello world" }, { title: "hello there" });
+
+    expect(result.root.children![0].textDiff).toBeUndefined();
+  });
+
+  it("开启后修改的字符串节点应该带有内部差异", () => {
+    const result = diff({ title: "hello world" }, { title: "hello there" }, { textDiff: true });
+
+    expect(result.root.children![0]).toMatchObject({
+      type: DiffType.MODIFIED,
+      textDiff: [
+        { op: "equal", text: "hello " },
+        { op: "delete", text: "world" },
+        { op: "insert", text: "there" },
+      ],
+    });
+  });
+
+  it("应该只为达到长度阈值的字符串计算内部差异", () => {
+    const result = diff(
+      { short: "ab", long: "a long sentence" },
+      { short: "ac", long: "a long paragraph" },
+      { textDiff: { granularity: "char", minLength: 10 } },
+    );
+    const [short, long] = result.root.children!;
+
+    expect(short.textDiff).toBeUndefined();
+    expect(long.textDiff).toBeDefined();
+  });
+
+  it("非字符串和未改变的节点不应该带有内部差异", () => {
+    const result = diff({ a: 1, b: "same" }, { a: "1", b: "same" }, { textDiff: true });
+
+    for (const child of result.root.children!) {
+      expect(child.textDiff).toBeUndefined();
+    }
+  });
+
+  it("克隆节点应该复制内部差异", () => {
+    const node = new DiffEngine({ textDiff: true }).diff("abc def", "abc xyz", []);
+    const cloned = DiffResultBuilder.cloneNode(node);
+
+    expect(cloned.textDiff).toEqual(node.textDiff);
+    expect(cloned.textDiff).not.toBe(node.textDiff);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { TransferCodec } from "../transfer";
+import { diff } from "../diff";
+import { DiffType } from "../types";
+
+/**
+ * 跨线程传输编解码单元测试
+ */
+
+describe("TransferCodec", () => {
+  it("编码结果应该可以被结构化克隆", () => {
+    const value = {
+      fn: function greet() {
+        return "hi";
+      },
+      sym: Symbol("tag"),
+      url: new URL("https://example.com/a?b=1"),
+      date: new Date(0),
+      nested: [new Map([["k", () => 1]]), new Set([Symbol.iterator])],
+    };
+
+    expect(() => structuredClone(value)).toThrow();
+    expect(() => structuredClone(TransferCodec.encode(value))).not.toThrow();
+  });
+
+  it("解码后应该还原值的类型与内容", () => {
+    const value = {
+      fn: function greet() {
+        return "hi";
+      },
+      sym: Symbol("tag"),
+      url: new URL("https://example.com/a?b=1"),
+      date: new Date(0),
+      regex: /a+/gi,
+      map: new Map<any, any>([[{ id: 1 }, [1, 2]]]),
+      set: new Set(["x"]),
+    };
+    const decoded = TransferCodec.decode(structuredClone(TransferCodec.encode(value)));
+
+    expect(typeof decoded.fn).toBe("function");
+    expect(decoded.fn.name).toBe("greet");
+    expect(decoded.fn.toString()).toBe(value.fn.toString());
+    expect(() => decoded.fn()).toThrow("cannot be called");
+    expect(decoded.sym.toString()).toBe("Symbol(tag)");
+    expect(decoded.url).toBeInstanceOf(URL);
+    expect(decoded.url.href).toBe(value.url.href);
+    expect(decoded.date).toEqual(value.date);
+    expect(decoded.regex).toEqual(value.regex);
+    expect(decoded.map).toEqual(value.map);
+    expect(decoded.set).toEqual(value.set);
+  });
+
+  it("应该保持共享引用与循环引用", () => {
+    const shared = { a: 1 };
+    const value: any = { left: shared, right: shared };
+    value.self = value;
+    const decoded = TransferCodec.decode(structuredClone(TransferCodec.encode(value)));
+
+    expect(decoded.left).toBe(decoded.right);
+    expect(decoded.self).toBe(decoded);
+  });
+
+  it("应该转义本身带有标记键的对象", () => {
+    const value = { __jsonVisualDiffTransfer__: "function", source: "x" };
+    const decoded = TransferCodec.decode(TransferCodec.encode(value));
+
+    expect(decoded).toEqual(value);
+  });
+
+  it("解码后的值应该得到与原始值相同的 diff 结果", () => {
+    const oldValue = { handler: (x: number) => x + 1, link: new URL("https://a.com") };
+    const newValue = { handler: (x: number) => x + 2, link: new URL("https://a.com") };
+    const decoded = TransferCodec.decode(TransferCodec.encode({ oldValue, newValue }));
+    const result = diff(decoded.oldValue, decoded.newValue);
+
+    expect(result.root.children!.map((c) => c.type)).toEqual([
+      DiffType.MODIFIED,
+      DiffType.UNCHANGED,
+    ]);
+    expect(result.stats).toEqual(diff(oldValue, newValue).stats);
+  });
+
+  it("应该识别结构化克隆错误", () => {
+    let error: unknown;
+    try {
+      structuredClone({ fn: () => 1 });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(TransferCodec.isCloneError(error)).toBe(true);
+    expect(TransferCodec.isCloneError(new Error("other"))).toBe(false);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { TypeRegistry } from "../typeregistry";
+import { diff, DiffEngine } from "../diff";
+import { TypeNormalizer } from "../normalizer";
+import { LCSArrayDiff } from "../lcs";
+import { applyDiff } from "../apply";
+import { DiffType, ValueType } from "../types";
+
+/**
+ * 自定义类型注册表单元测试
+ */
+
+class Decimal {
+  constructor(readonly digits: string) {}
+}
+
+class Point {
+  constructor(
+    readonly x: number,
+    readonly y: number,
+    readonly cache: object = {},
+  ) {}
+}
+
+const decimalHandler = {
+  name: "Decimal",
+  test: (value: any) => value instanceof Decimal,
+  normalize: (value: Decimal) => Number(value.digits),
+  serialize: (value: Decimal) => `Decimal(${value.digits})`,
+};
+
+afterEach(() => {
+  TypeRegistry.clear();
+});
+
+describe("TypeRegistry", () => {
+  it("应该按 test 查找处理器", () => {
+    TypeRegistry.register(decimalHandler);
+
+    expect(TypeRegistry.find(new Decimal("1"))).toBe(decimalHandler);
+    expect(TypeRegistry.find({ digits: "1" })).toBeUndefined();
+    expect(TypeRegistry.get("Decimal")).toBe(decimalHandler);
+  });
+
+  it("同名处理器应该被替换", () => {
+    TypeRegistry.register(decimalHandler);
+    const replacement = { ...decimalHandler, serialize: () => "replaced" };
+    TypeRegistry.register(replacement);
+
+    expect(TypeRegistry.find(new Decimal("1"))).toBe(replacement);
+  });
+
+  it("应该支持注销处理器", () => {
+    DiffEngine.registerType(decimalHandler);
+
+    expect(DiffEngine.unregisterType("Decimal")).toBe(true);
+    expect(DiffEngine.unregisterType("Decimal")).toBe(false);
+    expect(TypeNormalizer.getValueType(new Decimal("1"))).toBe(ValueType.OBJECT);
+  });
+
+  it("名称为空或缺少 test 时应该抛出错误", () => {
+    expect(() => TypeRegistry.register({ name: "", test: () => true })).toThrow(/name/);
+    expect(() => TypeRegistry.register({ name: "X" } as any)).toThrow(/test/);
+  });
+
+  it("注册的类型应该优先于内置类型", () => {
+    TypeRegistry.register({ name: "Stamp", test: (value) => value instanceof Date });
+
+    expect(TypeNormalizer.getValueType(new Date(0))).toBe(ValueType.CUSTOM);
+  });
+});
+
+describe("DiffEngine 自定义类型", () => {
+  it("应该比较 normalize 的结果", () => {
+    DiffEngine.registerType(decimalHandler);
+
+    const same = diff({ price: new Decimal("1.50") }, { price: new Decimal("1.5") });
+    const changed = diff(new Decimal("1.5"), new Decimal("2"));
+
+    expect(same.root.type).toBe(DiffType.UNCHANGED);
+    expect(changed.root.type).toBe(DiffType.MODIFIED);
+    expect(changed.root.valueType).toBe(ValueType.CUSTOM);
+    expect(changed.root.customType).toBe("Decimal");
+    expect(changed.root.children).toBeUndefined();
+  });
+
+  it("应该使用处理器的 diff 并通过 ctx.diff 展开子节点", () => {
+    DiffEngine.registerType<Point>({
+      name: "Point",
+      test: (value) => value instanceof Point,
+      diff: (oldValue, newValue, ctx) =>
+        ctx.diff({ x: oldValue.x, y: oldValue.y }, { x: newValue.x, y: newValue.y }, ctx.path),
+    });
+
+    const result = diff({ p: new Point(1, 2, { a: 1 }) }, { p: new Point(1, 3, { a: 2 }) });
+    const point = result.root.children![0];
+
+    expect(point.type).toBe(DiffType.MODIFIED);
+    expect(point.valueType).toBe(ValueType.CUSTOM);
+    expect(point.customType).toBe("Point");
+    expect(point.children!.map((c) => [c.path, c.type])).toEqual([
+      [["p", "x"], DiffType.UNCHANGED],
+      [["p", "y"], DiffType.MODIFIED],
+    ]);
+  });
+
+  it("没有 normalize 和 diff 时应该按对象的键比较", () => {
+    DiffEngine.registerType({ name: "Point", test: (value) => value instanceof Point });
+
+    const result = diff(new Point(1, 2), new Point(1, 3));
+
+    expect(result.root.customType).toBe("Point");
+    expect(result.root.children!.find((c) => c.path[0] === "y")!.type).toBe(DiffType.MODIFIED);
+  });
+
+  it("自定义类型与其他类型比较时应该标记为修改", () => {
+    DiffEngine.registerType(decimalHandler);
+
+    const result = diff(new Decimal("1"), 1);
+
+    expect(result.root.type).toBe(DiffType.MODIFIED);
+    expect(result.root.customType).toBe("Decimal");
+  });
+
+  it("数组应该按规范化的值对齐元素", () => {
+    DiffEngine.registerType(decimalHandler);
+
+    const result = diff(
+      [new Decimal("1.0"), new Decimal("2.0")],
+      [new Decimal("0"), new Decimal("1"), new Decimal("2")],
+    );
+
+    expect(result.root.children!.map((c) => c.type)).toEqual([
+      DiffType.ADDED,
+      DiffType.UNCHANGED,
+      DiffType.UNCHANGED,
+    ]);
+    expect(LCSArrayDiff.isEqual(new Decimal("1.0"), new Decimal("1"))).toBe(true);
+    expect(LCSArrayDiff.hash(new Decimal("1.0"))).toBe(LCSArrayDiff.hash(new Decimal("1")));
+  });
+
+  it("应该使用处理器的 serialize", () => {
+    DiffEngine.registerType(decimalHandler);
+
+    expect(TypeNormalizer.serialize(new Decimal("3"), ValueType.CUSTOM)).toBe("Decimal(3)");
+    expect(TypeNormalizer.serialize({ a: new Decimal("3") }, ValueType.OBJECT)).toBe(
+      '{"a":"Decimal(3)"}',
+    );
+  });
+
+  it("应用差异时应该整体替换自定义类型的值", () => {
+    DiffEngine.registerType(decimalHandler);
+    const oldValue = { price: new Decimal("1") };
+    const newValue = { price: new Decimal("2") };
+
+    const patched = applyDiff(oldValue, diff(oldValue, newValue));
+
+    expect(patched.price).toBe(newValue.price);
+  });
+});
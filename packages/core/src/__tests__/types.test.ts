@@ -16,11 +16,13 @@ describe("核心类型定义", () => {
       expect(DiffType.DELETED).toBe("deleted");
       expect(DiffType.MODIFIED).toBe("modified");
       expect(DiffType.UNCHANGED).toBe("unchanged");
+      expect(DiffType.MOVED).toBe("moved");
+      expect(DiffType.IGNORED).toBe("ignored");
     });
 
-    it("应该包含 4 个枚举值", () => {
+    it("应该包含 6 个枚举值", () => {
       const values = Object.values(DiffType);
-      expect(values).toHaveLength(4);
+      expect(values).toHaveLength(6);
     });
   });
 
@@ -35,11 +37,19 @@ describe("核心类型定义", () => {
       expect(ValueType.UNDEFINED).toBe("undefined");
       expect(ValueType.NULL).toBe("null");
       expect(ValueType.SYMBOL).toBe("symbol");
+      expect(ValueType.BIGINT).toBe("bigint");
+      expect(ValueType.MAP).toBe("map");
+      expect(ValueType.SET).toBe("set");
+      expect(ValueType.TYPED_ARRAY).toBe("typedarray");
+      expect(ValueType.ERROR).toBe("error");
+      expect(ValueType.URL).toBe("url");
+      expect(ValueType.BOXED).toBe("boxed");
+      expect(ValueType.CUSTOM).toBe("custom");
     });
 
-    it("应该包含 9 个枚举值", () => {
+    it("应该包含 17 个枚举值", () => {
       const values = Object.values(ValueType);
-      expect(values).toHaveLength(9);
+      expect(values).toHaveLength(17);
     });
   });
 
@@ -106,6 +116,9 @@ describe("核心类型定义", () => {
           deleted: 0,
           modified: 2,
           unchanged: 3,
+          moved: 0,
+          ignored: 0,
+          typeChanged: 0,
         },
       };
 
@@ -131,6 +144,9 @@ describe("核心类型定义", () => {
           deleted: 0,
           modified: 0,
           unchanged: 1,
+          moved: 0,
+          ignored: 0,
+          typeChanged: 0,
         },
       };
 
@@ -138,6 +154,9 @@ describe("核心类型定义", () => {
       expect(result.stats).toHaveProperty("deleted");
       expect(result.stats).toHaveProperty("modified");
       expect(result.stats).toHaveProperty("unchanged");
+      expect(result.stats).toHaveProperty("moved");
+      expect(result.stats).toHaveProperty("ignored");
+      expect(result.stats).toHaveProperty("typeChanged");
     });
   });
 
@@ -161,10 +180,14 @@ describe("核心类型定义", () => {
       expect(emptyOptions).toBeDefined();
     });
 
-    it("arrayDiffMode 应该只接受 lcs 或 position", () => {
+    it("arrayDiffMode 应该只接受 myers、patience、lcs 或 position", () => {
+      const myersMode: DiffOptions = { arrayDiffMode: "myers" };
+      const patienceMode: DiffOptions = { arrayDiffMode: "patience" };
       const lcsMode: DiffOptions = { arrayDiffMode: "lcs" };
       const positionMode: DiffOptions = { arrayDiffMode: "position" };
 
+      expect(myersMode.arrayDiffMode).toBe("myers");
+      expect(patienceMode.arrayDiffMode).toBe("patience");
       expect(lcsMode.arrayDiffMode).toBe("lcs");
       expect(positionMode.arrayDiffMode).toBe("position");
     });
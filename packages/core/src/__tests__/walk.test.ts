@@ -0,0 +1,209 @@
+import { describe, it, expect } from "vitest";
+import { diff } from "../diff";
+import { walk, mapTree, pruneTree, pruneUnchanged } from "../walk";
+import { applyDiff } from "../apply";
+import { toJsonPatch } from "../jsonpatch";
+import { DiffResultBuilder } from "../result";
+import { DiffNode, DiffType, ValueType } from "../types";
+
+/**
+ * 遍历与变换单元测试
+ */
+
+const result = diff(
+  { a: { x: 1, y: 2 }, b: [1, 2], c: "same" },
+  { a: { x: 1, y: 3 }, b: [1, 2, 3], c: "same" },
+);
+
+const key = (node: DiffNode) => node.path.join(".") || "$";
+
+describe("walk", () => {
+  it("应该按先序调用 enter、按后序调用 leave", () => {
+    const events: string[] = [];
+    walk(result, {
+      enter: (node) => void events.push(`enter ${key(node)}`),
+      leave: (node) => void events.push(`leave ${key(node)}`),
+    });
+
+    expect(events.filter((e) => e.startsWith("enter"))).toEqual(
+      DiffResultBuilder.filterNodes(result.root, () => true).map((n) => `enter ${key(n)}`),
+    );
+    expect(events.slice(0, 4)).toEqual(["enter $", "enter a", "enter a.x", "leave a.x"]);
+    expect(events[events.length - 1]).toBe("leave $");
+  });
+
+  it("应该提供父节点、下标与深度", () => {
+    const contexts: Array<[string, string | undefined, number, number]> = [];
+    walk(result, {
+      enter: (node, { parent, index, depth }) =>
+        void contexts.push([key(node), parent && key(parent), index, depth]),
+    });
+
+    expect(contexts.slice(0, 4)).toEqual([
+      ["$", undefined, 0, 0],
+      ["a", "$", 0, 1],
+      ["a.x", "a", 0, 2],
+      ["a.y", "a", 1, 2],
+    ]);
+  });
+
+  it("skip 应该跳过子节点但仍然调用 leave", () => {
+    const entered: string[] = [];
+    const left: string[] = [];
+    walk(result, {
+      enter: (node) => {
+        entered.push(key(node));
+        return node.path[0] === "a" ? "skip" : undefined;
+      },
+      leave: (node) => void left.push(key(node)),
+    });
+
+    expect(entered).not.toContain("a.x");
+    expect(left).toContain("a");
+    expect(entered).toContain("b.2");
+  });
+
+  it("stop 应该立即结束遍历", () => {
+    const entered: string[] = [];
+    const left: string[] = [];
+    walk(result, {
+      enter: (node) => {
+        entered.push(key(node));
+        return node.type === DiffType.ADDED ? "stop" : undefined;
+      },
+      leave: (node) => void left.push(key(node)),
+    });
+
+    expect(entered[entered.length - 1]).toBe("b.2");
+    expect(left[left.length - 1]).toBe("b.1");
+    expect(left).not.toContain("b");
+  });
+});
+
+describe("mapTree", () => {
+  it("应该生成新的结果并重新计算统计信息", () => {
+    const mapped = mapTree(result, (node) =>
+      node.type === DiffType.ADDED
+        ? null
+        : { ...node, path: node.path.map((s) => s.toUpperCase()) },
+    );
+
+    expect(mapped.stats.added).toBe(0);
+    expect(mapped.stats).toEqual(DiffResultBuilder.computeStats(mapped.root));
+    expect(mapped.root.children!.map((c) => c.path)).toEqual([["A"], ["B"], ["C"]]);
+    expect(DiffResultBuilder.validateNode(mapped.root)).toBe(true);
+    // 原始结果不被修改
+    expect(result.stats.added).toBe(1);
+    expect(result.root.children![0].path).toEqual(["a"]);
+  });
+
+  it("应该先映射子节点再映射父节点", () => {
+    const order: string[] = [];
+    mapTree(result, (node) => {
+      order.push(key(node));
+      return node;
+    });
+
+    expect(order.indexOf("a.x")).toBeLessThan(order.indexOf("a"));
+    expect(order[order.length - 1]).toBe("$");
+  });
+
+  it("移除数组元素后应该记录 omitted，应用与导出时报错而不是错位", () => {
+    const arrayResult = diff([1, 2, 3], [1, 9, 3]);
+    const mapped = mapTree(arrayResult, (node, { parent }) =>
+      parent?.valueType === ValueType.ARRAY && node.type === DiffType.UNCHANGED ? null : node,
+    );
+
+    expect(mapped.root.omitted).toBe(2);
+    expect(() => toJsonPatch(mapped)).toThrow(/omitted/);
+    expect(() => applyDiff([1, 2, 3], mapped)).toThrow(/omitted/);
+  });
+
+  it("不能移除根节点", () => {
+    expect(() => mapTree(result, () => null)).toThrow("root");
+  });
+});
+
+describe("pruneTree", () => {
+  it("应该移除未改变的分支", () => {
+    const pruned = pruneTree(result, (node) => node.type !== DiffType.UNCHANGED);
+
+    expect(DiffResultBuilder.filterNodes(pruned.root, () => true).map(key)).toEqual([
+      "$",
+      "a",
+      "a.y",
+      "b",
+      "b.2",
+    ]);
+    expect(pruned.stats).toMatchObject({ unchanged: 0, modified: 4, added: 1 });
+    expect(DiffResultBuilder.countNodes(result.root)).toBe(9);
+  });
+
+  it("被移除的子树不应该被访问", () => {
+    const visited: string[] = [];
+    pruneTree(result, (node) => {
+      visited.push(key(node));
+      return node.path[0] !== "a";
+    });
+
+    expect(visited).toContain("a");
+    expect(visited).not.toContain("a.x");
+    expect(visited).not.toContain("$");
+  });
+
+  it("移除数组元素后应该记录 omitted，应用与导出时报错而不是错位", () => {
+    const arrayResult = diff([1, 2, 3], [1, 2, 4]);
+    const pruned = pruneTree(arrayResult, (node) => node.type !== DiffType.UNCHANGED);
+
+    expect(pruned.root.omitted).toBe(2);
+    expect(() => toJsonPatch(pruned)).toThrow(/omitted/);
+    expect(() => applyDiff([1, 2, 3], pruned)).toThrow(/omitted/);
+  });
+
+  it("未移除数组元素时结果仍然可以应用", () => {
+    const arrayResult = diff({ a: [1, 2, 3], b: 1 }, { a: [1, 2, 4], b: 1 });
+    const pruned = pruneTree(arrayResult, (node) => node.path[0] !== "b");
+
+    expect(pruned.root.omitted).toBeUndefined();
+    expect(pruned.root.children![0].omitted).toBeUndefined();
+    expect(applyDiff({ a: [1, 2, 3], b: 1 }, pruned)).toEqual({ a: [1, 2, 4], b: 1 });
+    expect(toJsonPatch(pruned)).toEqual(toJsonPatch(arrayResult));
+  });
+});
+
+describe("pruneUnchanged", () => {
+  it("应该与关闭 includeUnchanged 的比较结果相同", () => {
+    const oldValue = { a: { x: 1, y: 2 }, b: [1, 2, 3, 4], c: "same" };
+    const newValue = { a: { x: 1, y: 3 }, b: [1, 2, 3, 5], c: "same" };
+
+    for (const context of [0, 1, 2]) {
+      const pruned = pruneUnchanged(diff(oldValue, newValue), { context });
+      const direct = diff(oldValue, newValue, {
+        includeUnchanged: false,
+        unchangedContext: context,
+      });
+
+      expect(pruned).toEqual(direct);
+    }
+  });
+
+  it("不应该修改原始结果", () => {
+    const pruned = pruneUnchanged(result);
+
+    expect(DiffResultBuilder.filterNodes(pruned.root, () => true).map(key)).toEqual([
+      "$",
+      "a",
+      "a.y",
+      "b",
+      "b.2",
+    ]);
+    expect(pruned.root.omitted).toBe(1);
+    expect(pruned.root.children![0].omitted).toBe(1);
+    expect(result.root.omitted).toBeUndefined();
+    expect(DiffResultBuilder.countNodes(result.root)).toBe(9);
+  });
+
+  it("context 不是非负整数时应该抛出错误", () => {
+    expect(() => pruneUnchanged(result, { context: -1 })).toThrow(/context/);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createDiffWorker, serveDiffWorker, DiffWorkerLike, DiffWorkerPool } from "../workerpool";
+import { diff } from "../diff";
+import { DiffProgress, DiffType } from "../types";
+
+/**
+ * Worker 池单元测试
+ * 使用 MessageChannel 模拟 Worker：port2 作为 Worker 内的全局作用域，port1 作为主线程持有的 Worker
+ */
+
+let created: DiffWorkerLike[] = [];
+
+const createWorker = (): DiffWorkerLike => {
+  const { port1, port2 } = new MessageChannel();
+  serveDiffWorker(port2);
+  port2.start();
+  port1.start();
+  const worker: DiffWorkerLike = {
+    postMessage: (message) => port1.postMessage(message),
+    addEventListener: (type, listener) => port1.addEventListener(type, listener),
+    terminate: () => {
+      port1.close();
+      port2.close();
+    },
+  };
+  created.push(worker);
+  return worker;
+};
+
+const makeTree = (size: number, seed: number) =>
+  Array.from({ length: size }, (_, i) => ({ id: i, value: (i * seed) % 11, tags: [i, seed] }));
+
+let pool: DiffWorkerPool | undefined;
+
+afterEach(() => {
+  pool?.terminate();
+  pool = undefined;
+  created = [];
+});
+
+describe("DiffWorkerPool", () => {
+  it("应该在 Worker 中计算与同步 diff 相同的结果", async () => {
+    pool = createDiffWorker({ createWorker });
+    const oldValue = { user: { name: "a", joined: new Date(0) }, items: makeTree(50, 3) };
+    const newValue = { user: { name: "b", joined: new Date(0) }, items: makeTree(60, 4) };
+
+    const result = await pool.diff(oldValue, newValue, { arrayKey: "id" });
+
+    expect(result).toEqual(diff(oldValue, newValue, { arrayKey: "id" }));
+  });
+
+  it("无法结构化克隆的输入应该回退到编码传输", async () => {
+    pool = createDiffWorker({ createWorker });
+    const oldValue = { format: (x: number) => x.toFixed(1), label: "a" };
+    const newValue = { format: (x: number) => x.toFixed(2), label: "a" };
+
+    const result = await pool.diff(oldValue, newValue);
+
+    expect(result.root.children!.map((c) => c.type)).toEqual([
+      DiffType.MODIFIED,
+      DiffType.UNCHANGED,
+    ]);
+    expect(result.root.children![0].oldValue.toString()).toBe(oldValue.format.toString());
+  });
+
+  it("应该转发进度", async () => {
+    pool = createDiffWorker({ createWorker });
+    const progress: DiffProgress[] = [];
+
+    await pool.diff(makeTree(100, 3), makeTree(100, 4), {
+      yieldEvery: 50,
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(progress.length).toBeGreaterThan(1);
+    const last = progress[progress.length - 1];
+    expect(last.visited).toBe(last.estimatedTotal);
+  });
+
+  it("应该可以取消请求", async () => {
+    pool = createDiffWorker({ createWorker });
+    const controller = new AbortController();
+    const promise = pool.diff(makeTree(2000, 3), makeTree(2000, 4), {
+      signal: controller.signal,
+      yieldEvery: 10,
+    });
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+    // 取消后 Worker 仍可处理新的请求
+    const result = await pool.diff(1, 2);
+    expect(result.root.type).toBe(DiffType.MODIFIED);
+  });
+
+  it("应该按池大小分配 Worker", async () => {
+    pool = createDiffWorker({ createWorker, poolSize: 2 });
+
+    const results = await Promise.all([
+      pool.diff(makeTree(20, 1), makeTree(20, 2)),
+      pool.diff(makeTree(20, 3), makeTree(20, 4)),
+      pool.diff(makeTree(20, 5), makeTree(20, 6)),
+    ]);
+
+    expect(created).toHaveLength(2);
+    expect(results[2]).toEqual(diff(makeTree(20, 5), makeTree(20, 6)));
+  });
+
+  it("空闲的 Worker 应该被复用", async () => {
+    pool = createDiffWorker({ createWorker, poolSize: 4 });
+
+    await pool.diff(1, 2);
+    await pool.diff(3, 4);
+
+    expect(created).toHaveLength(1);
+  });
+
+  it("Worker 中的错误应该拒绝对应的请求", async () => {
+    pool = createDiffWorker({ createWorker });
+
+    await expect(pool.diff({}, {}, { yieldEvery: -1 })).rejects.toThrow("yieldEvery");
+  });
+
+  it("终止后应该拒绝未完成与新的请求", async () => {
+    pool = createDiffWorker({ createWorker });
+    const pending = pool.diff(makeTree(2000, 3), makeTree(2000, 4), { yieldEvery: 10 });
+    pool.terminate();
+
+    await expect(pending).rejects.toThrow("terminated");
+    await expect(pool.diff(1, 2)).rejects.toThrow("terminated");
+  });
+
+  it("poolSize 必须为正整数", () => {
+    expect(() => createDiffWorker({ createWorker, poolSize: 0 })).toThrow("poolSize");
+  });
+});
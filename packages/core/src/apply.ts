@@ -0,0 +1,407 @@
+import { DiffType, ValueType, DiffNode, DiffResult } from "./types";
+import { LCSArrayDiff } from "./lcs";
+import { DiffResultBuilder } from "./result";
+
+/**
+ * 应用 diff 的配置选项
+ */
+export interface ApplyDiffOptions {
+  strict?: boolean; // 严格模式：基准文档与 diff 记录的值不一致时抛出 DiffApplyError
+}
+
+/**
+ * 应用 diff 时基准文档与 diff 记录不一致的错误
+ */
+export class DiffApplyError extends Error {
+  path: string[]; // 出现不一致的路径
+  expected: any; // diff 中记录的值
+  actual: any; // 基准文档中的实际值
+
+  constructor(message: string, path: string[], expected: any, actual: any) {
+    super(`${message} at path [${path.join(", ")}]`);
+    this.name = "DiffApplyError";
+    this.path = path;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/**
+ * 应用方向：forward 将旧值转换为新值，backward 将新值还原为旧值
+ */
+type ApplyDirection = "forward" | "backward";
+
+/**
+ * 缺失值标记（用于严格模式下区分 "不存在" 与 undefined）
+ */
+const MISSING = Symbol("missing");
+
+/**
+ * Diff 应用器
+ * 遍历 DiffNode 树，将 diff 应用到文档或从文档中撤销
+ * 输入不会被修改，未改变的子树与输入共享引用
+ */
+export class DiffApplier {
+  /**
+   * 将 diff 应用到旧值，得到新值
+   * @param oldValue 旧值
+   * @param node 差异节点
+   * @param options 配置选项
+   * @returns 新值
+   */
+  static apply(oldValue: any, node: DiffNode, options?: ApplyDiffOptions): any {
+    return this.applyNode(oldValue, node, "forward", options?.strict ?? false);
+  }
+
+  /**
+   * 从新值撤销 diff，得到旧值
+   * @param newValue 新值
+   * @param node 差异节点
+   * @param options 配置选项
+   * @returns 旧值
+   */
+  static revert(newValue: any, node: DiffNode, options?: ApplyDiffOptions): any {
+    return this.applyNode(newValue, node, "backward", options?.strict ?? false);
+  }
+
+  /**
+   * 按方向应用单个节点
+   * @param base 基准值
+   * @param node 差异节点
+   * @param direction 应用方向
+   * @param strict 是否严格模式
+   * @returns 应用后的值
+   */
+  private static applyNode(
+    base: any,
+    node: DiffNode,
+    direction: ApplyDirection,
+    strict: boolean,
+  ): any {
+    const type = this.resolveType(node, direction);
+    const from = direction === "forward" ? node.oldValue : node.newValue;
+    const to = direction === "forward" ? node.newValue : node.oldValue;
+
+    // 达到 maxDepth 的节点只记录了占位字符串，没有可以写入的值
+    if (node.truncated) {
+      if (type !== DiffType.UNCHANGED) {
+        throw new DiffApplyError(
+          "Diff truncated by maxDepth; cannot apply",
+          node.path,
+          undefined,
+          base,
+        );
+      }
+      return base;
+    }
+
+    switch (type) {
+      case DiffType.ADDED:
+        return to;
+      case DiffType.DELETED:
+        if (strict) {
+          this.assertEqual(base, from, node.path);
+        }
+        return undefined;
+      case DiffType.UNCHANGED:
+        if (strict) {
+          this.assertUnchanged(base, node, direction);
+        }
+        return base;
+      case DiffType.IGNORED:
+        // 被过滤的路径保留基准值
+        return base;
+      case DiffType.MODIFIED:
+      case DiffType.MOVED:
+        // 移动节点的位置由父数组处理，这里只应用其内部差异
+        break;
+    }
+
+    // 叶子节点、类型变化的节点、Error 以及自定义类型，整体替换
+    if (
+      !node.children ||
+      node.valueType === ValueType.ERROR ||
+      node.valueType === ValueType.CUSTOM
+    ) {
+      if (strict) {
+        this.assertEqual(base, from, node.path);
+      }
+      return to;
+    }
+
+    switch (node.valueType) {
+      case ValueType.ARRAY:
+        return this.applyArray(base, node, direction, strict);
+      case ValueType.MAP:
+        return this.applyMap(base, node, direction, strict);
+      case ValueType.SET:
+        return this.applySet(base, node, direction, strict);
+      default:
+        return this.applyObject(base, node, direction, strict);
+    }
+  }
+
+  /**
+   * 应用对象节点
+   */
+  private static applyObject(
+    base: any,
+    node: DiffNode,
+    direction: ApplyDirection,
+    strict: boolean,
+  ): any {
+    if (base === null || typeof base !== "object" || Array.isArray(base)) {
+      throw new DiffApplyError("Expected an object", node.path, "object", base);
+    }
+
+    const result: Record<string, any> = { ...base };
+
+    for (const child of node.children!) {
+      const key = child.path[child.path.length - 1];
+      const type = this.resolveType(child, direction);
+      if (type === DiffType.IGNORED) {
+        continue;
+      }
+      const exists = Object.prototype.hasOwnProperty.call(base, key);
+
+      if (strict && type === DiffType.ADDED && exists) {
+        throw new DiffApplyError("Key already exists", child.path, MISSING, base[key]);
+      }
+      if (strict && type !== DiffType.ADDED && !exists) {
+        throw new DiffApplyError("Key does not exist", child.path, undefined, MISSING);
+      }
+
+      if (type === DiffType.DELETED) {
+        this.applyNode(base[key], child, direction, strict);
+        delete result[key];
+      } else {
+        this.setProperty(result, key, this.applyNode(base[key], child, direction, strict));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 应用 Map 节点（子节点的 mapKey 为原始键）
+   */
+  private static applyMap(
+    base: any,
+    node: DiffNode,
+    direction: ApplyDirection,
+    strict: boolean,
+  ): Map<any, any> {
+    if (!(base instanceof Map)) {
+      throw new DiffApplyError("Expected a Map", node.path, "map", base);
+    }
+
+    const result = new Map(base);
+
+    for (const child of node.children!) {
+      const key = this.findMember(base.keys(), child.mapKey);
+      const type = this.resolveType(child, direction);
+      const exists = key !== MISSING;
+
+      if (strict && type === DiffType.ADDED && exists) {
+        throw new DiffApplyError("Key already exists", child.path, MISSING, base.get(key));
+      }
+      if (strict && type !== DiffType.ADDED && !exists) {
+        throw new DiffApplyError("Key does not exist", child.path, undefined, MISSING);
+      }
+
+      if (type === DiffType.DELETED) {
+        result.delete(exists ? key : child.mapKey);
+      } else {
+        const value = this.applyNode(exists ? base.get(key) : undefined, child, direction, strict);
+        result.set(exists ? key : child.mapKey, value);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 应用 Set 节点（子节点的值即为成员）
+   */
+  private static applySet(
+    base: any,
+    node: DiffNode,
+    direction: ApplyDirection,
+    strict: boolean,
+  ): Set<any> {
+    if (!(base instanceof Set)) {
+      throw new DiffApplyError("Expected a Set", node.path, "set", base);
+    }
+
+    const result = new Set(base);
+
+    for (const child of node.children!) {
+      const type = this.resolveType(child, direction);
+      if (type === DiffType.ADDED) {
+        result.add(direction === "forward" ? child.newValue : child.oldValue);
+        continue;
+      }
+      if (type !== DiffType.DELETED && !(strict && type === DiffType.UNCHANGED)) {
+        continue;
+      }
+
+      // 删除的成员以及严格模式下未改变的成员需要存在于基准 Set 中
+      const member = direction === "forward" ? child.oldValue : child.newValue;
+      const existing = this.findMember(base, member);
+      if (strict && existing === MISSING) {
+        throw new DiffApplyError("Member does not exist", child.path, member, MISSING);
+      }
+      if (type === DiffType.DELETED) {
+        result.delete(existing);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 在 Map 的键或 Set 的成员中查找与目标相等的值（先按引用，再按深度相等）
+   * @returns 找到的值，不存在时返回 MISSING
+   */
+  private static findMember(items: Iterable<any>, target: any): any {
+    const list = Array.from(items);
+    let index = list.findIndex((item) => item === target || Object.is(item, target));
+    if (index === -1) {
+      index = list.findIndex((item) => LCSArrayDiff.isEqual(item, target));
+    }
+    return index === -1 ? MISSING : list[index];
+  }
+
+  /**
+   * 应用数组节点
+   * 根据子节点在新旧数组中的下标，将基准数组中的元素放置到目标位置
+   */
+  private static applyArray(
+    base: any,
+    node: DiffNode,
+    direction: ApplyDirection,
+    strict: boolean,
+  ): any[] {
+    if (!Array.isArray(base)) {
+      throw new DiffApplyError("Expected an array", node.path, "array", base);
+    }
+
+    const indices = DiffResultBuilder.resolveArrayIndices(node);
+    const result: any[] = [];
+    let sourceCount = 0;
+
+    node.children!.forEach((child, i) => {
+      const type = this.resolveType(child, direction);
+      const source = direction === "forward" ? indices[i].oldIndex : indices[i].newIndex;
+      const target = direction === "forward" ? indices[i].newIndex : indices[i].oldIndex;
+
+      if (type === DiffType.ADDED) {
+        result[target!] = this.applyNode(undefined, child, direction, strict);
+        return;
+      }
+
+      if (strict && source! >= base.length) {
+        throw new DiffApplyError("Array index out of bounds", child.path, undefined, MISSING);
+      }
+      sourceCount++;
+
+      const value = this.applyNode(base[source!], child, direction, strict);
+      if (type !== DiffType.DELETED) {
+        result[target!] = value;
+      }
+    });
+
+    // 保留 diff 未覆盖的尾部元素
+    if (sourceCount < base.length) {
+      if (strict) {
+        throw new DiffApplyError("Array length mismatch", node.path, sourceCount, base.length);
+      }
+      result.push(...base.slice(sourceCount));
+    }
+
+    return result;
+  }
+
+  /**
+   * 根据方向解析节点的有效差异类型（撤销时 ADDED 与 DELETED 互换）
+   */
+  private static resolveType(node: DiffNode, direction: ApplyDirection): DiffType {
+    if (direction === "backward") {
+      if (node.type === DiffType.ADDED) return DiffType.DELETED;
+      if (node.type === DiffType.DELETED) return DiffType.ADDED;
+    }
+    return node.type;
+  }
+
+  /**
+   * 严格模式下校验未改变的节点
+   * 容器节点逐个校验子节点，叶子节点、Error 以及自定义类型比较整个值
+   */
+  private static assertUnchanged(base: any, node: DiffNode, direction: ApplyDirection): void {
+    if (
+      !node.children ||
+      node.valueType === ValueType.ERROR ||
+      node.valueType === ValueType.CUSTOM
+    ) {
+      const expected = direction === "forward" ? node.oldValue : node.newValue;
+      this.assertEqual(base, expected, node.path);
+      return;
+    }
+    switch (node.valueType) {
+      case ValueType.ARRAY:
+        this.applyArray(base, node, direction, true);
+        return;
+      case ValueType.MAP:
+        this.applyMap(base, node, direction, true);
+        return;
+      case ValueType.SET:
+        this.applySet(base, node, direction, true);
+        return;
+      default:
+        this.applyObject(base, node, direction, true);
+    }
+  }
+
+  /**
+   * 校验基准值与期望值相等
+   */
+  private static assertEqual(actual: any, expected: any, path: string[]): void {
+    if (!LCSArrayDiff.isEqual(actual, expected)) {
+      throw new DiffApplyError("Value mismatch", path, expected, actual);
+    }
+  }
+
+  /**
+   * 设置对象属性（使用 defineProperty 以正确处理 "__proto__" 等特殊键）
+   */
+  private static setProperty(target: Record<string, any>, key: string, value: any): void {
+    Object.defineProperty(target, key, {
+      value,
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+  }
+}
+
+/**
+ * 便捷函数：将 diff 结果应用到旧值，得到新值
+ * @param oldValue 旧值
+ * @param result Diff 结果
+ * @param options 配置选项
+ * @returns 新值
+ */
+export function applyDiff(oldValue: any, result: DiffResult, options?: ApplyDiffOptions): any {
+  return DiffApplier.apply(oldValue, result.root, options);
+}
+
+/**
+ * 便捷函数：从新值撤销 diff 结果，得到旧值
+ * @param newValue 新值
+ * @param result Diff 结果
+ * @param options 配置选项
+ * @returns 旧值
+ */
+export function revertDiff(newValue: any, result: DiffResult, options?: ApplyDiffOptions): any {
+  return DiffApplier.revert(newValue, result.root, options);
+}
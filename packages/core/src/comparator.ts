@@ -0,0 +1,75 @@
+import { Comparator } from "./types";
+import { PathPattern } from "./pathpattern";
+
+/**
+ * 编译后的比较器
+ */
+interface CompiledComparator {
+  matches: (path: string[], value: any) => boolean;
+  comparator: Comparator;
+}
+
+/**
+ * 自定义比较器集合
+ * 按配置顺序查找第一个对新旧两侧都匹配的比较器
+ */
+export class CustomComparators {
+  private compiled: CompiledComparator[];
+
+  constructor(comparators: Comparator[] = []) {
+    this.compiled = comparators.map((comparator) => {
+      const { match } = comparator;
+      if (typeof match === "function") {
+        return { matches: match, comparator };
+      }
+      const pattern = PathPattern.compile(match);
+      return { matches: (path: string[]) => pattern.matches(path), comparator };
+    });
+  }
+
+  /**
+   * 是否没有配置任何比较器
+   */
+  get isEmpty(): boolean {
+    return this.compiled.length === 0;
+  }
+
+  /**
+   * 查找对两侧值都生效的比较器
+   * @param path 当前路径
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @returns 比较器，没有匹配时返回 undefined
+   */
+  find(path: string[], oldValue: any, newValue: any): Comparator | undefined {
+    return this.compiled.find((c) => c.matches(path, oldValue) && c.matches(path, newValue))
+      ?.comparator;
+  }
+
+  /**
+   * 判断是否有比较器匹配某一侧的值
+   * 用于数组对齐时的哈希：被比较器接管的子树不参与哈希
+   * @param path 当前路径
+   * @param value 值
+   * @returns 是否匹配
+   */
+  matchesValue(path: string[], value: any): boolean {
+    return this.compiled.some((c) => c.matches(path, value));
+  }
+
+  /**
+   * 使用匹配的比较器比较两个值
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @param path 当前路径
+   * @returns 比较结果，没有匹配的比较器时返回 undefined
+   */
+  compare(oldValue: any, newValue: any, path: string[]): "unchanged" | "modified" | undefined {
+    const comparator = this.find(path, oldValue, newValue);
+    if (!comparator) {
+      return undefined;
+    }
+    const result = comparator.compare(oldValue, newValue, { path });
+    return result === true || result === "unchanged" ? "unchanged" : "modified";
+  }
+}
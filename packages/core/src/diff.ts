@@ -1,23 +1,270 @@
-import { DiffType, ValueType, DiffNode, DiffResult, DiffOptions } from "./types";
+import {
+  DiffType,
+  ValueType,
+  DiffNode,
+  DiffResult,
+  DiffOptions,
+  AsyncComputeOptions,
+  AsyncDiffOptions,
+  ArrayKey,
+  CircularRef,
+  TextDiffOptions,
+  TypeHandler,
+  ArrayDiffMode,
+} from "./types";
 import { TypeNormalizer } from "./normalizer";
-import { LCSArrayDiff } from "./lcs";
+import { LCSArrayDiff, ArrayKeyOf, ArrayDiffOp, ElementSimilar } from "./lcs";
+import { PathPattern } from "./pathpattern";
+import { CustomComparators } from "./comparator";
+import { NumericEquality } from "./numeric";
+import { TextDiff } from "./textdiff";
+import { PathFilter } from "./pathfilter";
+import { TypeRegistry } from "./typeregistry";
+import { DiffPath } from "./diffpath";
+import { SubtreeHasher } from "./subtreehash";
+import { DiffResultBuilder } from "./result";
+
+/**
+ * 数组身份键规则（pattern 为 null 时匹配所有数组）
+ */
+interface ArrayKeyRule {
+  pattern: PathPattern | null;
+  key: ArrayKey;
+}
+
+/**
+ * 数组比较模式规则（pattern 为 null 时匹配所有数组）
+ */
+interface ArrayDiffModeRule {
+  pattern: PathPattern | null;
+  mode: ArrayDiffMode;
+}
+
+/**
+ * 子节点比较请求（由容器的比较任务产出，交给调度循环处理）
+ */
+interface DiffRequest {
+  oldValue: any;
+  newValue: any;
+  path: DiffPath;
+}
+
+/**
+ * 相似判断时已比较过、配对为修改的元素（按新下标记录，构建子节点时复用）
+ */
+interface SimilarPair {
+  oldValue: any;
+  node: DiffNode;
+}
+
+/**
+ * 容器的比较任务：产出子节点比较请求，接收子节点的结果，最终返回容器节点
+ * 调度循环使用显式栈驱动任务，嵌套深度不受调用栈限制
+ */
+type DiffTask = Generator<DiffRequest, DiffNode, DiffNode>;
 
 /**
  * 核心 Diff 引擎类
  * 负责计算两个值之间的差异
  */
 export class DiffEngine {
-  private options: Required<DiffOptions>;
-  private circularRefs: WeakSet<object>;
+  private options: Required<
+    Omit<
+      DiffOptions,
+      | "arrayDiffMode"
+      | "arrayKey"
+      | "comparators"
+      | "textDiff"
+      | "ignorePaths"
+      | "includePaths"
+      | "hashSubtrees"
+    >
+  >;
+  private arrayDiffModeRules: ArrayDiffModeRule[];
+  private arrayKeyRules: ArrayKeyRule[];
+  private comparators: CustomComparators;
+  private textDiff: Required<TextDiffOptions> | null; // 字符串内部差异选项（null 表示关闭）
+  private filter: PathFilter; // 路径忽略 / 包含规则
+  private hasher: SubtreeHasher | null; // 子树内容哈希（null 表示关闭）
+  private collapsible: boolean; // 是否折叠相同的子树
+  private oldAncestors: Map<object, DiffPath>; // 当前分支上旧值的祖先对象及其路径
+  private newAncestors: Map<object, DiffPath>; // 当前分支上新值的祖先对象及其路径
+  private visited: number; // 本次计算已比较的节点数
 
   constructor(options?: DiffOptions) {
     this.options = {
       maxDepth: options?.maxDepth ?? Infinity,
       ignoreKeys: options?.ignoreKeys ?? [],
-      arrayDiffMode: options?.arrayDiffMode ?? "lcs",
       detectCircular: options?.detectCircular ?? true,
+      detectMoves: options?.detectMoves ?? true,
+      numeric: options?.numeric ?? {},
+      ignoreMode: options?.ignoreMode ?? "drop",
+      collapseUnchanged: options?.collapseUnchanged ?? false,
+      includeUnchanged: options?.includeUnchanged ?? true,
+      unchangedContext: options?.unchangedContext ?? 0,
+      similarityWeights: options?.similarityWeights ?? {},
+      similarityThreshold: options?.similarityThreshold ?? 0,
+    };
+    const context = this.options.unchangedContext;
+    if (!Number.isInteger(context) || context < 0) {
+      throw new Error(`unchangedContext must be a non-negative integer, got: ${context}`);
+    }
+    const threshold = this.options.similarityThreshold;
+    if (!(threshold >= 0 && threshold <= 1)) {
+      throw new Error(`similarityThreshold must be between 0 and 1, got: ${threshold}`);
+    }
+    this.arrayDiffModeRules = this.compileArrayDiffModeRules(options?.arrayDiffMode);
+    this.arrayKeyRules = this.compileArrayKeyRules(options?.arrayKey);
+    this.comparators = new CustomComparators(options?.comparators);
+    this.textDiff = this.resolveTextDiffOptions(options?.textDiff);
+    this.filter = new PathFilter(options?.ignorePaths, options?.includePaths);
+    this.hasher = options?.hashSubtrees ? new SubtreeHasher() : null;
+    // 自定义比较器与 nanEqual: false 可能判定值与自身不同，此时折叠会改变比较结果
+    this.collapsible =
+      this.options.collapseUnchanged &&
+      this.comparators.isEmpty &&
+      this.options.numeric.nanEqual !== false;
+    this.oldAncestors = new Map();
+    this.newAncestors = new Map();
+    this.visited = 0;
+  }
+
+  /**
+   * 解析字符串内部差异选项
+   * @param textDiff 用户配置
+   * @returns 完整选项，未开启时返回 null
+   */
+  private resolveTextDiffOptions(
+    textDiff: DiffOptions["textDiff"],
+  ): Required<TextDiffOptions> | null {
+    if (!textDiff) {
+      return null;
+    }
+    const resolved: TextDiffOptions = textDiff === true ? {} : textDiff;
+    return { granularity: resolved.granularity ?? "word", minLength: resolved.minLength ?? 0 };
+  }
+
+  /**
+   * 编译数组比较模式配置
+   * @param arrayDiffMode 比较模式配置
+   * @returns 比较模式规则列表
+   */
+  private compileArrayDiffModeRules(
+    arrayDiffMode: DiffOptions["arrayDiffMode"],
+  ): ArrayDiffModeRule[] {
+    if (arrayDiffMode === undefined) {
+      return [];
+    }
+    if (typeof arrayDiffMode === "string") {
+      return [{ pattern: null, mode: arrayDiffMode }];
+    }
+    return Object.entries(arrayDiffMode).map(([pattern, mode]) => ({
+      pattern: PathPattern.compile(pattern),
+      mode,
+    }));
+  }
+
+  /**
+   * 获取数组路径对应的比较模式
+   * @param path 数组路径
+   * @returns 第一个匹配规则的模式，没有匹配的规则时返回 lcs
+   */
+  private resolveArrayDiffMode(path: DiffPath): ArrayDiffMode {
+    const rule = this.arrayDiffModeRules.find(
+      (r) => r.pattern === null || r.pattern.matches(path.toArray()),
+    );
+    return rule?.mode ?? "lcs";
+  }
+
+  /**
+   * 获取数组元素的相似判断函数
+   * 被删除与新增的元素在元素路径上单独比较，相似度不低于阈值时才配对为修改
+   * 序列匹配是同步的，候选元素在调度循环之外比较完成；通过的元素记录到 pairs，避免再次比较
+   * @param path 数组路径
+   * @param pairs 配对为修改的元素
+   * @returns 相似判断函数，未设置阈值时返回 undefined
+   */
+  private resolveSimilar(
+    path: DiffPath,
+    pairs: Map<number, SimilarPair>,
+  ): ElementSimilar | undefined {
+    const { similarityThreshold, similarityWeights } = this.options;
+    if (similarityThreshold === 0) {
+      return undefined;
+    }
+    return (oldValue, newValue, index) => {
+      const node = this.runToEnd(oldValue, newValue, path.child(String(index)));
+      if (DiffResultBuilder.computeSimilarity(node, similarityWeights) < similarityThreshold) {
+        return false;
+      }
+      pairs.set(index, { oldValue, node });
+      return true;
+    };
+  }
+
+  /**
+   * 编译数组身份键配置
+   * @param arrayKey 身份键配置
+   * @returns 身份键规则列表
+   */
+  private compileArrayKeyRules(arrayKey: DiffOptions["arrayKey"]): ArrayKeyRule[] {
+    if (arrayKey === undefined) {
+      return [];
+    }
+    if (typeof arrayKey === "string" || typeof arrayKey === "function") {
+      return [{ pattern: null, key: arrayKey }];
+    }
+    return Object.entries(arrayKey).map(([pattern, key]) => ({
+      pattern: PathPattern.compile(pattern),
+      key,
+    }));
+  }
+
+  /**
+   * 获取数组路径对应的身份键提取函数
+   * @param path 数组路径
+   * @returns 身份键提取函数，没有匹配的规则时返回 undefined
+   */
+  private resolveArrayKeyOf(path: DiffPath): ArrayKeyOf | undefined {
+    const rule = this.arrayKeyRules.find(
+      (r) => r.pattern === null || r.pattern.matches(path.toArray()),
+    );
+    if (!rule) {
+      return undefined;
+    }
+
+    const key = rule.key;
+    if (typeof key === "function") {
+      const segments = path.toArray();
+      return (item) => key(item, segments);
+    }
+    return (item) => {
+      if (
+        item === null ||
+        typeof item !== "object" ||
+        !Object.prototype.hasOwnProperty.call(item, key)
+      ) {
+        return undefined;
+      }
+      return item[key];
     };
-    this.circularRefs = new WeakSet();
+  }
+
+  /**
+   * 注册自定义类型处理器（全局生效）
+   * @param handler 类型处理器
+   */
+  static registerType<T>(handler: TypeHandler<T>): void {
+    TypeRegistry.register(handler);
+  }
+
+  /**
+   * 注销自定义类型处理器
+   * @param name 类型名称
+   * @returns 是否存在并已注销
+   */
+  static unregisterType(name: string): boolean {
+    return TypeRegistry.unregister(name);
   }
 
   /**
@@ -28,10 +275,95 @@ export class DiffEngine {
    * @returns DiffNode 差异节点
    */
   diff(oldValue: any, newValue: any, path: string[] = []): DiffNode {
-    // 检测循环引用
+    return this.runToEnd(oldValue, newValue, DiffPath.from(path));
+  }
+
+  /**
+   * 同步执行调度循环直到比较完成
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @param path 当前路径
+   * @returns 根节点
+   */
+  private runToEnd(oldValue: any, newValue: any, path: DiffPath): DiffNode {
+    const run = this.run(oldValue, newValue, path, Infinity);
+    let step = run.next();
+    while (!step.done) {
+      step = run.next();
+    }
+    return step.value;
+  }
+
+  /**
+   * 调度循环：使用显式栈驱动比较任务
+   * 每比较 yieldEvery 个节点产出一次，供异步计算让出事件循环
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @param path 当前路径
+   * @param yieldEvery 产出间隔（Infinity 表示不产出）
+   * @returns 根节点
+   */
+  private *run(
+    oldValue: any,
+    newValue: any,
+    path: DiffPath,
+    yieldEvery: number,
+  ): Generator<void, DiffNode, void> {
+    const first = this.start(oldValue, newValue, path);
+    if (!this.isTask(first)) {
+      return first;
+    }
+
+    const stack: DiffTask[] = [first];
+    let input: DiffNode | undefined;
+    let lastYield = this.visited;
+    while (stack.length > 0) {
+      const step = stack[stack.length - 1].next(input!);
+      if (step.done) {
+        // 任务完成，结果交给上一层任务
+        stack.pop();
+        input = step.value;
+        continue;
+      }
+
+      if (this.visited - lastYield >= yieldEvery) {
+        lastYield = this.visited;
+        yield;
+      }
+      const child = this.start(step.value.oldValue, step.value.newValue, step.value.path);
+      if (this.isTask(child)) {
+        stack.push(child);
+        input = undefined;
+      } else {
+        input = child;
+      }
+    }
+    return input!;
+  }
+
+  /**
+   * 判断 start 的结果是否为比较任务
+   */
+  private isTask(value: DiffNode | DiffTask): value is DiffTask {
+    return typeof (value as DiffTask).next === "function";
+  }
+
+  /**
+   * 开始比较两个值
+   * 叶子值直接返回节点，容器值返回比较任务
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @param path 当前路径
+   * @returns DiffNode 或比较任务
+   */
+  private start(oldValue: any, newValue: any, path: DiffPath): DiffNode | DiffTask {
+    this.visited++;
+
+    // 检测循环引用（值是否为当前分支上的祖先）
     if (this.options.detectCircular) {
-      if (this.isCircular(oldValue) || this.isCircular(newValue)) {
-        return this.createCircularNode(path);
+      const circular = this.findCircular(oldValue, newValue);
+      if (circular) {
+        return this.createCircularNode(path, oldValue, newValue, circular);
       }
     }
 
@@ -40,28 +372,100 @@ export class DiffEngine {
       return this.createMaxDepthNode(path, oldValue, newValue);
     }
 
-    // 标记对象为已访问（用于循环引用检测）
-    if (this.options.detectCircular) {
-      if (oldValue && typeof oldValue === "object") {
-        this.circularRefs.add(oldValue);
-      }
-      if (newValue && typeof newValue === "object") {
-        this.circularRefs.add(newValue);
-      }
+    // 自定义比较器优先于内置的类型比较
+    const custom = this.comparators.isEmpty
+      ? undefined
+      : this.comparators.compare(oldValue, newValue, path.toArray());
+    if (custom) {
+      return this.createComparedNode(path, oldValue, newValue, custom);
+    }
+
+    // 相同的子树折叠为单个节点，不再逐层比较
+    if (this.collapsible && this.isSameSubtree(oldValue, newValue)) {
+      return this.createCollapsedNode(path, oldValue, newValue);
     }
 
+    let result = this.diffValue(oldValue, newValue, path);
+    if (!this.options.includeUnchanged) {
+      result = this.omitUnchanged(result);
+    }
+    if (!this.options.detectCircular || !this.isTask(result)) {
+      return result;
+    }
+    return this.trackAncestors(result, oldValue, newValue, path);
+  }
+
+  /**
+   * 容器比较完成后立即移除未改变的子节点，未改变的子树不会保留在结果中
+   * 子节点在父节点完成之前已经处理过，未改变的容器作为上下文保留时也不包含子节点
+   * @param result 节点或比较任务
+   * @returns 处理后的节点或包装后的比较任务
+   */
+  private omitUnchanged(result: DiffNode | DiffTask): DiffNode | DiffTask {
+    if (!this.isTask(result)) {
+      DiffResultBuilder.omitUnchangedChildren(result, this.options.unchangedContext);
+      return result;
+    }
+    return this.omitUnchangedTask(result);
+  }
+
+  /**
+   * 包装比较任务，完成后移除未改变的子节点
+   */
+  private *omitUnchangedTask(task: DiffTask): DiffTask {
+    const node = yield* task;
+    DiffResultBuilder.omitUnchangedChildren(node, this.options.unchangedContext);
+    return node;
+  }
+
+  /**
+   * 在任务执行期间将两侧的值登记为当前分支上的祖先
+   * 子树比较完成后退出，兄弟分支共享的引用不会被误判为循环
+   * @param task 容器的比较任务
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @param path 当前路径
+   * @returns 包装后的比较任务
+   */
+  private *trackAncestors(task: DiffTask, oldValue: any, newValue: any, path: DiffPath): DiffTask {
+    const enterOld = this.isObjectLike(oldValue);
+    const enterNew = this.isObjectLike(newValue);
+    if (enterOld) this.oldAncestors.set(oldValue, path);
+    if (enterNew) this.newAncestors.set(newValue, path);
+
+    const node = yield* task;
+
+    if (enterOld) this.oldAncestors.delete(oldValue);
+    if (enterNew) this.newAncestors.delete(newValue);
+
+    return node;
+  }
+
+  /**
+   * 按值类型比较两个值
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @param path 当前路径
+   * @returns 叶子值返回 DiffNode，容器值返回比较任务
+   */
+  private diffValue(oldValue: any, newValue: any, path: DiffPath): DiffNode | DiffTask {
     // 规范化类型
     const oldType = TypeNormalizer.getValueType(oldValue);
     const newType = TypeNormalizer.getValueType(newValue);
 
     // 类型不同，直接标记为修改
     if (oldType !== newType) {
-      return this.createModifiedNode(path, oldValue, newValue, oldType);
+      const node = this.createModifiedNode(path, oldValue, newValue, oldType, newType);
+      if (oldType === ValueType.CUSTOM) {
+        node.customType = TypeRegistry.find(oldValue)!.name;
+      }
+      return node;
     }
 
     // 根据类型选择比较策略
     switch (oldType) {
       case ValueType.PRIMITIVE:
+      case ValueType.BIGINT:
       case ValueType.NULL:
       case ValueType.UNDEFINED:
         return this.diffPrimitive(oldValue, newValue, path, oldType);
@@ -77,36 +481,145 @@ export class DiffEngine {
         return this.diffRegExp(oldValue, newValue, path);
       case ValueType.SYMBOL:
         return this.diffSymbol(oldValue, newValue, path);
+      case ValueType.MAP:
+        return this.diffMap(oldValue, newValue, path);
+      case ValueType.SET:
+        return this.diffSet(oldValue, newValue, path);
+      case ValueType.TYPED_ARRAY:
+        return this.diffBinary(oldValue, newValue, path);
+      case ValueType.ERROR:
+        return this.diffError(oldValue, newValue, path);
+      case ValueType.URL:
+        return this.diffURL(oldValue, newValue, path);
+      case ValueType.BOXED:
+        return this.diffBoxed(oldValue, newValue, path);
+      case ValueType.CUSTOM:
+        return this.diffCustom(oldValue, newValue, path);
       default:
         throw new Error(`Unsupported type: ${oldType}`);
     }
   }
 
   /**
-   * 检测循环引用
-   * @param value 要检测的值
-   * @returns 是否存在循环引用
+   * 判断值是否为对象（包括数组）
    */
-  private isCircular(value: any): boolean {
-    if (!value || typeof value !== "object") {
+  private isObjectLike(value: any): value is object {
+    return value !== null && typeof value === "object";
+  }
+
+  /**
+   * 判断两个对象是否为相同的子树：同一个引用，或开启 hashSubtrees 时内容哈希相同且深度相等
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @returns 是否相同
+   */
+  private isSameSubtree(oldValue: any, newValue: any): boolean {
+    if (!this.isObjectLike(oldValue) || !this.isObjectLike(newValue)) {
+      return false;
+    }
+    if (oldValue === newValue) {
+      return true;
+    }
+    if (!this.hasher) {
       return false;
     }
-    return this.circularRefs.has(value);
+
+    // 哈希不同的子树一定不同；哈希相同时深度比较排除哈希冲突（有循环引用的子树没有哈希）
+    const oldHash = this.hasher.hash(oldValue);
+    return (
+      oldHash !== undefined &&
+      oldHash === this.hasher.hash(newValue) &&
+      LCSArrayDiff.isEqual(oldValue, newValue, {
+        comparators: this.comparators.isEmpty ? undefined : this.comparators,
+        numeric: this.options.numeric,
+        filter: this.filter.isEmpty ? undefined : this.filter,
+      })
+    );
+  }
+
+  /**
+   * 创建折叠的未改变节点（不包含子节点，size 记录子树中值的数量）
+   * @param path 路径
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @returns DiffNode
+   */
+  private createCollapsedNode(path: DiffPath, oldValue: any, newValue: any): DiffNode {
+    return path.createNode({
+      type: DiffType.UNCHANGED,
+      valueType: TypeNormalizer.getValueType(oldValue),
+      oldValue,
+      newValue,
+      size: DiffEngine.estimateSize(oldValue),
+    });
+  }
+
+  /**
+   * 检测循环引用
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @returns 循环引用信息，两侧都没有形成循环时返回 undefined
+   */
+  private findCircular(oldValue: any, newValue: any): CircularRef | undefined {
+    const oldRef = this.isObjectLike(oldValue) ? this.oldAncestors.get(oldValue) : undefined;
+    const newRef = this.isObjectLike(newValue) ? this.newAncestors.get(newValue) : undefined;
+    if (oldRef === undefined && newRef === undefined) {
+      return undefined;
+    }
+    return { oldRefPath: oldRef?.toArray(), newRefPath: newRef?.toArray() };
   }
 
   /**
    * 创建循环引用节点
+   * 两侧都指向相同路径的祖先时结构一致，视为未改变
    * @param path 路径
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @param circular 循环引用信息
    * @returns DiffNode
    */
-  private createCircularNode(path: string[]): DiffNode {
-    return {
-      type: DiffType.MODIFIED,
-      path,
-      valueType: ValueType.OBJECT,
-      oldValue: "[Circular Reference]",
-      newValue: "[Circular Reference]",
-    };
+  private createCircularNode(
+    path: DiffPath,
+    oldValue: any,
+    newValue: any,
+    circular: CircularRef,
+  ): DiffNode {
+    const { oldRefPath, newRefPath } = circular;
+    const samePath =
+      oldRefPath !== undefined &&
+      newRefPath !== undefined &&
+      oldRefPath.length === newRefPath.length &&
+      oldRefPath.every((segment, i) => segment === newRefPath[i]);
+
+    return path.createNode({
+      type: samePath ? DiffType.UNCHANGED : DiffType.MODIFIED,
+      ...this.valueTypesOf(oldValue, newValue),
+      oldValue,
+      newValue,
+      circular,
+    });
+  }
+
+  /**
+   * 创建由自定义比较器判定的节点（不再比较内部差异）
+   * @param path 路径
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @param result 比较结果
+   * @returns DiffNode
+   */
+  private createComparedNode(
+    path: DiffPath,
+    oldValue: any,
+    newValue: any,
+    result: "unchanged" | "modified",
+  ): DiffNode {
+    return path.createNode({
+      type: result === "unchanged" ? DiffType.UNCHANGED : DiffType.MODIFIED,
+      ...this.valueTypesOf(oldValue, newValue),
+      oldValue,
+      newValue,
+    });
   }
 
   /**
@@ -116,38 +629,59 @@ export class DiffEngine {
    * @param newValue 新值
    * @returns DiffNode
    */
-  private createMaxDepthNode(path: string[], oldValue: any, newValue: any): DiffNode {
+  private createMaxDepthNode(path: DiffPath, oldValue: any, newValue: any): DiffNode {
     const type = oldValue === newValue ? DiffType.UNCHANGED : DiffType.MODIFIED;
-    return {
+    return path.createNode({
       type,
-      path,
-      valueType: TypeNormalizer.getValueType(oldValue),
+      ...this.valueTypesOf(oldValue, newValue),
       oldValue: "[Max Depth Reached]",
       newValue: "[Max Depth Reached]",
-    };
+      truncated: true,
+    });
   }
 
   /**
    * 创建修改节点（类型不同时）
+   * valueType 使用旧类型，oldValueType / newValueType 记录两侧的类型
    * @param path 路径
    * @param oldValue 旧值
    * @param newValue 新值
    * @param oldType 旧类型
+   * @param newType 新类型
    * @returns DiffNode
    */
   private createModifiedNode(
-    path: string[],
+    path: DiffPath,
     oldValue: any,
     newValue: any,
     oldType: ValueType,
+    newType: ValueType,
   ): DiffNode {
-    return {
+    return path.createNode({
       type: DiffType.MODIFIED,
-      path,
       valueType: oldType, // 使用旧类型
+      ...(oldType !== newType && { oldValueType: oldType, newValueType: newType }),
       oldValue,
       newValue,
-    };
+    });
+  }
+
+  /**
+   * 获取节点的值类型字段
+   * valueType 使用旧值的类型，两侧类型不同时额外记录 oldValueType / newValueType
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @returns 值类型字段
+   */
+  private valueTypesOf(
+    oldValue: any,
+    newValue: any,
+  ): Pick<DiffNode, "valueType" | "oldValueType" | "newValueType"> {
+    const oldType = TypeNormalizer.getValueType(oldValue);
+    const newType = TypeNormalizer.getValueType(newValue);
+    return oldType === newType
+      ? { valueType: oldType }
+      : { valueType: oldType, oldValueType: oldType, newValueType: newType };
   }
 
   /**
@@ -161,25 +695,54 @@ export class DiffEngine {
   private diffPrimitive(
     oldValue: any,
     newValue: any,
-    path: string[],
+    path: DiffPath,
     valueType: ValueType,
   ): DiffNode {
+    // 数值按数值比较选项判断，修改时附带变化量
+    if (typeof oldValue === "number" && typeof newValue === "number") {
+      if (NumericEquality.equals(oldValue, newValue, this.options.numeric)) {
+        return path.createNode({ type: DiffType.UNCHANGED, valueType, oldValue, newValue });
+      }
+      return path.createNode({
+        type: DiffType.MODIFIED,
+        valueType,
+        oldValue,
+        newValue,
+        delta: newValue - oldValue,
+      });
+    }
+
     if (oldValue === newValue) {
-      return {
+      return path.createNode({
         type: DiffType.UNCHANGED,
-        path,
         valueType,
         oldValue,
         newValue,
-      };
+      });
     }
-    return {
+
+    // 修改的字符串按配置附带内部差异
+    if (
+      this.textDiff &&
+      typeof oldValue === "string" &&
+      typeof newValue === "string" &&
+      Math.max(oldValue.length, newValue.length) >= this.textDiff.minLength
+    ) {
+      return path.createNode({
+        type: DiffType.MODIFIED,
+        valueType,
+        oldValue,
+        newValue,
+        textDiff: TextDiff.diff(oldValue, newValue, this.textDiff.granularity),
+      });
+    }
+
+    return path.createNode({
       type: DiffType.MODIFIED,
-      path,
       valueType,
       oldValue,
       newValue,
-    };
+    });
   }
 
   /**
@@ -187,9 +750,9 @@ export class DiffEngine {
    * @param oldValue 旧对象
    * @param newValue 新对象
    * @param path 路径
-   * @returns DiffNode
+   * @returns 比较任务
    */
-  private diffObject(oldValue: any, newValue: any, path: string[]): DiffNode {
+  private *diffObject(oldValue: any, newValue: any, path: DiffPath): DiffTask {
     const children: DiffNode[] = [];
     const oldKeys = Object.keys(oldValue);
     const newKeys = Object.keys(newValue);
@@ -202,44 +765,66 @@ export class DiffEngine {
         continue;
       }
 
-      const hasOld = key in oldValue;
-      const hasNew = key in newValue;
+      // 只检查自有属性，避免 "toString" 等原型链上的键被误判为存在
+      const hasOld = Object.prototype.hasOwnProperty.call(oldValue, key);
+      const hasNew = Object.prototype.hasOwnProperty.call(newValue, key);
+
+      // 按路径规则过滤
+      if (!this.filter.isEmpty) {
+        const childPath = path.child(key);
+        const values = [...(hasOld ? [oldValue[key]] : []), ...(hasNew ? [newValue[key]] : [])];
+        if (this.filter.excludes(childPath.toArray(), ...values)) {
+          if (this.options.ignoreMode === "mark") {
+            children.push(
+              this.createIgnoredNode(childPath, oldValue[key], newValue[key], hasOld, hasNew),
+            );
+          }
+          continue;
+        }
+      }
 
       if (hasOld && hasNew) {
         // 键在两个对象中都存在，递归比较
-        const childDiff = this.diff(oldValue[key], newValue[key], [...path, key]);
+        const childDiff = yield {
+          oldValue: oldValue[key],
+          newValue: newValue[key],
+          path: path.child(key),
+        };
         children.push(childDiff);
       } else if (hasOld && !hasNew) {
         // 键被删除
-        children.push({
-          type: DiffType.DELETED,
-          path: [...path, key],
-          valueType: TypeNormalizer.getValueType(oldValue[key]),
-          oldValue: oldValue[key],
-        });
+        children.push(
+          path.child(key).createNode({
+            type: DiffType.DELETED,
+            valueType: TypeNormalizer.getValueType(oldValue[key]),
+            oldValue: oldValue[key],
+          }),
+        );
       } else if (!hasOld && hasNew) {
         // 键被添加
-        children.push({
-          type: DiffType.ADDED,
-          path: [...path, key],
-          valueType: TypeNormalizer.getValueType(newValue[key]),
-          newValue: newValue[key],
-        });
+        children.push(
+          path.child(key).createNode({
+            type: DiffType.ADDED,
+            valueType: TypeNormalizer.getValueType(newValue[key]),
+            newValue: newValue[key],
+          }),
+        );
       }
     }
 
     // 判断对象整体的差异类型
-    const hasChanges = children.some((child) => child.type !== DiffType.UNCHANGED);
+    const hasChanges = children.some(
+      (child) => child.type !== DiffType.UNCHANGED && child.type !== DiffType.IGNORED,
+    );
     const type = hasChanges ? DiffType.MODIFIED : DiffType.UNCHANGED;
 
-    return {
+    return path.createNode({
       type,
-      path,
       valueType: ValueType.OBJECT,
       oldValue,
       newValue,
       children,
-    };
+    });
   }
 
   /**
@@ -247,56 +832,107 @@ export class DiffEngine {
    * @param oldValue 旧数组
    * @param newValue 新数组
    * @param path 路径
-   * @returns DiffNode
+   * @returns 比较任务
    */
-  private diffArray(oldValue: any[], newValue: any[], path: string[]): DiffNode {
+  private *diffArray(oldValue: any[], newValue: any[], path: DiffPath): DiffTask {
     const children: DiffNode[] = [];
+    const keyOf = this.resolveArrayKeyOf(path);
+    const pairs = new Map<number, SimilarPair>();
 
-    if (this.options.arrayDiffMode === "lcs") {
-      // 使用 LCS 算法进行智能比较
-      const ops = LCSArrayDiff.diff(oldValue, newValue);
-      let oldIndex = 0;
+    // 配置了身份键的数组总是按身份匹配元素（position 模式下使用 lcs 算法）
+    const mode = this.resolveArrayDiffMode(path);
+    if (mode !== "position" || keyOf) {
+      // 相同的数组中元素按下标一一对应，跳过序列匹配（自定义比较器可能判定元素与自身不同）
+      const same = this.comparators.isEmpty && this.isSameSubtree(oldValue, newValue);
+      // 只有自定义比较器与路径规则需要元素的路径
+      const tracksPath = !this.comparators.isEmpty || !this.filter.isEmpty;
+      const arrayOptions = {
+        keyOf,
+        detectMoves: this.options.detectMoves,
+        comparators: this.comparators.isEmpty ? undefined : this.comparators,
+        numeric: this.options.numeric,
+        filter: this.filter.isEmpty ? undefined : this.filter,
+        path: tracksPath ? path.toArray() : undefined,
+        similar: this.resolveSimilar(path, pairs),
+      };
+      // 无序模式按多重集匹配元素，其余模式使用序列匹配算法进行智能比较
+      const unordered = mode === "unordered";
+      const ops: ArrayDiffOp[] = same
+        ? oldValue.map((value, index): ArrayDiffOp => ({ type: "keep", index, value }))
+        : unordered
+          ? LCSArrayDiff.diffUnordered(oldValue, newValue, arrayOptions)
+          : LCSArrayDiff.diff(oldValue, newValue, {
+              ...arrayOptions,
+              algorithm: mode === "position" ? "lcs" : mode,
+            });
       let newIndex = 0;
 
       for (const op of ops) {
         switch (op.type) {
           case "keep":
             // 元素保持不变，递归比较
-            const childDiff = this.diff(oldValue[oldIndex], newValue[newIndex], [
-              ...path,
-              String(newIndex),
-            ]);
+            const childDiff = yield* this.diffElement(
+              op.value,
+              newValue[newIndex],
+              path.child(String(newIndex)),
+            );
             children.push(childDiff);
-            oldIndex++;
             newIndex++;
             break;
           case "add":
             // 元素被添加
-            children.push({
-              type: DiffType.ADDED,
-              path: [...path, String(newIndex)],
-              valueType: TypeNormalizer.getValueType(newValue[newIndex]),
-              newValue: newValue[newIndex],
-            });
+            children.push(
+              path.child(String(newIndex)).createNode({
+                type: DiffType.ADDED,
+                valueType: TypeNormalizer.getValueType(newValue[newIndex]),
+                newValue: newValue[newIndex],
+              }),
+            );
             newIndex++;
             break;
           case "delete":
-            // 元素被删除
-            children.push({
-              type: DiffType.DELETED,
-              path: [...path, String(oldIndex)],
-              valueType: TypeNormalizer.getValueType(oldValue[oldIndex]),
-              oldValue: oldValue[oldIndex],
-            });
-            oldIndex++;
+            // 元素被删除（路径使用旧数组中的下标）
+            children.push(
+              path.child(String(op.index)).createNode({
+                type: DiffType.DELETED,
+                valueType: TypeNormalizer.getValueType(op.value),
+                oldValue: op.value,
+              }),
+            );
             break;
           case "modify":
-            // 元素被修改，递归比较内部差异
-            const modifyChildDiff = this.diff(op.value, op.newValue, [...path, String(newIndex)]);
+            // 元素被修改，递归比较内部差异（相似判断时已比较过的元素直接复用其节点）
+            const pair = pairs.get(newIndex);
+            const modifyChildDiff = yield* this.diffElement(
+              op.value,
+              op.newValue,
+              path.child(String(newIndex)),
+              pair && Object.is(pair.oldValue, op.value) ? pair.node : undefined,
+            );
             children.push(modifyChildDiff);
-            oldIndex++;
             newIndex++;
             break;
+          case "move":
+            // 元素被移动，递归比较内部差异（按身份键匹配时内容可能也有变化）
+            const moveChildDiff = yield {
+              oldValue: op.value,
+              newValue: op.newValue,
+              path: path.child(String(newIndex)),
+            };
+            children.push(
+              Object.assign(moveChildDiff, {
+                type: DiffType.MOVED,
+                fromIndex: op.fromIndex,
+                toIndex: newIndex,
+              }),
+            );
+            newIndex++;
+            break;
+        }
+
+        // 无序模式下元素的新旧下标没有对应关系，记录旧下标供应用差异时定位
+        if (unordered && op.type !== "add") {
+          children[children.length - 1].fromIndex = op.index;
         }
       }
     } else {
@@ -307,38 +943,90 @@ export class DiffEngine {
         const hasNew = i < newValue.length;
 
         if (hasOld && hasNew) {
-          const childDiff = this.diff(oldValue[i], newValue[i], [...path, String(i)]);
+          const childDiff = yield* this.diffElement(
+            oldValue[i],
+            newValue[i],
+            path.child(String(i)),
+          );
           children.push(childDiff);
         } else if (hasOld && !hasNew) {
-          children.push({
-            type: DiffType.DELETED,
-            path: [...path, String(i)],
-            valueType: TypeNormalizer.getValueType(oldValue[i]),
-            oldValue: oldValue[i],
-          });
+          children.push(
+            path.child(String(i)).createNode({
+              type: DiffType.DELETED,
+              valueType: TypeNormalizer.getValueType(oldValue[i]),
+              oldValue: oldValue[i],
+            }),
+          );
         } else if (!hasOld && hasNew) {
-          children.push({
-            type: DiffType.ADDED,
-            path: [...path, String(i)],
-            valueType: TypeNormalizer.getValueType(newValue[i]),
-            newValue: newValue[i],
-          });
+          children.push(
+            path.child(String(i)).createNode({
+              type: DiffType.ADDED,
+              valueType: TypeNormalizer.getValueType(newValue[i]),
+              newValue: newValue[i],
+            }),
+          );
         }
       }
     }
 
     // 判断数组整体的差异类型
-    const hasChanges = children.some((child) => child.type !== DiffType.UNCHANGED);
+    const hasChanges = children.some(
+      (child) => child.type !== DiffType.UNCHANGED && child.type !== DiffType.IGNORED,
+    );
     const type = hasChanges ? DiffType.MODIFIED : DiffType.UNCHANGED;
 
-    return {
+    return path.createNode({
       type,
-      path,
       valueType: ValueType.ARRAY,
       oldValue,
       newValue,
       children,
-    };
+    });
+  }
+
+  /**
+   * 比较新旧数组中配对的元素
+   * 被路径规则过滤的元素总是标记为 IGNORED，直接丢弃会打乱兄弟元素的下标
+   * @param oldValue 旧元素
+   * @param newValue 新元素
+   * @param path 元素路径
+   * @param compared 已经比较得到的节点（可选，有则不再比较）
+   * @returns 比较任务
+   */
+  private *diffElement(
+    oldValue: any,
+    newValue: any,
+    path: DiffPath,
+    compared?: DiffNode,
+  ): DiffTask {
+    if (!this.filter.isEmpty && this.filter.excludes(path.toArray(), oldValue, newValue)) {
+      return this.createIgnoredNode(path, oldValue, newValue);
+    }
+    return compared ?? (yield { oldValue, newValue, path });
+  }
+
+  /**
+   * 创建被路径规则过滤的节点
+   * @param path 路径
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @param hasOld 旧值是否存在
+   * @param hasNew 新值是否存在
+   * @returns DiffNode
+   */
+  private createIgnoredNode(
+    path: DiffPath,
+    oldValue: any,
+    newValue: any,
+    hasOld = true,
+    hasNew = true,
+  ): DiffNode {
+    return path.createNode({
+      type: DiffType.IGNORED,
+      valueType: TypeNormalizer.getValueType(hasOld ? oldValue : newValue),
+      ...(hasOld && { oldValue }),
+      ...(hasNew && { newValue }),
+    });
   }
 
   /**
@@ -348,26 +1036,328 @@ export class DiffEngine {
    * @param path 路径
    * @returns DiffNode
    */
-  private diffFunction(oldValue: Function, newValue: Function, path: string[]): DiffNode {
+  private diffFunction(oldValue: Function, newValue: Function, path: DiffPath): DiffNode {
     const oldNormalized = TypeNormalizer.normalizeFunction(oldValue);
     const newNormalized = TypeNormalizer.normalizeFunction(newValue);
 
     if (oldNormalized === newNormalized) {
-      return {
+      return path.createNode({
         type: DiffType.UNCHANGED,
-        path,
         valueType: ValueType.FUNCTION,
         oldValue,
         newValue,
-      };
+      });
     }
-    return {
+    return path.createNode({
       type: DiffType.MODIFIED,
-      path,
       valueType: ValueType.FUNCTION,
       oldValue,
       newValue,
-    };
+    });
+  }
+
+  /**
+   * 比较自定义类型的实例
+   * 优先使用处理器的 diff，其次比较 normalize 的结果，都没有时按对象的键比较
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @param path 路径
+   * @returns 比较任务
+   */
+  private *diffCustom(oldValue: any, newValue: any, path: DiffPath): DiffTask {
+    const handler = TypeRegistry.find(oldValue)!;
+
+    // 两侧属于不同的自定义类型
+    if (TypeRegistry.find(newValue) !== handler) {
+      return Object.assign(
+        this.createModifiedNode(path, oldValue, newValue, ValueType.CUSTOM, ValueType.CUSTOM),
+        { customType: handler.name },
+      );
+    }
+
+    let node: DiffNode;
+    if (handler.diff) {
+      const segments = path.toArray();
+      const handled = handler.diff(oldValue, newValue, {
+        path: segments,
+        diff: (oldChild, newChild, childPath) => this.diff(oldChild, newChild, childPath),
+      });
+      node = { ...handled, path: segments };
+    } else if (handler.normalize) {
+      const equal = LCSArrayDiff.isEqual(handler.normalize(oldValue), handler.normalize(newValue));
+      node = path.createNode({
+        type: equal ? DiffType.UNCHANGED : DiffType.MODIFIED,
+        valueType: ValueType.CUSTOM,
+      });
+    } else {
+      node = yield* this.diffObject(oldValue, newValue, path);
+    }
+
+    return Object.assign(node, {
+      valueType: ValueType.CUSTOM,
+      oldValue,
+      newValue,
+      customType: handler.name,
+    });
+  }
+
+  /**
+   * 比较 Map（按键比较，支持非字符串键）
+   * @param oldValue 旧 Map
+   * @param newValue 新 Map
+   * @param path 路径
+   * @returns 比较任务
+   */
+  private *diffMap(oldValue: Map<any, any>, newValue: Map<any, any>, path: DiffPath): DiffTask {
+    const children: DiffNode[] = [];
+    const matched = this.matchMembers(oldValue.keys(), newValue);
+
+    for (const [key, item] of oldValue) {
+      const childPath = path.child(TypeNormalizer.formatKey(key));
+      if (matched.has(key)) {
+        // 键在两个 Map 中都存在，递归比较
+        const childDiff = yield {
+          oldValue: item,
+          newValue: newValue.get(matched.get(key)),
+          path: childPath,
+        };
+        children.push(Object.assign(childDiff, { mapKey: key }));
+      } else {
+        children.push(
+          childPath.createNode({
+            type: DiffType.DELETED,
+            valueType: TypeNormalizer.getValueType(item),
+            oldValue: item,
+            mapKey: key,
+          }),
+        );
+      }
+    }
+
+    const matchedNew = new Set(matched.values());
+    for (const [key, item] of newValue) {
+      if (!matchedNew.has(key)) {
+        children.push(
+          path.child(TypeNormalizer.formatKey(key)).createNode({
+            type: DiffType.ADDED,
+            valueType: TypeNormalizer.getValueType(item),
+            newValue: item,
+            mapKey: key,
+          }),
+        );
+      }
+    }
+
+    return this.createContainerNode(path, ValueType.MAP, oldValue, newValue, children);
+  }
+
+  /**
+   * 比较 Set（按成员比较）
+   * @param oldValue 旧 Set
+   * @param newValue 新 Set
+   * @param path 路径
+   * @returns DiffNode
+   */
+  private diffSet(oldValue: Set<any>, newValue: Set<any>, path: DiffPath): DiffNode {
+    const children: DiffNode[] = [];
+    const matched = this.matchMembers(oldValue, newValue);
+
+    for (const member of oldValue) {
+      const childPath = path.child(TypeNormalizer.formatKey(member));
+      const valueType = TypeNormalizer.getValueType(member);
+      if (matched.has(member)) {
+        children.push(
+          childPath.createNode({
+            type: DiffType.UNCHANGED,
+            valueType,
+            oldValue: member,
+            newValue: matched.get(member),
+          }),
+        );
+      } else {
+        children.push(
+          childPath.createNode({ type: DiffType.DELETED, valueType, oldValue: member }),
+        );
+      }
+    }
+
+    const matchedNew = new Set(matched.values());
+    for (const member of newValue) {
+      if (!matchedNew.has(member)) {
+        children.push(
+          path.child(TypeNormalizer.formatKey(member)).createNode({
+            type: DiffType.ADDED,
+            valueType: TypeNormalizer.getValueType(member),
+            newValue: member,
+          }),
+        );
+      }
+    }
+
+    return this.createContainerNode(path, ValueType.SET, oldValue, newValue, children);
+  }
+
+  /**
+   * 匹配新旧两侧的 Map 键或 Set 成员
+   * 先按 SameValueZero 匹配，剩余的对象再按深度相等匹配
+   * @param oldItems 旧的键或成员
+   * @param newCollection 新的 Map 或 Set
+   * @returns 旧键（成员）到新键（成员）的映射
+   */
+  private matchMembers(
+    oldItems: Iterable<any>,
+    newCollection: Map<any, any> | Set<any>,
+  ): Map<any, any> {
+    const matched = new Map<any, any>();
+    const pending: any[] = [];
+
+    for (const item of oldItems) {
+      if (newCollection.has(item)) {
+        matched.set(item, item);
+      } else if (this.isObjectLike(item)) {
+        pending.push(item);
+      }
+    }
+
+    if (pending.length > 0) {
+      const candidates = Array.from(newCollection.keys()).filter(
+        (item) => this.isObjectLike(item) && !matched.has(item),
+      );
+      for (const item of pending) {
+        const index = candidates.findIndex((candidate) => LCSArrayDiff.isEqual(item, candidate));
+        if (index !== -1) {
+          matched.set(item, candidates[index]);
+          candidates.splice(index, 1);
+        }
+      }
+    }
+
+    return matched;
+  }
+
+  /**
+   * 创建容器节点，根据子节点判断整体的差异类型
+   */
+  private createContainerNode(
+    path: DiffPath,
+    valueType: ValueType,
+    oldValue: any,
+    newValue: any,
+    children: DiffNode[],
+  ): DiffNode {
+    const hasChanges = children.some(
+      (child) => child.type !== DiffType.UNCHANGED && child.type !== DiffType.IGNORED,
+    );
+    return path.createNode({
+      type: hasChanges ? DiffType.MODIFIED : DiffType.UNCHANGED,
+      valueType,
+      oldValue,
+      newValue,
+      children,
+    });
+  }
+
+  /**
+   * 比较二进制数据（ArrayBuffer、DataView 与类型化数组）
+   * 逐字节比较，修改时附带字节级差异摘要
+   * @param oldValue 旧数据
+   * @param newValue 新数据
+   * @param path 路径
+   * @returns DiffNode
+   */
+  private diffBinary(
+    oldValue: ArrayBuffer | ArrayBufferView,
+    newValue: ArrayBuffer | ArrayBufferView,
+    path: DiffPath,
+  ): DiffNode {
+    const oldBytes = TypeNormalizer.normalizeBytes(oldValue);
+    const newBytes = TypeNormalizer.normalizeBytes(newValue);
+    const common = Math.min(oldBytes.length, newBytes.length);
+
+    let changedBytes = Math.max(oldBytes.length, newBytes.length) - common;
+    let firstChangedOffset = changedBytes > 0 ? common : -1;
+    for (let i = 0; i < common; i++) {
+      if (oldBytes[i] !== newBytes[i]) {
+        if (firstChangedOffset === -1 || i < firstChangedOffset) {
+          firstChangedOffset = i;
+        }
+        changedBytes++;
+      }
+    }
+
+    const sameTag = TypeNormalizer.getBinaryTag(oldValue) === TypeNormalizer.getBinaryTag(newValue);
+    if (sameTag && changedBytes === 0) {
+      return path.createNode({
+        type: DiffType.UNCHANGED,
+        valueType: ValueType.TYPED_ARRAY,
+        oldValue,
+        newValue,
+      });
+    }
+    return path.createNode({
+      type: DiffType.MODIFIED,
+      valueType: ValueType.TYPED_ARRAY,
+      oldValue,
+      newValue,
+      byteDiff: {
+        oldByteLength: oldBytes.length,
+        newByteLength: newBytes.length,
+        changedBytes,
+        firstChangedOffset,
+      },
+    });
+  }
+
+  /**
+   * 比较 Error 对象（按 name、message、stack 逐项比较）
+   * @param oldValue 旧 Error
+   * @param newValue 新 Error
+   * @param path 路径
+   * @returns 比较任务
+   */
+  private *diffError(oldValue: Error, newValue: Error, path: DiffPath): DiffTask {
+    const node = yield* this.diffObject(
+      TypeNormalizer.normalizeError(oldValue),
+      TypeNormalizer.normalizeError(newValue),
+      path,
+    );
+    return Object.assign(node, { valueType: ValueType.ERROR, oldValue, newValue });
+  }
+
+  /**
+   * 比较 URL 对象
+   * @param oldValue 旧 URL
+   * @param newValue 新 URL
+   * @param path 路径
+   * @returns DiffNode
+   */
+  private diffURL(oldValue: URL, newValue: URL, path: DiffPath): DiffNode {
+    const equal = TypeNormalizer.normalizeURL(oldValue) === TypeNormalizer.normalizeURL(newValue);
+    return path.createNode({
+      type: equal ? DiffType.UNCHANGED : DiffType.MODIFIED,
+      valueType: ValueType.URL,
+      oldValue,
+      newValue,
+    });
+  }
+
+  /**
+   * 比较包装对象（类型和原始值都相同时视为未改变）
+   * @param oldValue 旧包装对象
+   * @param newValue 新包装对象
+   * @param path 路径
+   * @returns DiffNode
+   */
+  private diffBoxed(oldValue: any, newValue: any, path: DiffPath): DiffNode {
+    const equal =
+      Object.getPrototypeOf(oldValue) === Object.getPrototypeOf(newValue) &&
+      Object.is(TypeNormalizer.normalizeBoxed(oldValue), TypeNormalizer.normalizeBoxed(newValue));
+    return path.createNode({
+      type: equal ? DiffType.UNCHANGED : DiffType.MODIFIED,
+      valueType: ValueType.BOXED,
+      oldValue,
+      newValue,
+    });
   }
 
   /**
@@ -377,26 +1367,24 @@ export class DiffEngine {
    * @param path 路径
    * @returns DiffNode
    */
-  private diffDate(oldValue: Date, newValue: Date, path: string[]): DiffNode {
+  private diffDate(oldValue: Date, newValue: Date, path: DiffPath): DiffNode {
     const oldTime = TypeNormalizer.normalizeDate(oldValue);
     const newTime = TypeNormalizer.normalizeDate(newValue);
 
     if (oldTime === newTime) {
-      return {
+      return path.createNode({
         type: DiffType.UNCHANGED,
-        path,
         valueType: ValueType.DATE,
         oldValue,
         newValue,
-      };
+      });
     }
-    return {
+    return path.createNode({
       type: DiffType.MODIFIED,
-      path,
       valueType: ValueType.DATE,
       oldValue,
       newValue,
-    };
+    });
   }
 
   /**
@@ -406,26 +1394,24 @@ export class DiffEngine {
    * @param path 路径
    * @returns DiffNode
    */
-  private diffRegExp(oldValue: RegExp, newValue: RegExp, path: string[]): DiffNode {
+  private diffRegExp(oldValue: RegExp, newValue: RegExp, path: DiffPath): DiffNode {
     const oldNormalized = TypeNormalizer.normalizeRegExp(oldValue);
     const newNormalized = TypeNormalizer.normalizeRegExp(newValue);
 
     if (oldNormalized === newNormalized) {
-      return {
+      return path.createNode({
         type: DiffType.UNCHANGED,
-        path,
         valueType: ValueType.REGEXP,
         oldValue,
         newValue,
-      };
+      });
     }
-    return {
+    return path.createNode({
       type: DiffType.MODIFIED,
-      path,
       valueType: ValueType.REGEXP,
       oldValue,
       newValue,
-    };
+    });
   }
 
   /**
@@ -435,26 +1421,24 @@ export class DiffEngine {
    * @param path 路径
    * @returns DiffNode
    */
-  private diffSymbol(oldValue: Symbol, newValue: Symbol, path: string[]): DiffNode {
+  private diffSymbol(oldValue: Symbol, newValue: Symbol, path: DiffPath): DiffNode {
     const oldNormalized = TypeNormalizer.normalizeSymbol(oldValue);
     const newNormalized = TypeNormalizer.normalizeSymbol(newValue);
 
     if (oldNormalized === newNormalized) {
-      return {
+      return path.createNode({
         type: DiffType.UNCHANGED,
-        path,
         valueType: ValueType.SYMBOL,
         oldValue,
         newValue,
-      };
+      });
     }
-    return {
+    return path.createNode({
       type: DiffType.MODIFIED,
-      path,
       valueType: ValueType.SYMBOL,
       oldValue,
       newValue,
-    };
+    });
   }
 
   /**
@@ -465,66 +1449,81 @@ export class DiffEngine {
    */
   compute(oldValue: any, newValue: any): DiffResult {
     // 重置循环引用检测
-    this.circularRefs = new WeakSet();
+    this.oldAncestors = new Map();
+    this.newAncestors = new Map();
+    this.visited = 0;
 
     // 计算 diff
     const root = this.diff(oldValue, newValue);
 
-    // 计算统计信息
-    const stats = this.computeStats(root);
+    // 计算统计信息与相似度
+    const stats = DiffResultBuilder.computeStats(root);
+    const similarity = DiffResultBuilder.computeSimilarity(root, this.options.similarityWeights);
 
     return {
       root,
       stats,
+      similarity,
     };
   }
 
   /**
-   * 计算统计信息
-   * @param node 根节点
-   * @returns 统计信息
+   * 异步计算完整的 diff 结果
+   * 与 compute 使用同一个调度循环，每比较 yieldEvery 个节点让出一次事件循环并报告进度
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @param options 调度选项
+   * @returns 与 compute 相同的 DiffResult；取消时以 signal.reason 拒绝
    */
-  private computeStats(node: DiffNode): {
-    added: number;
-    deleted: number;
-    modified: number;
-    unchanged: number;
-  } {
-    const stats = {
-      added: 0,
-      deleted: 0,
-      modified: 0,
-      unchanged: 0,
-    };
+  async computeAsync(
+    oldValue: any,
+    newValue: any,
+    options: AsyncComputeOptions = {},
+  ): Promise<DiffResult> {
+    const { signal, yieldEvery = 1000, onProgress } = options;
+    if (!(yieldEvery >= 1)) {
+      throw new Error(`yieldEvery must be a positive number, got: ${yieldEvery}`);
+    }
+    signal?.throwIfAborted();
 
-    const traverse = (n: DiffNode) => {
-      // 统计当前节点
-      switch (n.type) {
-        case DiffType.ADDED:
-          stats.added++;
-          break;
-        case DiffType.DELETED:
-          stats.deleted++;
-          break;
-        case DiffType.MODIFIED:
-          stats.modified++;
-          break;
-        case DiffType.UNCHANGED:
-          stats.unchanged++;
-          break;
-      }
+    // 重置循环引用检测
+    this.oldAncestors = new Map();
+    this.newAncestors = new Map();
+    this.visited = 0;
 
-      // 递归统计子节点
-      if (n.children) {
-        for (const child of n.children) {
-          traverse(child);
-        }
-      }
-    };
+    const estimated = onProgress
+      ? Math.max(DiffEngine.estimateSize(oldValue), DiffEngine.estimateSize(newValue))
+      : 0;
 
-    traverse(node);
+    const run = this.run(oldValue, newValue, DiffPath.root, Math.floor(yieldEvery));
+    let step = run.next();
+    while (!step.done) {
+      onProgress?.({ visited: this.visited, estimatedTotal: Math.max(estimated, this.visited) });
+      await new Promise<void>((resolve) => setTimeout(resolve, 0));
+      signal?.throwIfAborted();
+      step = run.next();
+    }
+
+    const root = step.value;
+    onProgress?.({ visited: this.visited, estimatedTotal: this.visited });
+
+    return {
+      root,
+      stats: DiffResultBuilder.computeStats(root),
+      similarity: DiffResultBuilder.computeSimilarity(root, this.options.similarityWeights),
+    };
+  }
 
-    return stats;
+  /**
+   * 估算比较一个值需要访问的节点数（用于进度报告与折叠节点的 size）
+   * 迭代遍历对象、数组、Map 与 Set，重复出现的引用只展开一次
+   * @param value 值
+   * @returns 节点数
+   */
+  private static estimateSize(value: any): number {
+    let count = 0;
+    DiffResultBuilder.forEachValue(value, () => count++);
+    return count;
   }
 }
 
@@ -539,3 +1538,35 @@ export function diff(oldValue: any, newValue: any, options?: DiffOptions): DiffR
   const engine = new DiffEngine(options);
   return engine.compute(oldValue, newValue);
 }
+
+/**
+ * 便捷函数：异步计算两个值的差异
+ * 比较过程分块进行并定期让出事件循环，可通过 signal 取消
+ * @param oldValue 旧值
+ * @param newValue 新值
+ * @param options 配置选项
+ * @returns 与 diff 相同的 DiffResult
+ */
+export function diffAsync(
+  oldValue: any,
+  newValue: any,
+  options: AsyncDiffOptions = {},
+): Promise<DiffResult> {
+  const { signal, yieldEvery, onProgress, ...diffOptions } = options;
+  const engine = new DiffEngine(diffOptions);
+  return engine.computeAsync(oldValue, newValue, { signal, yieldEvery, onProgress });
+}
+
+/**
+ * 便捷函数：计算两个值的相似度
+ * 基于两者的差异按子树大小加权，可通过 similarityWeights 为路径配置权重
+ * @param oldValue 旧值
+ * @param newValue 新值
+ * @param options 配置选项
+ * @returns 0 到 1 之间的相似度（1 表示没有差异）
+ */
+export function similarity(oldValue: any, newValue: any, options?: DiffOptions): number {
+  const engine = new DiffEngine(options);
+  const root = engine.diff(oldValue, newValue);
+  return DiffResultBuilder.computeSimilarity(root, options?.similarityWeights);
+}
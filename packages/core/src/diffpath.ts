@@ -0,0 +1,164 @@
+import { DiffNode } from "./types";
+
+/**
+ * 路径长度不超过该值的节点直接保存路径数组
+ */
+const EAGER_PATH_LENGTH = 256;
+
+/**
+ * 引擎内部使用的路径
+ * 子路径链接到父路径而不是复制数组，嵌套 n 层的文档只占用 O(n) 的路径空间
+ */
+export class DiffPath {
+  static readonly root = new DiffPath(undefined, "", 0);
+  private static lazyPaths = new WeakMap<Function, DiffPath>(); // 延迟路径的 getter 及其对应的路径
+
+  private constructor(
+    readonly parent: DiffPath | undefined,
+    readonly key: string,
+    readonly length: number,
+  ) {}
+
+  /**
+   * 从路径数组创建路径
+   * @param segments 路径数组
+   * @returns DiffPath
+   */
+  static from(segments: string[]): DiffPath {
+    let path = DiffPath.root;
+    for (const segment of segments) {
+      path = path.child(segment);
+    }
+    return path;
+  }
+
+  /**
+   * 创建子路径
+   * @param key 子路径片段
+   * @returns DiffPath
+   */
+  child(key: string): DiffPath {
+    return new DiffPath(this, key, this.length + 1);
+  }
+
+  /**
+   * 生成路径数组
+   * @returns 新的路径数组
+   */
+  toArray(): string[] {
+    const segments: string[] = [];
+    segments.length = this.length;
+    if (this.length === 0) {
+      return segments;
+    }
+
+    // 从当前片段开始沿父路径向前填充
+    segments[this.length - 1] = this.key;
+    let parent = this.parent!;
+    for (let i = this.length - 2; i >= 0; i--) {
+      segments[i] = parent.key;
+      parent = parent.parent!;
+    }
+    return segments;
+  }
+
+  /**
+   * 创建位于该路径的节点
+   * 浅层节点直接保存路径数组；深层节点在首次读取 path 时才生成数组，
+   * 否则逐层复制的路径数组会占用与深度成平方的内存
+   * @param fields 除 path 外的节点字段
+   * @returns DiffNode
+   */
+  createNode(fields: Omit<DiffNode, "path">): DiffNode {
+    // 先写入 type 与 path，保持节点字段的顺序
+    const node = { type: fields.type } as DiffNode;
+    if (this.length <= EAGER_PATH_LENGTH) {
+      node.path = this.toArray();
+    } else {
+      DiffPath.defineLazyPath(node, this);
+    }
+    return Object.assign(node, fields);
+  }
+
+  /**
+   * 将节点的路径复制到另一个节点，尚未生成的延迟路径保持延迟
+   * @param source 源节点
+   * @param target 目标节点
+   */
+  static copyPath(source: DiffNode, target: DiffNode): void {
+    const descriptor = Object.getOwnPropertyDescriptor(source, "path");
+    if (descriptor?.get) {
+      Object.defineProperty(target, "path", descriptor);
+    } else {
+      target.path = [...source.path];
+    }
+  }
+
+  /**
+   * 判断节点是否有路径（不会生成延迟路径）
+   * @param node 节点
+   * @returns 是否有路径
+   */
+  static hasPath(node: DiffNode): boolean {
+    return this.lazyPathOf(node) !== undefined || Boolean(node.path);
+  }
+
+  /**
+   * 获取节点路径的长度（不会生成延迟路径）
+   * @param node 节点
+   * @returns 路径长度
+   */
+  static lengthOf(node: DiffNode): number {
+    return this.lazyPathOf(node)?.length ?? node.path.length;
+  }
+
+  /**
+   * 获取节点路径的最后一个片段（不会生成延迟路径）
+   * @param node 节点
+   * @returns 最后一个片段，根节点返回 undefined
+   */
+  static lastKeyOf(node: DiffNode): string | undefined {
+    const lazy = this.lazyPathOf(node);
+    if (lazy) {
+      return lazy.length > 0 ? lazy.key : undefined;
+    }
+    return node.path[node.path.length - 1];
+  }
+
+  /**
+   * 获取节点尚未生成的延迟路径
+   */
+  private static lazyPathOf(node: DiffNode): DiffPath | undefined {
+    const getter = Object.getOwnPropertyDescriptor(node, "path")?.get;
+    return getter && this.lazyPaths.get(getter);
+  }
+
+  /**
+   * 为节点定义延迟生成的 path 属性（首次读取或赋值后变为普通属性）
+   */
+  private static defineLazyPath(node: DiffNode, path: DiffPath): void {
+    const settle = (target: DiffNode, value: string[]) => {
+      Object.defineProperty(target, "path", {
+        value,
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+      return value;
+    };
+
+    const get = function (this: DiffNode) {
+      return settle(this, path.toArray());
+    };
+    this.lazyPaths.set(get, path);
+
+    Object.defineProperty(node, "path", {
+      get,
+      set(this: DiffNode, value: string[]) {
+        settle(this, value);
+      },
+      enumerable: true,
+      configurable: true,
+    });
+  }
+}
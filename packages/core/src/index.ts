@@ -4,5 +4,20 @@
 export * from "./types";
 export * from "./normalizer";
 export * from "./lcs";
+export * from "./sequence";
 export * from "./diff";
 export * from "./result";
+export * from "./jsonpatch";
+export * from "./summary";
+export * from "./query";
+export * from "./walk";
+export * from "./apply";
+export * from "./merge";
+export * from "./pathpattern";
+export * from "./pathfilter";
+export * from "./comparator";
+export * from "./numeric";
+export * from "./textdiff";
+export * from "./typeregistry";
+export * from "./transfer";
+export * from "./workerpool";
@@ -0,0 +1,231 @@
+import { DiffType, ValueType, DiffNode, DiffResult } from "./types";
+import { LCSArrayDiff } from "./lcs";
+import { DiffResultBuilder } from "./result";
+
+/**
+ * RFC 6902 JSON Patch 操作
+ */
+export interface JsonPatchOperation {
+  op: "add" | "remove" | "replace" | "move";
+  path: string; // RFC 6901 JSON Pointer
+  value?: any; // add / replace 时的值
+  from?: string; // move 时的源路径
+}
+
+/**
+ * JSON Patch 导出器
+ * 将 DiffResult 转换为 RFC 6902 操作序列
+ */
+export class JsonPatchExporter {
+  /**
+   * 转义 JSON Pointer 中的单个路径片段（RFC 6901）
+   * "~" 转为 "~0"，"/" 转为 "~1"
+   * @param token 路径片段
+   * @returns 转义后的片段
+   */
+  static escapePointerToken(token: string): string {
+    return token.replace(/~/g, "~0").replace(/\//g, "~1");
+  }
+
+  /**
+   * 反转义 JSON Pointer 中的单个路径片段
+   * @param token 转义后的片段
+   * @returns 原始片段
+   */
+  static unescapePointerToken(token: string): string {
+    return token.replace(/~1/g, "/").replace(/~0/g, "~");
+  }
+
+  /**
+   * 将路径数组转换为 JSON Pointer
+   * @param path 路径数组
+   * @returns JSON Pointer（根路径为空字符串）
+   */
+  static toPointer(path: string[]): string {
+    return path.map((token) => "/" + this.escapePointerToken(token)).join("");
+  }
+
+  /**
+   * 将 JSON Pointer 解析为路径数组
+   * @param pointer JSON Pointer
+   * @returns 路径数组
+   */
+  static parsePointer(pointer: string): string[] {
+    if (pointer === "") {
+      return [];
+    }
+    if (!pointer.startsWith("/")) {
+      throw new Error(`Invalid JSON Pointer: ${pointer}`);
+    }
+    return pointer
+      .slice(1)
+      .split("/")
+      .map((token) => this.unescapePointerToken(token));
+  }
+
+  /**
+   * 从 DiffResult 生成 JSON Patch
+   * 按顺序应用生成的操作即可将旧值转换为新值
+   * @param result Diff 结果
+   * @returns JSON Patch 操作序列
+   */
+  static fromDiffResult(result: DiffResult): JsonPatchOperation[] {
+    return this.fromNode(result.root);
+  }
+
+  /**
+   * 从 DiffNode 生成 JSON Patch
+   * @param node 差异节点
+   * @returns JSON Patch 操作序列
+   */
+  static fromNode(node: DiffNode): JsonPatchOperation[] {
+    const ops: JsonPatchOperation[] = [];
+    this.collect(node, [], ops);
+    return ops;
+  }
+
+  /**
+   * 递归收集节点对应的操作
+   * @param node 当前节点
+   * @param pointerPath 当前节点在目标文档中的路径（数组下标已按前序操作修正）
+   * @param ops 操作序列
+   */
+  private static collect(node: DiffNode, pointerPath: string[], ops: JsonPatchOperation[]): void {
+    switch (node.type) {
+      case DiffType.UNCHANGED:
+      case DiffType.IGNORED:
+        return;
+      case DiffType.ADDED:
+        ops.push({ op: "add", path: this.toPointer(pointerPath), value: node.newValue });
+        return;
+      case DiffType.DELETED:
+        ops.push({ op: "remove", path: this.toPointer(pointerPath) });
+        return;
+      case DiffType.MODIFIED:
+      case DiffType.MOVED:
+        // 移动操作由父数组生成，这里只处理其内部差异
+        break;
+    }
+
+    // 达到 maxDepth 的节点只记录了占位字符串，没有可以导出的值
+    if (node.truncated) {
+      throw new Error(
+        `Cannot export ${DiffResultBuilder.buildJsonPath(node.path)}: diff truncated by maxDepth`,
+      );
+    }
+
+    // 移动但内容未变化的元素
+    if (node.type === DiffType.MOVED && !node.children) {
+      if (!LCSArrayDiff.isEqual(node.oldValue, node.newValue)) {
+        ops.push({ op: "replace", path: this.toPointer(pointerPath), value: node.newValue });
+      }
+      return;
+    }
+
+    // 叶子节点、类型变化的节点以及 JSON Pointer 无法寻址内部的 Map / Set / Error / 自定义类型，直接整体替换
+    if (
+      !node.children ||
+      node.valueType === ValueType.MAP ||
+      node.valueType === ValueType.SET ||
+      node.valueType === ValueType.ERROR ||
+      node.valueType === ValueType.CUSTOM
+    ) {
+      ops.push({ op: "replace", path: this.toPointer(pointerPath), value: node.newValue });
+      return;
+    }
+
+    if (node.valueType === ValueType.ARRAY) {
+      // 省略了元素的数组无法推算下标，由 resolveArrayIndices 报错
+      if (node.omitted || node.children.some((child) => child.fromIndex !== undefined)) {
+        this.collectArrayWithMoves(node, pointerPath, ops);
+        return;
+      }
+
+      // 数组子节点按操作顺序排列，delete 节点的 path 使用旧下标，
+      // 因此需要维护一个游标记录元素在当前（已部分应用）数组中的位置
+      let cursor = 0;
+      for (const child of node.children) {
+        const childPath = [...pointerPath, String(cursor)];
+        this.collect(child, childPath, ops);
+        if (child.type !== DiffType.DELETED) {
+          cursor++;
+        }
+      }
+      return;
+    }
+
+    for (const child of node.children) {
+      const key = child.path[child.path.length - 1];
+      this.collect(child, [...pointerPath, key], ops);
+    }
+  }
+
+  /**
+   * 收集包含移动元素的数组的操作
+   * 模拟数组在依次应用操作过程中的状态，以计算每个操作的实际下标
+   * @param node 数组节点
+   * @param pointerPath 数组在目标文档中的路径
+   * @param ops 操作序列
+   */
+  private static collectArrayWithMoves(
+    node: DiffNode,
+    pointerPath: string[],
+    ops: JsonPatchOperation[],
+  ): void {
+    const indices = DiffResultBuilder.resolveArrayIndices(node);
+    // 当前数组状态：旧元素以旧下标表示，新插入的元素以对应的子节点表示
+    const current: Array<number | DiffNode> = Array.from(
+      { length: indices.reduce((count, i) => (i.oldIndex === undefined ? count : count + 1), 0) },
+      (_, i) => i,
+    );
+    // 最近一个已放到最终位置的元素
+    let previous: number | DiffNode | undefined;
+    const insertPosition = () => (previous === undefined ? 0 : current.indexOf(previous) + 1);
+    const pointerAt = (position: number) => this.toPointer([...pointerPath, String(position)]);
+
+    node.children!.forEach((child, i) => {
+      const { oldIndex } = indices[i];
+
+      switch (child.type) {
+        case DiffType.ADDED: {
+          const position = insertPosition();
+          ops.push({ op: "add", path: pointerAt(position), value: child.newValue });
+          current.splice(position, 0, child);
+          previous = child;
+          break;
+        }
+        case DiffType.DELETED: {
+          const position = current.indexOf(oldIndex!);
+          ops.push({ op: "remove", path: pointerAt(position) });
+          current.splice(position, 1);
+          break;
+        }
+        default: {
+          let position = current.indexOf(oldIndex!);
+          // 移动的元素以及无序比较的元素先放到最终位置
+          if (child.fromIndex !== undefined) {
+            const from = position;
+            current.splice(from, 1);
+            position = insertPosition();
+            current.splice(position, 0, oldIndex!);
+            if (from !== position) {
+              ops.push({ op: "move", from: pointerAt(from), path: pointerAt(position) });
+            }
+          }
+          this.collect(child, [...pointerPath, String(position)], ops);
+          previous = oldIndex;
+          break;
+        }
+      }
+    });
+  }
+}
+
+/**
+ * 便捷函数：将 diff 结果转换为 RFC 6902 JSON Patch
+ * @param result Diff 结果
+ * @returns JSON Patch 操作序列
+ */
+export function toJsonPatch(result: DiffResult): JsonPatchOperation[] {
+  return JsonPatchExporter.fromDiffResult(result);
+}
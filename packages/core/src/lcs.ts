@@ -1,13 +1,63 @@
 import { TypeNormalizer } from "./normalizer";
+import { SequenceMatcher, SequenceMatch } from "./sequence";
+import { CustomComparators } from "./comparator";
+import { PathFilter } from "./pathfilter";
+import { TypeRegistry } from "./typeregistry";
+import { NumericEquality } from "./numeric";
+import { NumericOptions } from "./types";
 
 /**
  * 数组 Diff 操作类型
  */
 export interface ArrayDiffOp {
-  type: "add" | "delete" | "keep" | "modify";
+  type: "add" | "delete" | "keep" | "modify" | "move";
   index: number;
   value: any;
   newValue?: any;
+  fromIndex?: number; // move 操作中元素在旧数组中的下标
+}
+
+/**
+ * 数组元素身份键提取函数，返回 undefined 表示该元素没有身份
+ */
+export type ArrayKeyOf = (item: any) => string | number | undefined;
+
+/**
+ * 元素相等判断函数
+ */
+export type ElementEquals = (a: any, b: any) => boolean;
+
+/**
+ * 元素相似判断函数（index 为配对后元素在新数组中的下标）
+ */
+export type ElementSimilar = (oldValue: any, newValue: any, index: number) => boolean;
+
+/**
+ * 数组匹配算法
+ * - myers：Myers O(ND) 算法，适合大部分元素相同的长数组
+ * - patience：以唯一元素为锚点，重排较多时结果更符合直觉
+ * - lcs：经典动态规划，区间过大时自动回退到 myers
+ */
+export type ArrayDiffAlgorithm = "myers" | "patience" | "lcs";
+
+/**
+ * 相等判断选项
+ */
+export interface EqualityOptions {
+  comparators?: CustomComparators; // 自定义比较器
+  numeric?: NumericOptions; // 数值比较选项
+  filter?: PathFilter; // 路径忽略 / 包含规则（被忽略的路径不参与比较）
+}
+
+/**
+ * 数组 diff 配置选项
+ */
+export interface ArrayDiffOptions extends EqualityOptions {
+  keyOf?: ArrayKeyOf; // 身份键提取函数
+  detectMoves?: boolean; // 是否将相等元素的 delete + add 识别为 move（默认 false）
+  algorithm?: ArrayDiffAlgorithm; // 匹配算法（默认 lcs）
+  path?: string[]; // 数组所在的路径（自定义比较器与路径规则按路径匹配）
+  similar?: ElementSimilar; // 被删除与新增的元素是否足够相似、可以配对为 modify（默认只要求类型相同）
 }
 
 /**
@@ -20,9 +70,14 @@ export class LCSArrayDiff {
    * 使用动态规划算法
    * @param arr1 第一个数组
    * @param arr2 第二个数组
+   * @param equals 元素相等判断（默认深度比较）
    * @returns LCS 动态规划表
    */
-  static computeLCS<T>(arr1: T[], arr2: T[]): number[][] {
+  static computeLCS<T>(
+    arr1: T[],
+    arr2: T[],
+    equals: ElementEquals = (a, b) => this.isEqual(a, b),
+  ): number[][] {
     const m = arr1.length;
     const n = arr2.length;
     const dp: number[][] = Array(m + 1)
@@ -31,7 +86,7 @@ export class LCSArrayDiff {
 
     for (let i = 1; i <= m; i++) {
       for (let j = 1; j <= n; j++) {
-        if (this.isEqual(arr1[i - 1], arr2[j - 1])) {
+        if (equals(arr1[i - 1], arr2[j - 1])) {
           dp[i][j] = dp[i - 1][j - 1] + 1;
         } else {
           dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
@@ -44,57 +99,71 @@ export class LCSArrayDiff {
 
   /**
    * 从 LCS 表回溯生成 diff 操作序列
+   * 从 (i, j) 向前迭代回溯，再反转为正序
    * @param arr1 第一个数组
    * @param arr2 第二个数组
    * @param dp LCS 动态规划表
    * @param i 当前在 arr1 中的位置
    * @param j 当前在 arr2 中的位置
+   * @param equals 元素相等判断（默认深度比较）
    * @returns diff 操作序列
    */
-  static backtrack<T>(arr1: T[], arr2: T[], dp: number[][], i: number, j: number): ArrayDiffOp[] {
-    if (i === 0 && j === 0) return [];
-
-    if (i === 0) {
-      return [
-        ...this.backtrack(arr1, arr2, dp, i, j - 1),
-        { type: "add", index: j - 1, value: arr2[j - 1] },
-      ];
-    }
-
-    if (j === 0) {
-      return [
-        ...this.backtrack(arr1, arr2, dp, i - 1, j),
-        { type: "delete", index: i - 1, value: arr1[i - 1] },
-      ];
-    }
+  static backtrack<T>(
+    arr1: T[],
+    arr2: T[],
+    dp: number[][],
+    i: number,
+    j: number,
+    equals: ElementEquals = (a, b) => this.isEqual(a, b),
+  ): ArrayDiffOp[] {
+    const ops: ArrayDiffOp[] = [];
 
-    if (this.isEqual(arr1[i - 1], arr2[j - 1])) {
-      return [
-        ...this.backtrack(arr1, arr2, dp, i - 1, j - 1),
-        { type: "keep", index: i - 1, value: arr1[i - 1] },
-      ];
+    while (i > 0 || j > 0) {
+      if (i === 0) {
+        ops.push({ type: "add", index: j - 1, value: arr2[j - 1] });
+        j--;
+      } else if (j === 0) {
+        ops.push({ type: "delete", index: i - 1, value: arr1[i - 1] });
+        i--;
+      } else if (equals(arr1[i - 1], arr2[j - 1])) {
+        ops.push({ type: "keep", index: i - 1, value: arr1[i - 1] });
+        i--;
+        j--;
+      } else if (dp[i - 1][j] > dp[i][j - 1]) {
+        ops.push({ type: "delete", index: i - 1, value: arr1[i - 1] });
+        i--;
+      } else {
+        ops.push({ type: "add", index: j - 1, value: arr2[j - 1] });
+        j--;
+      }
     }
 
-    if (dp[i - 1][j] > dp[i][j - 1]) {
-      return [
-        ...this.backtrack(arr1, arr2, dp, i - 1, j),
-        { type: "delete", index: i - 1, value: arr1[i - 1] },
-      ];
-    } else {
-      return [
-        ...this.backtrack(arr1, arr2, dp, i, j - 1),
-        { type: "add", index: j - 1, value: arr2[j - 1] },
-      ];
-    }
+    return ops.reverse();
   }
 
   /**
    * 深度比较两个值是否相等
+   * 提供自定义比较器时，匹配的路径优先使用比较器的结果
    * @param a 第一个值
    * @param b 第二个值
+   * @param options 相等判断选项（可选）
+   * @param path 当前路径（用于匹配比较器）
    * @returns 是否相等
    */
-  static isEqual(a: any, b: any): boolean {
+  static isEqual(a: any, b: any, options: EqualityOptions = {}, path: string[] = []): boolean {
+    const { comparators, filter } = options;
+    // 只有按路径匹配的规则需要跟踪路径
+    const tracksPath = comparators !== undefined || filter !== undefined;
+    if (comparators) {
+      const custom = comparators.compare(a, b, path);
+      if (custom) return custom === "unchanged";
+    }
+
+    // 数值按数值比较选项判断（NaN、正负零与误差）
+    if (typeof a === "number" && typeof b === "number") {
+      return NumericEquality.equals(a, b, options.numeric);
+    }
+
     // 处理原始类型
     if (a === b) return true;
 
@@ -120,37 +189,477 @@ export class LCSArrayDiff {
         return TypeNormalizer.normalizeSymbol(a) === TypeNormalizer.normalizeSymbol(b);
       case "array":
         if (a.length !== b.length) return false;
-        return a.every((item: any, index: number) => this.isEqual(item, b[index]));
+        return a.every((item: any, index: number) => {
+          const itemPath = tracksPath ? [...path, String(index)] : path;
+          return (
+            filter?.excludes(itemPath, item, b[index]) ||
+            this.isEqual(item, b[index], options, itemPath)
+          );
+        });
       case "object":
-        const keysA = Object.keys(a);
-        const keysB = Object.keys(b);
-        if (keysA.length !== keysB.length) return false;
-        return keysA.every((key) => keysB.includes(key) && this.isEqual(a[key], b[key]));
+        return this.isObjectEqual(a, b, options, path);
+      case "custom": {
+        // 自定义类型比较规范化后的值，没有 normalize 时按对象的键比较
+        const handler = TypeRegistry.find(a)!;
+        if (handler !== TypeRegistry.find(b)) return false;
+        if (handler.normalize) {
+          return this.isEqual(handler.normalize(a), handler.normalize(b), options, path);
+        }
+        return this.isObjectEqual(a, b, options, path);
+      }
+      case "map": {
+        if (a.size !== b.size) return false;
+        const entriesB = Array.from(b as Map<any, any>);
+        for (const [key, value] of a as Map<any, any>) {
+          const keyPath = tracksPath ? [...path, TypeNormalizer.formatKey(key)] : path;
+          // 先按 SameValueZero 查找键，对象键再按深度相等查找
+          const index = b.has(key)
+            ? entriesB.findIndex((entry) => Object.is(entry[0], key) || entry[0] === key)
+            : entriesB.findIndex((entry) => this.isEqual(key, entry[0]));
+          if (index === -1 || !this.isEqual(value, entriesB[index][1], options, keyPath)) {
+            return false;
+          }
+          entriesB.splice(index, 1);
+        }
+        return true;
+      }
+      case "set": {
+        if (a.size !== b.size) return false;
+        const membersB = Array.from(b as Set<any>);
+        for (const member of a as Set<any>) {
+          const index = b.has(member)
+            ? membersB.findIndex((item) => Object.is(item, member) || item === member)
+            : membersB.findIndex((item) => this.isEqual(member, item));
+          if (index === -1) return false;
+          membersB.splice(index, 1);
+        }
+        return true;
+      }
+      case "typedarray": {
+        if (TypeNormalizer.getBinaryTag(a) !== TypeNormalizer.getBinaryTag(b)) return false;
+        const bytesA = TypeNormalizer.normalizeBytes(a);
+        const bytesB = TypeNormalizer.normalizeBytes(b);
+        return bytesA.length === bytesB.length && bytesA.every((byte, i) => byte === bytesB[i]);
+      }
+      case "error": {
+        const errorA = TypeNormalizer.normalizeError(a);
+        const errorB = TypeNormalizer.normalizeError(b);
+        return (
+          errorA.name === errorB.name &&
+          errorA.message === errorB.message &&
+          errorA.stack === errorB.stack
+        );
+      }
+      case "url":
+        return TypeNormalizer.normalizeURL(a) === TypeNormalizer.normalizeURL(b);
+      case "boxed":
+        return (
+          Object.getPrototypeOf(a) === Object.getPrototypeOf(b) &&
+          Object.is(TypeNormalizer.normalizeBoxed(a), TypeNormalizer.normalizeBoxed(b))
+        );
       default:
         // 原始类型已经在开头处理
         return a === b;
     }
   }
 
+  /**
+   * 按自有可枚举键比较两个对象
+   */
+  private static isObjectEqual(a: any, b: any, options: EqualityOptions, path: string[]): boolean {
+    const { comparators, filter } = options;
+    const tracksPath = comparators !== undefined || filter !== undefined;
+    // 被忽略的键不参与比较
+    const keysA = Object.keys(a).filter((key) => !filter?.excludes([...path, key], a[key]));
+    const keysB = Object.keys(b).filter((key) => !filter?.excludes([...path, key], b[key]));
+    if (keysA.length !== keysB.length) return false;
+    return keysA.every(
+      (key) =>
+        keysB.includes(key) &&
+        this.isEqual(a[key], b[key], options, tracksPath ? [...path, key] : path),
+    );
+  }
+
+  /**
+   * 计算值的哈希
+   * 与 isEqual 保持一致：isEqual 判定相等的两个值哈希相同（对象的哈希与键的顺序无关）
+   * 由自定义比较器接管的子树和被忽略的路径不参与哈希，配置了数值误差时所有数值的哈希相同
+   * @param value 值
+   * @param options 相等判断选项（可选）
+   * @param path 值所在的路径
+   * @returns 32 位整数哈希
+   */
+  static hash(value: any, options: EqualityOptions = {}, path: string[] = []): number {
+    const exactNumbers = !NumericEquality.hasTolerance(options.numeric);
+    return this.hashValue(value, new Set(), options, exactNumbers, path);
+  }
+
+  /**
+   * 递归计算哈希，ancestors 用于跳过循环引用
+   */
+  private static hashValue(
+    value: any,
+    ancestors: Set<object>,
+    options: EqualityOptions,
+    exactNumbers: boolean,
+    path: string[],
+  ): number {
+    const { comparators, filter } = options;
+    const tracksPath = comparators !== undefined || filter !== undefined;
+    if (comparators?.matchesValue(path, value)) {
+      return 0;
+    }
+    if (value === null || value === undefined) {
+      return this.hashString(String(value));
+    }
+
+    const type = TypeNormalizer.getValueType(value);
+    switch (type) {
+      case "function":
+        return this.hashString("f:" + TypeNormalizer.normalizeFunction(value));
+      case "date":
+        return this.hashString("d:" + TypeNormalizer.normalizeDate(value));
+      case "regexp":
+        return this.hashString("r:" + TypeNormalizer.normalizeRegExp(value));
+      case "symbol":
+        return this.hashString("s:" + TypeNormalizer.normalizeSymbol(value));
+      case "array":
+      case "object": {
+        if (ancestors.has(value)) {
+          return 0;
+        }
+        ancestors.add(value);
+        let hash: number;
+        if (type === "array") {
+          hash = this.hashString("a:" + value.length);
+          value.forEach((item: any, index: number) => {
+            const itemPath = tracksPath ? [...path, String(index)] : path;
+            const itemHash = filter?.excludes(itemPath, item)
+              ? 0
+              : this.hashValue(item, ancestors, options, exactNumbers, itemPath);
+            hash = (Math.imul(hash, 31) + itemHash) | 0;
+          });
+        } else {
+          // 各属性的哈希相加，与键的顺序无关
+          const keys = Object.keys(value).filter(
+            (key) => !filter?.excludes([...path, key], value[key]),
+          );
+          hash = this.hashString("o:" + keys.length);
+          for (const key of keys) {
+            const keyPath = tracksPath ? [...path, key] : path;
+            const entry =
+              Math.imul(this.hashString(key), 31) ^
+              this.hashValue(value[key], ancestors, options, exactNumbers, keyPath);
+            hash = (hash + entry) | 0;
+          }
+        }
+        ancestors.delete(value);
+        return hash;
+      }
+      case "map":
+      case "set": {
+        if (ancestors.has(value)) {
+          return 0;
+        }
+        ancestors.add(value);
+        // 各条目的哈希相加，与插入顺序无关
+        let hash = this.hashString(type + ":" + value.size);
+        for (const [key, item] of type === "map" ? value : Array.from(value, (m: any) => [m, m])) {
+          const itemPath = tracksPath ? [...path, TypeNormalizer.formatKey(key)] : path;
+          const entry =
+            type === "map"
+              ? Math.imul(this.hashValue(key, ancestors, {}, true, path), 31) ^
+                this.hashValue(item, ancestors, options, exactNumbers, itemPath)
+              : this.hashValue(item, ancestors, {}, true, path);
+          hash = (hash + entry) | 0;
+        }
+        ancestors.delete(value);
+        return hash;
+      }
+      case "custom": {
+        // 没有 normalize 的自定义类型只按类型名取哈希，由 isEqual 确认相等
+        const handler = TypeRegistry.find(value)!;
+        const nameHash = this.hashString("c:" + handler.name);
+        if (!handler.normalize) {
+          return nameHash;
+        }
+        return (
+          nameHash ^
+          this.hashValue(handler.normalize(value), ancestors, options, exactNumbers, path)
+        );
+      }
+      case "typedarray": {
+        // 只对前 256 个字节取哈希，相等的数据哈希仍然相同
+        const bytes = TypeNormalizer.normalizeBytes(value);
+        const head = Array.from(bytes.subarray(0, 256)).join(",");
+        return this.hashString(`t:${TypeNormalizer.getBinaryTag(value)}:${bytes.length}:${head}`);
+      }
+      case "error":
+        return this.hashString("e:" + value.name + ":" + value.message);
+      case "url":
+        return this.hashString("u:" + TypeNormalizer.normalizeURL(value));
+      case "boxed": {
+        const primitive = TypeNormalizer.normalizeBoxed(value);
+        return this.hashString("b:" + typeof primitive + ":" + String(primitive));
+      }
+      default:
+        if (typeof value === "number" && !exactNumbers) {
+          return this.hashString("number");
+        }
+        // 原始类型：-0 与 0 的字符串形式相同
+        return this.hashString(typeof value + ":" + String(value));
+    }
+  }
+
+  /**
+   * FNV-1a 字符串哈希（元素哈希与子树哈希共用）
+   * @param str 字符串
+   * @returns 32 位整数哈希
+   */
+  static hashString(str: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < str.length; i++) {
+      hash = Math.imul(hash ^ str.charCodeAt(i), 0x01000193);
+    }
+    return hash | 0;
+  }
+
+  /**
+   * 将两个数组的元素映射为整数 id，相等的元素（或身份键相同的元素）具有相同的 id
+   * 先按哈希（或身份键）分桶，桶内再用相等判断确认，因此哈希冲突不影响结果
+   * 有身份键的元素只与身份键相同的元素相等，没有身份键的元素深度比较，被忽略的元素按下标对齐
+   * @param arr1 第一个数组
+   * @param arr2 第二个数组
+   * @param keyOf 身份键提取函数（可选）
+   * @param equality 相等判断选项（可选）
+   * @param path 数组所在的路径（元素路径为 path + 元素在各自数组中的下标）
+   * @returns 两个数组对应的 id 序列
+   */
+  static toIds(
+    arr1: any[],
+    arr2: any[],
+    keyOf?: ArrayKeyOf,
+    equality: EqualityOptions = {},
+    path: string[] = [],
+  ): [Int32Array, Int32Array] {
+    const tracksPath = equality.comparators !== undefined || equality.filter !== undefined;
+    const buckets = new Map<number | string, Array<{ value: any; id: number }>>();
+    let nextId = 0;
+
+    const idOf = (item: any, index: number): number => {
+      const itemPath = tracksPath ? [...path, String(index)] : path;
+      // 被忽略的元素只与另一侧相同下标的元素对齐
+      const ignored = equality.filter?.excludes(itemPath, item) ?? false;
+      const key = ignored ? `ignored:${index}` : keyOf?.(item);
+      const bucketKey =
+        key === undefined ? this.hash(item, equality, itemPath) : `${typeof key}:${key}`;
+      let bucket = buckets.get(bucketKey);
+      if (!bucket) {
+        bucket = [];
+        buckets.set(bucketKey, bucket);
+      }
+      for (const entry of bucket) {
+        // 身份键的桶内元素键都相同
+        if (key !== undefined || this.isEqual(entry.value, item, equality, itemPath)) {
+          return entry.id;
+        }
+      }
+      bucket.push({ value: item, id: nextId });
+      return nextId++;
+    };
+
+    return [Int32Array.from(arr1, idOf), Int32Array.from(arr2, idOf)];
+  }
+
   /**
    * 计算两个数组的 diff 操作序列
+   * 提供 keyOf 时按身份键匹配元素，匹配的元素以 keep 操作输出，由调用方递归比较内部差异
+   * @param arr1 第一个数组
+   * @param arr2 第二个数组
+   * @param options 配置选项
+   * @returns diff 操作序列
+   */
+  static diff<T>(arr1: T[], arr2: T[], options: ArrayDiffOptions = {}): ArrayDiffOp[] {
+    const {
+      keyOf,
+      detectMoves = false,
+      algorithm = "lcs",
+      comparators,
+      numeric,
+      filter,
+      path,
+      similar,
+    } = options;
+    const [ids1, ids2] = this.toIds(arr1, arr2, keyOf, { comparators, numeric, filter }, path);
+    const matches = SequenceMatcher[algorithm](ids1, ids2);
+    let ops = this.opsFromMatches(arr1, arr2, matches);
+    if (detectMoves) {
+      ops = this.detectMoves(ops, ids1, ids2);
+    }
+    return this.mergeDeleteAddToModify(ops, keyOf, similar);
+  }
+
+  /**
+   * 忽略顺序计算两个数组的 diff 操作序列（多重集匹配）
+   * 每个新元素与 id 相同且尚未匹配的第一个旧元素配对，输出 keep 操作；
+   * 剩余的新元素与第一个可合并的剩余旧元素配对为 modify，否则输出 add（keep 与 modify 的 index 为旧下标）；
+   * 最后为仍未配对的旧元素输出 delete
+   * 操作按新数组的顺序排列，delete 位于末尾
+   * @param arr1 第一个数组
+   * @param arr2 第二个数组
+   * @param options 配置选项（algorithm 与 detectMoves 不适用）
+   * @returns diff 操作序列
+   */
+  static diffUnordered<T>(arr1: T[], arr2: T[], options: ArrayDiffOptions = {}): ArrayDiffOp[] {
+    const { keyOf, comparators, numeric, filter, path, similar } = options;
+    const [ids1, ids2] = this.toIds(arr1, arr2, keyOf, { comparators, numeric, filter }, path);
+
+    // 按 id 分组的待匹配旧下标，相同元素出现多次时按次数匹配
+    const pending = new Map<number, number[]>();
+    ids1.forEach((id, i) => {
+      const queue = pending.get(id);
+      if (queue) {
+        queue.push(i);
+      } else {
+        pending.set(id, [i]);
+      }
+    });
+
+    const matched = Array.from(arr2, (_, j) => pending.get(ids2[j])?.shift());
+    const remaining = new Set<number>();
+    for (const queue of pending.values()) {
+      for (const i of queue) remaining.add(i);
+    }
+    const leftover = Array.from(remaining).sort((a, b) => a - b);
+
+    const ops: ArrayDiffOp[] = [];
+    arr2.forEach((item, j) => {
+      const oldIndex = matched[j];
+      if (oldIndex !== undefined) {
+        ops.push({ type: "keep", index: oldIndex, value: arr1[oldIndex], newValue: item });
+        return;
+      }
+      const isSimilar = similar && ((a: any, b: any) => similar(a, b, j));
+      const k = leftover.findIndex((i) => this.canMergeToModify(arr1[i], item, keyOf, isSimilar));
+      if (k === -1) {
+        ops.push({ type: "add", index: j, value: item });
+        return;
+      }
+      const [i] = leftover.splice(k, 1);
+      ops.push({ type: "modify", index: i, value: arr1[i], newValue: item });
+    });
+    for (const i of leftover) {
+      ops.push({ type: "delete", index: i, value: arr1[i] });
+    }
+
+    return ops;
+  }
+
+  /**
+   * 根据匹配对生成操作序列
+   * 两个匹配对之间的未匹配元素先输出 delete，再输出 add
    * @param arr1 第一个数组
    * @param arr2 第二个数组
+   * @param matches 按下标递增排列的匹配对
    * @returns diff 操作序列
    */
-  static diff<T>(arr1: T[], arr2: T[]): ArrayDiffOp[] {
-    const dp = this.computeLCS(arr1, arr2);
-    const ops = this.backtrack(arr1, arr2, dp, arr1.length, arr2.length);
-    return this.mergeDeleteAddToModify(ops);
+  static opsFromMatches<T>(arr1: T[], arr2: T[], matches: SequenceMatch[]): ArrayDiffOp[] {
+    const ops: ArrayDiffOp[] = [];
+    let i = 0;
+    let j = 0;
+
+    const flush = (oldEnd: number, newEnd: number) => {
+      for (; i < oldEnd; i++) {
+        ops.push({ type: "delete", index: i, value: arr1[i] });
+      }
+      for (; j < newEnd; j++) {
+        ops.push({ type: "add", index: j, value: arr2[j] });
+      }
+    };
+
+    for (const { oldIndex, newIndex } of matches) {
+      flush(oldIndex, newIndex);
+      ops.push({ type: "keep", index: i, value: arr1[i] });
+      i++;
+      j++;
+    }
+    flush(arr1.length, arr2.length);
+
+    return ops;
+  }
+
+  /**
+   * 将相等元素（或身份键相同的元素）的 delete + add 配对为 move 操作
+   * move 操作位于原 add 操作的位置，对应的 delete 操作被移除
+   * 每个 add 与 id 相同且尚未配对的第一个 delete 配对
+   * @param ops 原始操作序列
+   * @param ids1 旧数组元素的 id（delete 操作按 index 取值）
+   * @param ids2 新数组元素的 id（add 操作按 index 取值）
+   * @returns 包含 move 的操作序列
+   */
+  static detectMoves(
+    ops: ArrayDiffOp[],
+    ids1: ArrayLike<number>,
+    ids2: ArrayLike<number>,
+  ): ArrayDiffOp[] {
+    // 按 id 分组的待配对 delete 操作（保持原顺序）
+    const deletes = new Map<number, ArrayDiffOp[]>();
+    for (const op of ops) {
+      if (op.type !== "delete") continue;
+      const queue = deletes.get(ids1[op.index]);
+      if (queue) {
+        queue.push(op);
+      } else {
+        deletes.set(ids1[op.index], [op]);
+      }
+    }
+    if (deletes.size === 0) {
+      return ops;
+    }
+
+    const matched = new Set<ArrayDiffOp>();
+    const moves = new Map<ArrayDiffOp, ArrayDiffOp>();
+
+    for (const op of ops) {
+      if (op.type !== "add") continue;
+      const source = deletes.get(ids2[op.index])?.shift();
+      if (source) {
+        matched.add(source);
+        moves.set(op, {
+          type: "move",
+          index: op.index,
+          fromIndex: source.index,
+          value: source.value,
+          newValue: op.value,
+        });
+      }
+    }
+
+    if (moves.size === 0) {
+      return ops;
+    }
+
+    const result: ArrayDiffOp[] = [];
+    for (const op of ops) {
+      if (matched.has(op)) continue;
+      result.push(moves.get(op) ?? op);
+    }
+    return result;
   }
 
   /**
    * 将相邻的 delete + add 操作合并为 modify 操作
    * 当两个元素结构相似（同类型的对象或数组）时，应该显示为修改而非删除+添加
    * @param ops 原始操作序列
+   * @param keyOf 身份键提取函数（可选）
+   * @param similar 元素相似判断函数（可选）
    * @returns 优化后的操作序列
    */
-  static mergeDeleteAddToModify(ops: ArrayDiffOp[]): ArrayDiffOp[] {
+  static mergeDeleteAddToModify(
+    ops: ArrayDiffOp[],
+    keyOf?: ArrayKeyOf,
+    similar?: ElementSimilar,
+  ): ArrayDiffOp[] {
     const result: ArrayDiffOp[] = [];
     let i = 0;
 
@@ -178,8 +687,9 @@ export class LCSArrayDiff {
           const delOp = deleteOps[j];
           const addOp = addOps[j];
 
-          // 如果两个值是同类型的对象或数组，合并为 modify
-          if (this.canMergeToModify(delOp.value, addOp.value)) {
+          // 如果两个值是同类型的对象或数组（且足够相似），合并为 modify
+          const isSimilar = similar && ((a: any, b: any) => similar(a, b, addOp.index));
+          if (this.canMergeToModify(delOp.value, addOp.value, keyOf, isSimilar)) {
             result.push({
               type: "modify",
               index: addOp.index,
@@ -213,15 +723,27 @@ export class LCSArrayDiff {
 
   /**
    * 判断两个值是否可以合并为 modify 操作
-   * 条件：两个值都是对象或都是数组
+   * 条件：两个值都是对象或都是数组，身份键（如果有）不冲突，且满足相似判断（如果有）
    * @param oldValue 旧值
    * @param newValue 新值
+   * @param keyOf 身份键提取函数（可选）
+   * @param isSimilar 相似判断函数（可选）
    * @returns 是否可以合并
    */
-  static canMergeToModify(oldValue: any, newValue: any): boolean {
+  static canMergeToModify(
+    oldValue: any,
+    newValue: any,
+    keyOf?: ArrayKeyOf,
+    isSimilar?: ElementEquals,
+  ): boolean {
     // null 和 undefined 不合并
     if (oldValue == null || newValue == null) return false;
 
+    // 身份键不同的元素是不同的记录，不能配对
+    if (keyOf && (keyOf(oldValue) !== undefined || keyOf(newValue) !== undefined)) {
+      return false;
+    }
+
     const oldType = TypeNormalizer.getValueType(oldValue);
     const newType = TypeNormalizer.getValueType(newValue);
 
@@ -229,6 +751,9 @@ export class LCSArrayDiff {
     if (oldType !== newType) return false;
 
     // 只有对象和数组才合并为 modify
-    return oldType === "object" || oldType === "array";
+    if (oldType !== "object" && oldType !== "array") return false;
+
+    // 内容差异过大的元素按删除 + 新增处理
+    return isSimilar ? isSimilar(oldValue, newValue) : true;
   }
 }
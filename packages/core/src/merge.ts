@@ -0,0 +1,401 @@
+import { DiffType, ValueType, DiffNode, DiffOptions } from "./types";
+import { DiffEngine } from "./diff";
+import { LCSArrayDiff } from "./lcs";
+import { DiffResultBuilder } from "./result";
+
+/**
+ * 合并冲突类型
+ */
+export type MergeConflictType =
+  | "modify-modify" // 同一路径被两边修改为不同的值
+  | "delete-modify" // 一边删除，另一边修改
+  | "add-add" // 两边在同一路径添加了不同的值
+  | "array-insert"; // 两边在同一数组位置插入了不同的元素
+
+/**
+ * 合并冲突
+ * path 指向基准文档中的位置；array-insert 冲突的 ours / theirs 为各自插入的元素数组
+ */
+export interface MergeConflict {
+  type: MergeConflictType;
+  path: string[];
+  base?: any; // 基准值（不存在时为 undefined）
+  ours?: any; // ours 一侧的值（删除时为 undefined）
+  theirs?: any; // theirs 一侧的值（删除时为 undefined）
+}
+
+/**
+ * 冲突解决策略
+ * - ours / theirs：采用对应一侧的值
+ * - fail：收集全部冲突后抛出 MergeConflictError
+ * - 回调函数：返回合并后的值，返回 undefined 表示删除该键或不插入元素
+ */
+export type MergeStrategy = "ours" | "theirs" | "fail" | ((conflict: MergeConflict) => any);
+
+/**
+ * 三路合并配置选项
+ */
+export interface MergeOptions extends DiffOptions {
+  strategy?: MergeStrategy; // 冲突解决策略（默认 fail）
+}
+
+/**
+ * 三路合并结果
+ */
+export interface MergeResult {
+  merged: any; // 合并后的文档
+  conflicts: MergeConflict[]; // 冲突列表（已按策略解决）
+}
+
+/**
+ * 存在合并冲突且策略为 fail 时抛出的错误
+ */
+export class MergeConflictError extends Error {
+  conflicts: MergeConflict[];
+
+  constructor(conflicts: MergeConflict[]) {
+    super(`Merge failed with ${conflicts.length} conflict(s)`);
+    this.name = "MergeConflictError";
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * 某个位置合并后的结果
+ */
+interface MergeOutcome {
+  exists: boolean; // 该位置是否存在值
+  value?: any;
+}
+
+/**
+ * 数组一侧相对于基准数组的变更
+ */
+interface ArraySideChanges {
+  elements: (DiffNode | undefined)[]; // 每个基准元素对应的节点（保持、修改或删除）
+  inserts: any[][]; // inserts[i] 为插入到基准元素 i 之前的元素（i === length 时为末尾）
+}
+
+/**
+ * 三路合并引擎
+ * 基于 DiffEngine 分别计算 base → ours 与 base → theirs 的差异，
+ * 自动合并互不重叠的修改，并按策略处理冲突
+ */
+export class MergeEngine {
+  private diffOptions: DiffOptions;
+  private strategy: MergeStrategy;
+  private conflicts: MergeConflict[];
+
+  constructor(options?: MergeOptions) {
+    const { strategy, ...diffOptions } = options ?? {};
+    // 合并按基准数组的位置对齐两侧的插入和删除，移动元素按删除 + 插入处理，无序数组按 lcs 比较，
+    // 对齐需要完整的子节点列表，因此总是保留未改变的节点
+    this.diffOptions = {
+      ...diffOptions,
+      arrayDiffMode: this.orderedArrayDiffMode(diffOptions.arrayDiffMode),
+      detectMoves: false,
+      includeUnchanged: true,
+    };
+    this.strategy = strategy ?? "fail";
+    this.conflicts = [];
+  }
+
+  /**
+   * 将 unordered 数组比较模式替换为 lcs
+   */
+  private orderedArrayDiffMode(mode: DiffOptions["arrayDiffMode"]): DiffOptions["arrayDiffMode"] {
+    if (mode === undefined || typeof mode === "string") {
+      return mode === "unordered" ? "lcs" : mode;
+    }
+    return Object.fromEntries(
+      Object.entries(mode).map(([pattern, m]) => [pattern, m === "unordered" ? "lcs" : m]),
+    );
+  }
+
+  /**
+   * 合并两个基于同一基准独立修改的版本
+   * @param base 基准值
+   * @param ours 我方版本
+   * @param theirs 对方版本
+   * @returns MergeResult
+   */
+  merge(base: any, ours: any, theirs: any): MergeResult {
+    // 重置冲突列表
+    this.conflicts = [];
+
+    const engine = new DiffEngine(this.diffOptions);
+    const oursRoot = engine.compute(base, ours).root;
+    const theirsRoot = engine.compute(base, theirs).root;
+
+    const outcome = this.mergeNode([], base, true, oursRoot, theirsRoot);
+
+    if (this.strategy === "fail" && this.conflicts.length > 0) {
+      throw new MergeConflictError(this.conflicts);
+    }
+
+    return {
+      merged: outcome.value,
+      conflicts: this.conflicts,
+    };
+  }
+
+  /**
+   * 合并同一基准位置上两侧的差异节点
+   * @param path 基准文档中的路径
+   * @param base 基准值
+   * @param baseExists 基准值是否存在
+   * @param ours ours 一侧的节点（不存在表示未涉及该位置）
+   * @param theirs theirs 一侧的节点
+   * @returns MergeOutcome
+   */
+  private mergeNode(
+    path: string[],
+    base: any,
+    baseExists: boolean,
+    ours: DiffNode | undefined,
+    theirs: DiffNode | undefined,
+  ): MergeOutcome {
+    const oursChanged = ours !== undefined && this.isChanged(ours);
+    const theirsChanged = theirs !== undefined && this.isChanged(theirs);
+
+    if (!oursChanged && !theirsChanged) {
+      return { exists: baseExists, value: base };
+    }
+    if (!oursChanged) {
+      return this.outcomeOf(theirs!);
+    }
+    if (!theirsChanged) {
+      return this.outcomeOf(ours!);
+    }
+
+    const oursOutcome = this.outcomeOf(ours!);
+    const theirsOutcome = this.outcomeOf(theirs!);
+
+    // 两边修改结果相同
+    if (
+      oursOutcome.exists === theirsOutcome.exists &&
+      (!oursOutcome.exists || LCSArrayDiff.isEqual(oursOutcome.value, theirsOutcome.value))
+    ) {
+      return oursOutcome;
+    }
+
+    // 两边都修改了同一个容器内部，逐个子节点合并
+    if (
+      ours!.type === DiffType.MODIFIED &&
+      theirs!.type === DiffType.MODIFIED &&
+      ours!.children &&
+      theirs!.children &&
+      ours!.valueType === theirs!.valueType
+    ) {
+      if (ours!.valueType === ValueType.OBJECT) {
+        return { exists: true, value: this.mergeObject(path, base, ours!, theirs!) };
+      }
+      if (ours!.valueType === ValueType.ARRAY) {
+        return { exists: true, value: this.mergeArray(path, base, ours!, theirs!) };
+      }
+    }
+
+    return this.resolve(
+      {
+        type: this.classifyConflict(ours!, theirs!),
+        path,
+        base,
+        ours: oursOutcome.value,
+        theirs: theirsOutcome.value,
+      },
+      oursOutcome,
+      theirsOutcome,
+    );
+  }
+
+  /**
+   * 合并对象
+   */
+  private mergeObject(path: string[], base: any, ours: DiffNode, theirs: DiffNode): any {
+    const oursChildren = this.indexChildren(ours);
+    const theirsChildren = this.indexChildren(theirs);
+    const keys = new Set([...Object.keys(base), ...oursChildren.keys(), ...theirsChildren.keys()]);
+    const result: Record<string, any> = {};
+
+    for (const key of keys) {
+      const baseExists = Object.prototype.hasOwnProperty.call(base, key);
+      const outcome = this.mergeNode(
+        [...path, key],
+        baseExists ? base[key] : undefined,
+        baseExists,
+        oursChildren.get(key),
+        theirsChildren.get(key),
+      );
+
+      if (outcome.exists) {
+        // 使用 defineProperty 以正确处理 "__proto__" 等特殊键
+        Object.defineProperty(result, key, {
+          value: outcome.value,
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 合并数组
+   * 将两侧的子节点映射到基准数组的下标上，再逐个位置合并
+   */
+  private mergeArray(path: string[], base: any[], ours: DiffNode, theirs: DiffNode): any[] {
+    const oursChanges = this.collectArrayChanges(ours, base.length);
+    const theirsChanges = this.collectArrayChanges(theirs, base.length);
+    const result: any[] = [];
+
+    for (let i = 0; i <= base.length; i++) {
+      result.push(
+        ...this.mergeInserts(
+          [...path, String(i)],
+          oursChanges.inserts[i],
+          theirsChanges.inserts[i],
+        ),
+      );
+
+      if (i < base.length) {
+        const outcome = this.mergeNode(
+          [...path, String(i)],
+          base[i],
+          true,
+          oursChanges.elements[i],
+          theirsChanges.elements[i],
+        );
+        if (outcome.exists) {
+          result.push(outcome.value);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 合并同一位置的插入
+   */
+  private mergeInserts(path: string[], ours: any[], theirs: any[]): any[] {
+    if (ours.length === 0) return theirs;
+    if (theirs.length === 0) return ours;
+    if (LCSArrayDiff.isEqual(ours, theirs)) return ours;
+
+    const outcome = this.resolve(
+      { type: "array-insert", path, ours, theirs },
+      { exists: true, value: ours },
+      { exists: true, value: theirs },
+    );
+    if (!outcome.exists) {
+      return [];
+    }
+    return Array.isArray(outcome.value) ? outcome.value : [outcome.value];
+  }
+
+  /**
+   * 将数组节点的子节点映射到基准数组的下标
+   */
+  private collectArrayChanges(node: DiffNode, baseLength: number): ArraySideChanges {
+    const elements: (DiffNode | undefined)[] = Array.from({ length: baseLength });
+    const inserts: any[][] = Array.from({ length: baseLength + 1 }, () => []);
+    let cursor = 0;
+
+    for (const child of node.children!) {
+      if (child.type === DiffType.ADDED) {
+        inserts[cursor].push(child.newValue);
+      } else {
+        elements[cursor] = child;
+        cursor++;
+      }
+    }
+
+    return { elements, inserts };
+  }
+
+  /**
+   * 按键名索引对象节点的子节点
+   */
+  private indexChildren(node: DiffNode): Map<string, DiffNode> {
+    const map = new Map<string, DiffNode>();
+    for (const child of node.children!) {
+      map.set(child.path[child.path.length - 1], child);
+    }
+    return map;
+  }
+
+  /**
+   * 判断单侧节点是否改变了该位置（被路径规则过滤的节点视为未改变）
+   */
+  private isChanged(node: DiffNode): boolean {
+    return node.type !== DiffType.UNCHANGED && node.type !== DiffType.IGNORED;
+  }
+
+  /**
+   * 获取单侧节点在该位置的结果
+   * 达到 maxDepth 的节点只记录了占位字符串，无法得到合并后的值
+   */
+  private outcomeOf(node: DiffNode): MergeOutcome {
+    if (node.truncated) {
+      throw new Error(
+        `Cannot merge ${DiffResultBuilder.buildJsonPath(node.path)}: diff truncated by maxDepth`,
+      );
+    }
+    if (node.type === DiffType.DELETED) {
+      return { exists: false };
+    }
+    return { exists: true, value: node.newValue };
+  }
+
+  /**
+   * 判断冲突类型
+   */
+  private classifyConflict(ours: DiffNode, theirs: DiffNode): MergeConflictType {
+    if (ours.type === DiffType.DELETED || theirs.type === DiffType.DELETED) {
+      return "delete-modify";
+    }
+    if (ours.type === DiffType.ADDED && theirs.type === DiffType.ADDED) {
+      return "add-add";
+    }
+    return "modify-modify";
+  }
+
+  /**
+   * 记录冲突并按策略解决
+   */
+  private resolve(
+    conflict: MergeConflict,
+    oursOutcome: MergeOutcome,
+    theirsOutcome: MergeOutcome,
+  ): MergeOutcome {
+    this.conflicts.push(conflict);
+
+    switch (this.strategy) {
+      case "theirs":
+        return theirsOutcome;
+      case "ours":
+      case "fail":
+        // fail 策略在合并结束后统一抛出，这里先采用 ours 以便继续收集冲突
+        return oursOutcome;
+      default: {
+        const value = this.strategy(conflict);
+        return value === undefined ? { exists: false } : { exists: true, value };
+      }
+    }
+  }
+}
+
+/**
+ * 便捷函数：三路合并
+ * @param base 基准值
+ * @param ours 我方版本
+ * @param theirs 对方版本
+ * @param options 配置选项
+ * @returns MergeResult
+ */
+export function merge3(base: any, ours: any, theirs: any, options?: MergeOptions): MergeResult {
+  const engine = new MergeEngine(options);
+  return engine.merge(base, ours, theirs);
+}
@@ -1,4 +1,5 @@
 import { ValueType } from "./types";
+import { TypeRegistry } from "./typeregistry";
 
 /**
  * 类型规范化器
@@ -11,11 +12,22 @@ export class TypeNormalizer {
   static getValueType(value: any): ValueType {
     if (value === null) return ValueType.NULL;
     if (value === undefined) return ValueType.UNDEFINED;
+    // 注册的自定义类型优先于内置类型
+    if (TypeRegistry.find(value)) return ValueType.CUSTOM;
     if (typeof value === "symbol") return ValueType.SYMBOL;
+    if (typeof value === "bigint") return ValueType.BIGINT;
     if (typeof value === "function") return ValueType.FUNCTION;
     if (value instanceof Date) return ValueType.DATE;
     if (value instanceof RegExp) return ValueType.REGEXP;
     if (Array.isArray(value)) return ValueType.ARRAY;
+    if (value instanceof Map) return ValueType.MAP;
+    if (value instanceof Set) return ValueType.SET;
+    if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) return ValueType.TYPED_ARRAY;
+    if (value instanceof Error) return ValueType.ERROR;
+    if (typeof URL !== "undefined" && value instanceof URL) return ValueType.URL;
+    if (value instanceof Number || value instanceof String || value instanceof Boolean) {
+      return ValueType.BOXED;
+    }
     if (typeof value === "object") return ValueType.OBJECT;
     return ValueType.PRIMITIVE;
   }
@@ -48,11 +60,127 @@ export class TypeNormalizer {
     return symbol.toString();
   }
 
+  /**
+   * 规范化 BigInt 为带 n 后缀的字符串
+   */
+  static normalizeBigInt(value: bigint): string {
+    return `${value}n`;
+  }
+
+  /**
+   * 获取二进制数据的类型标签（如 "Uint8Array"、"ArrayBuffer"、"DataView"）
+   */
+  static getBinaryTag(value: ArrayBuffer | ArrayBufferView): string {
+    return Object.prototype.toString.call(value).slice(8, -1);
+  }
+
+  /**
+   * 规范化二进制数据为字节视图（不复制底层数据）
+   */
+  static normalizeBytes(value: ArrayBuffer | ArrayBufferView): Uint8Array {
+    if (ArrayBuffer.isView(value)) {
+      return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+    }
+    return new Uint8Array(value);
+  }
+
+  /**
+   * 规范化 Error 为可比较的字段
+   */
+  static normalizeError(error: Error): { name: string; message: string; stack?: string } {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+
+  /**
+   * 规范化 URL 为完整地址
+   */
+  static normalizeURL(url: URL): string {
+    return url.href;
+  }
+
+  /**
+   * 规范化包装对象为原始值
+   */
+  static normalizeBoxed(value: object): number | string | boolean {
+    return (value as { valueOf(): number | string | boolean }).valueOf();
+  }
+
+  /**
+   * 规范化自定义类型的实例（没有 normalize 时返回原值）
+   */
+  static normalizeCustom(value: any): any {
+    const handler = TypeRegistry.find(value);
+    return handler?.normalize ? handler.normalize(value) : value;
+  }
+
+  /**
+   * 将 Map 键或 Set 成员转换为路径片段
+   * 字符串保持原样，其他值使用序列化形式
+   */
+  static formatKey(value: any): string {
+    return typeof value === "string" ? value : this.serialize(value, this.getValueType(value));
+  }
+
   /**
    * 序列化值为可显示的字符串
    */
   static serialize(value: any, type: ValueType): string {
+    return this.serializeValue(value, type, new Set());
+  }
+
+  /**
+   * 序列化值，seen 记录正在序列化的 Map / Set，避免循环引用导致无限递归
+   */
+  private static serializeValue(value: any, type: ValueType, seen: Set<object>): string {
+    const nested = (item: any) => {
+      if (typeof item === "object" && item !== null && seen.has(item)) {
+        return "[Circular]";
+      }
+      return this.serializeValue(item, this.getValueType(item), seen);
+    };
+
     switch (type) {
+      case ValueType.CUSTOM: {
+        const handler = TypeRegistry.find(value);
+        if (handler?.serialize) {
+          return handler.serialize(value);
+        }
+        // 没有 normalize 时按普通对象序列化
+        const normalized = this.normalizeCustom(value);
+        return normalized === value
+          ? this.serializeValue(value, ValueType.OBJECT, seen)
+          : nested(normalized);
+      }
+      case ValueType.BIGINT:
+        return this.normalizeBigInt(value);
+      case ValueType.MAP:
+      case ValueType.SET: {
+        seen.add(value);
+        const entries = Array.from(value as Map<any, any> | Set<any>, (entry) =>
+          type === ValueType.MAP ? `${nested(entry[0])} => ${nested(entry[1])}` : nested(entry),
+        );
+        seen.delete(value);
+        const name = type === ValueType.MAP ? "Map" : "Set";
+        return `${name}(${value.size}) {${entries.join(", ")}}`;
+      }
+      case ValueType.TYPED_ARRAY: {
+        const tag = this.getBinaryTag(value);
+        if (!ArrayBuffer.isView(value) || value instanceof DataView) {
+          return `${tag}(${value.byteLength})`;
+        }
+        const items = Array.from(value as unknown as ArrayLike<number | bigint>, (item) =>
+          typeof item === "bigint" ? this.normalizeBigInt(item) : String(item),
+        );
+        return `${tag}(${items.length}) [${items.join(", ")}]`;
+      }
+      case ValueType.ERROR:
+        return `${value.name}: ${value.message}`;
+      case ValueType.URL:
+        return this.normalizeURL(value);
+      case ValueType.BOXED: {
+        const tag = Object.prototype.toString.call(value).slice(8, -1);
+        return `[${tag}: ${JSON.stringify(this.normalizeBoxed(value))}]`;
+      }
       case ValueType.FUNCTION:
         return this.normalizeFunction(value);
       case ValueType.DATE:
@@ -66,7 +194,22 @@ export class TypeNormalizer {
       case ValueType.NULL:
         return "null";
       default:
-        return JSON.stringify(value);
+        // BigInt 无法被 JSON.stringify 序列化
+        return JSON.stringify(value, (_key, item) => {
+          if (typeof item === "bigint") {
+            return this.normalizeBigInt(item);
+          }
+          // 嵌套的自定义类型实例使用其序列化结果
+          if (
+            typeof item === "object" &&
+            item !== null &&
+            item !== value &&
+            TypeRegistry.find(item)
+          ) {
+            return this.serializeValue(item, ValueType.CUSTOM, seen);
+          }
+          return item;
+        });
     }
   }
 }
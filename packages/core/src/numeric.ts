@@ -0,0 +1,57 @@
+import { NumericOptions } from "./types";
+
+/**
+ * 数值相等判断
+ * 支持绝对 / 相对误差、NaN 相等、区分正负零以及整数与浮点数的严格区分
+ */
+export class NumericEquality {
+  /**
+   * 判断两个数值是否相等
+   * @param a 第一个数值
+   * @param b 第二个数值
+   * @param options 数值比较选项
+   * @returns 是否相等
+   */
+  static equals(a: number, b: number, options: NumericOptions = {}): boolean {
+    const {
+      absoluteTolerance = 0,
+      relativeTolerance = 0,
+      nanEqual = true,
+      signedZero = false,
+      strictInteger = false,
+    } = options;
+
+    if (Number.isNaN(a) || Number.isNaN(b)) {
+      return nanEqual && Number.isNaN(a) && Number.isNaN(b);
+    }
+
+    if (a === b) {
+      // 0 === -0，需要时用 Object.is 区分
+      return signedZero ? Object.is(a, b) : true;
+    }
+
+    if (strictInteger && Number.isInteger(a) !== Number.isInteger(b)) {
+      return false;
+    }
+
+    // 无穷大只与自身相等
+    if (!Number.isFinite(a) || !Number.isFinite(b)) {
+      return false;
+    }
+
+    const difference = Math.abs(a - b);
+    return (
+      difference <= absoluteTolerance ||
+      difference <= relativeTolerance * Math.max(Math.abs(a), Math.abs(b))
+    );
+  }
+
+  /**
+   * 是否配置了误差（此时相等关系不可传递，数值不能按精确值哈希）
+   * @param options 数值比较选项
+   * @returns 是否有误差
+   */
+  static hasTolerance(options: NumericOptions = {}): boolean {
+    return (options.absoluteTolerance ?? 0) > 0 || (options.relativeTolerance ?? 0) > 0;
+  }
+}
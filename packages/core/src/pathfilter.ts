@@ -0,0 +1,74 @@
+import { PathPattern } from "./pathpattern";
+import { TypeNormalizer } from "./normalizer";
+import { ValueType } from "./types";
+
+/**
+ * 路径过滤结果
+ * - "include"：比较该路径及其整个子树
+ * - "partial"：路径本身未被包含，但子树中可能有被包含的路径，需要进入容器继续过滤
+ * - "exclude"：忽略该路径及其整个子树
+ */
+export type PathFilterResult = "include" | "partial" | "exclude";
+
+/**
+ * 基于路径模式的忽略 / 包含规则
+ * 忽略规则优先于包含规则；没有配置包含规则时所有路径都被包含
+ */
+export class PathFilter {
+  private ignorePatterns: PathPattern[];
+  private includePatterns: PathPattern[];
+
+  constructor(ignorePaths: string[] = [], includePaths: string[] = []) {
+    this.ignorePatterns = ignorePaths.map((pattern) => PathPattern.compile(pattern));
+    this.includePatterns = includePaths.map((pattern) => PathPattern.compile(pattern));
+  }
+
+  /**
+   * 是否没有配置任何规则
+   */
+  get isEmpty(): boolean {
+    return this.ignorePatterns.length === 0 && this.includePatterns.length === 0;
+  }
+
+  /**
+   * 判断路径的过滤结果
+   * @param path 路径
+   * @returns 过滤结果
+   */
+  resolve(path: string[]): PathFilterResult {
+    if (this.ignorePatterns.some((pattern) => pattern.matches(path))) {
+      return "exclude";
+    }
+    if (this.includePatterns.length === 0) {
+      return "include";
+    }
+
+    let partial = false;
+    for (const pattern of this.includePatterns) {
+      const relation = pattern.relation(path);
+      if (relation === "covered") {
+        return "include";
+      }
+      partial ||= relation === "partial";
+    }
+    return partial ? "partial" : "exclude";
+  }
+
+  /**
+   * 判断路径上的值是否应该被忽略
+   * 部分包含的路径只有在值为容器时才需要进入，叶子值直接忽略
+   * @param path 路径
+   * @param values 路径上的值（新旧两侧中存在的值）
+   * @returns 是否忽略
+   */
+  excludes(path: string[], ...values: any[]): boolean {
+    const result = this.resolve(path);
+    if (result !== "partial") {
+      return result === "exclude";
+    }
+    return !values.some((value) => {
+      const type = TypeNormalizer.getValueType(value);
+      return type === ValueType.OBJECT || type === ValueType.ARRAY;
+    });
+  }
+}
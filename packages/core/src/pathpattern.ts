@@ -0,0 +1,244 @@
+/**
+ * 路径模式片段
+ */
+export type PathPatternToken =
+  | { type: "key"; value: string } // 精确匹配一个片段
+  | { type: "wildcard" } // 匹配任意一个片段（* 或 [*]）
+  | { type: "descent" }; // 匹配零个或多个片段（.. 或 **）
+
+/**
+ * 类 JSONPath 的路径模式
+ * 支持的语法：
+ * - `$.user.name`、`user.name`（开头的 `$` 可省略）
+ * - `items[0]`、`["a.b"]`、`['a.b']`
+ * - `items[*].etag`、`items.*.etag`（匹配任意一个片段）
+ * - `$..debug`、`**.createdAt`（匹配任意深度）
+ * 模式需要匹配完整路径
+ */
+export class PathPattern {
+  readonly source: string;
+  readonly tokens: PathPatternToken[];
+
+  constructor(source: string) {
+    this.source = source;
+    this.tokens = PathPattern.parse(source);
+  }
+
+  /**
+   * 编译路径模式
+   * @param pattern 模式字符串
+   * @returns PathPattern
+   */
+  static compile(pattern: string): PathPattern {
+    return new PathPattern(pattern);
+  }
+
+  /**
+   * 创建只匹配指定路径的模式
+   * @param path 路径数组
+   * @returns PathPattern
+   */
+  static fromPath(path: string[]): PathPattern {
+    const source = path.map((key) => `["${key.replace(/["\\]/g, "\\$&")}"]`).join("");
+    return new PathPattern("$" + source);
+  }
+
+  /**
+   * 解析路径模式为片段序列
+   * @param pattern 模式字符串
+   * @returns 片段序列
+   */
+  static parse(pattern: string): PathPatternToken[] {
+    const tokens: PathPatternToken[] = [];
+    let i = pattern.startsWith("$") ? 1 : 0;
+
+    const pushName = (name: string) => {
+      if (name === "**") {
+        tokens.push({ type: "descent" });
+      } else if (name === "*") {
+        tokens.push({ type: "wildcard" });
+      } else if (name.length > 0) {
+        tokens.push({ type: "key", value: name });
+      }
+    };
+
+    const readName = () => {
+      let end = i;
+      while (end < pattern.length && pattern[end] !== "." && pattern[end] !== "[") {
+        end++;
+      }
+      const name = pattern.slice(i, end);
+      i = end;
+      return name;
+    };
+
+    while (i < pattern.length) {
+      const char = pattern[i];
+
+      if (char === ".") {
+        if (pattern[i + 1] === ".") {
+          // 递归下降
+          tokens.push({ type: "descent" });
+          i += 2;
+        } else {
+          i++;
+        }
+        pushName(readName());
+      } else if (char === "[") {
+        const close = this.findClosingBracket(pattern, i);
+        const content = pattern.slice(i + 1, close).trim();
+        i = close + 1;
+
+        if (content === "*") {
+          tokens.push({ type: "wildcard" });
+        } else if (
+          /^["'][\s\S]*["']$/.test(content) &&
+          content[0] === content[content.length - 1]
+        ) {
+          tokens.push({ type: "key", value: content.slice(1, -1).replace(/\\(.)/g, "$1") });
+        } else if (/^\d+$/.test(content)) {
+          tokens.push({ type: "key", value: content });
+        } else {
+          throw new Error(`Invalid path pattern segment "[${content}]" in: ${pattern}`);
+        }
+      } else {
+        pushName(readName());
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * 查找与 "[" 匹配的 "]"（跳过引号内的内容）
+   */
+  private static findClosingBracket(pattern: string, open: number): number {
+    let quote: string | null = null;
+    for (let i = open + 1; i < pattern.length; i++) {
+      const char = pattern[i];
+      if (quote) {
+        if (char === "\\") {
+          i++;
+        } else if (char === quote) {
+          quote = null;
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === "]") {
+        return i;
+      }
+    }
+    throw new Error(`Unclosed "[" in path pattern: ${pattern}`);
+  }
+
+  /**
+   * 判断路径是否与模式完全匹配
+   * @param path 路径数组
+   * @returns 是否匹配
+   */
+  matches(path: string[]): boolean {
+    const tokens = this.tokens;
+    // reachable[j] 表示已处理的模式片段能否恰好匹配 path 的前 j 个片段
+    let reachable: boolean[] = Array.from({ length: path.length + 1 }, (_, j) => j === 0);
+
+    for (const token of tokens) {
+      const next: boolean[] = Array.from({ length: path.length + 1 }, () => false);
+      for (let j = 0; j <= path.length; j++) {
+        if (token.type === "descent") {
+          // 零个或多个片段：从任一可达位置向后传播
+          next[j] = reachable[j] || (j > 0 && next[j - 1]);
+        } else if (j > 0 && reachable[j - 1]) {
+          next[j] = token.type === "wildcard" || token.value === path[j - 1];
+        }
+      }
+      reachable = next;
+    }
+
+    return reachable[path.length];
+  }
+
+  /**
+   * 判断路径与模式的覆盖关系
+   * - "covered"：路径本身或它的某个祖先与模式完全匹配
+   * - "partial"：路径不匹配，但它的某个后代可能匹配
+   * - "none"：路径及其所有后代都不可能匹配
+   * @param path 路径数组
+   * @returns 覆盖关系
+   */
+  relation(path: string[]): "covered" | "partial" | "none" {
+    const end = this.tokens.length;
+
+    let states = this.initialStates();
+    if (states[end]) {
+      return "covered";
+    }
+
+    for (const segment of path) {
+      states = this.advance(states, segment);
+
+      if (states[end]) {
+        return "covered";
+      }
+      if (!states.includes(true)) {
+        return "none";
+      }
+    }
+
+    return "partial";
+  }
+
+  /**
+   * 匹配的初始状态（尚未消费任何路径片段）
+   * states[k] 表示前 k 个模式片段能否恰好匹配已消费的路径片段，states[tokens.length] 为真表示完全匹配
+   * @returns 状态数组
+   */
+  initialStates(): boolean[] {
+    return this.close(Array.from({ length: this.tokens.length + 1 }, (_, k) => k === 0));
+  }
+
+  /**
+   * 消费一个路径片段，得到新的匹配状态（逐层遍历树时避免重复匹配整条路径）
+   * @param states 当前状态
+   * @param segment 路径片段
+   * @returns 新的状态数组（全部为假时后代都不可能匹配）
+   */
+  advance(states: boolean[], segment: string): boolean[] {
+    const tokens = this.tokens;
+    const end = tokens.length;
+    const next: boolean[] = Array.from({ length: end + 1 }, () => false);
+    for (let k = 0; k < end; k++) {
+      if (!states[k]) continue;
+      const token = tokens[k];
+      if (token.type === "descent") {
+        next[k] = true;
+      } else if (token.type === "wildcard" || token.value === segment) {
+        next[k + 1] = true;
+      }
+    }
+    return this.close(next);
+  }
+
+  /**
+   * 递归下降可以匹配零个片段：将其后的状态也标记为可达
+   */
+  private close(states: boolean[]): boolean[] {
+    const tokens = this.tokens;
+    for (let k = 0; k < tokens.length; k++) {
+      if (states[k] && tokens[k].type === "descent") {
+        states[k + 1] = true;
+      }
+    }
+    return states;
+  }
+
+  /**
+   * 便捷方法：判断路径是否与模式匹配
+   * @param pattern 模式字符串或已编译的模式
+   * @param path 路径数组
+   * @returns 是否匹配
+   */
+  static matches(pattern: string | PathPattern, path: string[]): boolean {
+    const compiled = typeof pattern === "string" ? new PathPattern(pattern) : pattern;
+    return compiled.matches(path);
+  }
+}
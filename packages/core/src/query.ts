@@ -0,0 +1,238 @@
+import { DiffType, ValueType, DiffNode, DiffResult } from "./types";
+import { PathPattern } from "./pathpattern";
+import { DiffPath } from "./diffpath";
+
+/**
+ * 差异类型（枚举值或其字符串形式，如 "added"）
+ */
+export type DiffTypeName = DiffType | `${DiffType}`;
+
+/**
+ * 值类型（枚举值或其字符串形式，如 "object"）
+ */
+export type ValueTypeName = ValueType | `${ValueType}`;
+
+/**
+ * 节点选择条件（所有条件同时满足的节点被选中）
+ */
+export interface NodeSelector {
+  type?: DiffTypeName | DiffTypeName[]; // 差异类型
+  valueType?: ValueTypeName | ValueTypeName[]; // 值类型
+  depth?: number | { min?: number; max?: number }; // 深度（根节点为 0）
+  path?: string | PathPattern; // 路径模式
+}
+
+/**
+ * Diff 结果的路径索引
+ * 按父节点与路径片段索引子节点，精确路径的查找只与路径长度有关，
+ * 路径模式的查询只遍历可能匹配的分支，而不是整棵树
+ * 索引按结果缓存，每个结果只构建一次；构建后修改结果不会更新索引
+ */
+export class DiffIndex {
+  private static cache = new WeakMap<DiffNode, DiffIndex>(); // 根节点及其索引
+
+  readonly root: DiffNode;
+  readonly nodes: DiffNode[]; // 所有节点（先序）
+  private childrenByKey = new Map<DiffNode, Map<string, DiffNode[]>>(); // 父节点 -> 路径片段 -> 子节点
+
+  private constructor(root: DiffNode) {
+    this.root = root;
+    this.nodes = [];
+
+    // 子节点逆序入栈，保持先序遍历的顺序
+    const stack: DiffNode[] = [root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      this.nodes.push(node);
+      if (!node.children || node.children.length === 0) {
+        continue;
+      }
+
+      // 数组中被删除的元素使用旧下标，可能与其他元素的路径片段相同
+      const byKey = new Map<string, DiffNode[]>();
+      for (const child of node.children) {
+        const key = DiffPath.lastKeyOf(child)!;
+        const siblings = byKey.get(key);
+        if (siblings) {
+          siblings.push(child);
+        } else {
+          byKey.set(key, [child]);
+        }
+      }
+      this.childrenByKey.set(node, byKey);
+
+      for (let i = node.children.length - 1; i >= 0; i--) {
+        stack.push(node.children[i]);
+      }
+    }
+  }
+
+  /**
+   * 获取 diff 结果的索引（首次调用时构建）
+   * @param result diff 结果
+   * @returns DiffIndex
+   */
+  static of(result: DiffResult): DiffIndex {
+    let index = this.cache.get(result.root);
+    if (!index) {
+      index = new DiffIndex(result.root);
+      this.cache.set(result.root, index);
+    }
+    return index;
+  }
+
+  /**
+   * 按精确路径查找节点
+   * @param path 路径数组
+   * @returns 先序遍历中第一个路径相同的节点
+   */
+  get(path: string[]): DiffNode | undefined {
+    const pattern = PathPattern.fromPath(path);
+    return this.match(pattern, true)[0];
+  }
+
+  /**
+   * 查询与路径模式匹配的节点
+   * @param pattern 路径模式（语法同 ignorePaths，如 "$.users[*].email"）
+   * @returns 匹配的节点（先序）
+   */
+  query(pattern: string | PathPattern): DiffNode[] {
+    return this.match(typeof pattern === "string" ? new PathPattern(pattern) : pattern, false);
+  }
+
+  /**
+   * 查询与路径模式匹配的子树中发生变化的节点（包括匹配的节点本身）
+   * @param pattern 路径模式
+   * @returns 类型不是 UNCHANGED 与 IGNORED 的节点（先序，不重复）
+   */
+  changesUnder(pattern: string | PathPattern): DiffNode[] {
+    const changes: DiffNode[] = [];
+    const seen = new Set<DiffNode>();
+
+    for (const match of this.query(pattern)) {
+      // 匹配的节点位于之前匹配的子树中时已经遍历过
+      if (seen.has(match)) {
+        continue;
+      }
+      const stack: DiffNode[] = [match];
+      while (stack.length > 0) {
+        const node = stack.pop()!;
+        seen.add(node);
+        if (node.type !== DiffType.UNCHANGED && node.type !== DiffType.IGNORED) {
+          changes.push(node);
+        }
+        if (node.children) {
+          for (let i = node.children.length - 1; i >= 0; i--) {
+            stack.push(node.children[i]);
+          }
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * 选择满足条件的节点
+   * @param selector 选择条件
+   * @returns 满足所有条件的节点（先序）
+   */
+  select(selector: NodeSelector): DiffNode[] {
+    const types = selector.type === undefined ? undefined : [selector.type].flat();
+    const valueTypes = selector.valueType === undefined ? undefined : [selector.valueType].flat();
+    const { min = 0, max = Infinity } =
+      typeof selector.depth === "number"
+        ? { min: selector.depth, max: selector.depth }
+        : (selector.depth ?? {});
+
+    const candidates = selector.path === undefined ? this.nodes : this.query(selector.path);
+    return candidates.filter((node) => {
+      const depth = DiffPath.lengthOf(node);
+      return (
+        (types === undefined || types.includes(node.type)) &&
+        (valueTypes === undefined || valueTypes.includes(node.valueType)) &&
+        depth >= min &&
+        depth <= max
+      );
+    });
+  }
+
+  /**
+   * 沿可能匹配的分支遍历，收集与模式完全匹配的节点
+   * 没有递归下降的模式在任意节点上至多有一个待匹配的片段，精确片段直接通过索引找到子节点
+   * @param pattern 路径模式
+   * @param first 是否在找到第一个匹配后停止
+   * @returns 匹配的节点（先序）
+   */
+  private match(pattern: PathPattern, first: boolean): DiffNode[] {
+    const tokens = pattern.tokens;
+    const end = tokens.length;
+    const matches: DiffNode[] = [];
+
+    const stack: Array<[DiffNode, boolean[]]> = [[this.root, pattern.initialStates()]];
+    while (stack.length > 0) {
+      const [node, states] = stack.pop()!;
+      if (states[end]) {
+        matches.push(node);
+        if (first) {
+          break;
+        }
+      }
+
+      const byKey = this.childrenByKey.get(node);
+      if (!byKey) {
+        continue;
+      }
+
+      // 只有一个待匹配的精确片段时直接查找子节点
+      const pending = states.flatMap((reachable, k) => (reachable && k < end ? [tokens[k]] : []));
+      let children: DiffNode[];
+      if (pending.length === 0) {
+        continue;
+      } else if (pending.length === 1 && pending[0].type === "key") {
+        children = byKey.get(pending[0].value) ?? [];
+      } else {
+        children = node.children!;
+      }
+
+      for (let i = children.length - 1; i >= 0; i--) {
+        const next = pattern.advance(states, DiffPath.lastKeyOf(children[i])!);
+        if (next.includes(true)) {
+          stack.push([children[i], next]);
+        }
+      }
+    }
+
+    return matches;
+  }
+}
+
+/**
+ * 便捷函数：查询与路径模式匹配的节点
+ * @param result diff 结果
+ * @param pattern 路径模式（如 "$.users[*].email"）
+ * @returns 匹配的节点（先序）
+ */
+export function query(result: DiffResult, pattern: string | PathPattern): DiffNode[] {
+  return DiffIndex.of(result).query(pattern);
+}
+
+/**
+ * 便捷函数：查询路径模式匹配的子树中发生变化的节点
+ * @param result diff 结果
+ * @param pattern 路径模式（如 "$.config"）
+ * @returns 发生变化的节点（先序）
+ */
+export function changesUnder(result: DiffResult, pattern: string | PathPattern): DiffNode[] {
+  return DiffIndex.of(result).changesUnder(pattern);
+}
+
+/**
+ * 便捷函数：选择满足条件的节点
+ * @param result diff 结果
+ * @param selector 选择条件
+ * @returns 满足所有条件的节点（先序）
+ */
+export function select(result: DiffResult, selector: NodeSelector): DiffNode[] {
+  return DiffIndex.of(result).select(selector);
+}
@@ -1,4 +1,7 @@
-import { DiffType, ValueType, DiffNode, DiffResult } from "./types";
+import { DiffType, ValueType, DiffNode, DiffResult, DiffStats, DiffTypeCounts } from "./types";
+import { DiffPath } from "./diffpath";
+import { TypeNormalizer } from "./normalizer";
+import { PathPattern } from "./pathpattern";
 
 /**
  * Diff Result 构建器
@@ -92,6 +95,33 @@ export class DiffResultBuilder {
     return node;
   }
 
+  /**
+   * 创建值类型发生变化的修改节点
+   * valueType 使用旧类型，oldValueType / newValueType 记录两侧的类型
+   * @param path JSON Path
+   * @param oldValueType 旧值类型
+   * @param newValueType 新值类型
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @returns DiffNode
+   */
+  static createTypeChangedNode(
+    path: string[],
+    oldValueType: ValueType,
+    newValueType: ValueType,
+    oldValue: any,
+    newValue: any,
+  ): DiffNode {
+    const node = this.createModifiedNode(path, oldValueType, oldValue, newValue);
+
+    if (oldValueType !== newValueType) {
+      node.oldValueType = oldValueType;
+      node.newValueType = newValueType;
+    }
+
+    return node;
+  }
+
   /**
    * 创建未改变节点
    * @param path JSON Path
@@ -121,6 +151,43 @@ export class DiffResultBuilder {
     return node;
   }
 
+  /**
+   * 创建移动节点
+   * @param path JSON Path（使用移动后的下标）
+   * @param valueType 值类型
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @param fromIndex 移动前的下标
+   * @param toIndex 移动后的下标
+   * @param children 子节点（可选，按身份键匹配时可能包含内部差异）
+   * @returns DiffNode
+   */
+  static createMovedNode(
+    path: string[],
+    valueType: ValueType,
+    oldValue: any,
+    newValue: any,
+    fromIndex: number,
+    toIndex: number,
+    children?: DiffNode[],
+  ): DiffNode {
+    const node: DiffNode = {
+      type: DiffType.MOVED,
+      path: [...path],
+      valueType,
+      oldValue,
+      newValue,
+      fromIndex,
+      toIndex,
+    };
+
+    if (children && children.length > 0) {
+      node.children = children;
+    }
+
+    return node;
+  }
+
   /**
    * 构建 JSON Path 字符串
    * @param path 路径数组
@@ -174,51 +241,294 @@ export class DiffResultBuilder {
 
   /**
    * 计算 diff 结果的统计信息
+   * 折叠的子树按展开后的值计数，与不折叠时的统计信息相同
    * @param root 根节点
    * @returns 统计信息对象
    */
-  static computeStats(root: DiffNode): {
-    added: number;
-    deleted: number;
-    modified: number;
-    unchanged: number;
-  } {
-    const stats = {
-      added: 0,
-      deleted: 0,
-      modified: 0,
-      unchanged: 0,
+  static computeStats(root: DiffNode): DiffStats {
+    const totals = this.emptyCounts();
+    const leaves = this.emptyCounts();
+    const containers = this.emptyCounts();
+    const byValueType: Partial<Record<ValueType, DiffTypeCounts>> = {};
+    const byTopLevelKey: Record<string, DiffTypeCounts> = Object.create(null);
+    let typeChanged = 0;
+    let maxChangeDepth = -1;
+    let bytesChanged = 0;
+
+    // 按叶子或容器计数
+    const count = (
+      type: DiffType,
+      valueType: ValueType,
+      container: boolean,
+      key: string | undefined,
+    ) => {
+      totals[type]++;
+      if (container) {
+        containers[type]++;
+        return;
+      }
+      leaves[type]++;
+      (byValueType[valueType] ??= this.emptyCounts())[type]++;
+      if (key !== undefined) {
+        (byTopLevelKey[key] ??= this.emptyCounts())[type]++;
+      }
     };
 
-    // 递归遍历所有节点
-    const traverse = (node: DiffNode) => {
-      // 统计当前节点
-      switch (node.type) {
-        case DiffType.ADDED:
-          stats.added++;
-          break;
-        case DiffType.DELETED:
-          stats.deleted++;
-          break;
-        case DiffType.MODIFIED:
-          stats.modified++;
-          break;
-        case DiffType.UNCHANGED:
-          stats.unchanged++;
-          break;
+    // 使用显式栈遍历所有节点，嵌套深度不受调用栈限制；[节点, 深度, 所在的顶层键]
+    const stack: Array<[DiffNode, number, string | undefined]> = [[root, 0, undefined]];
+    while (stack.length > 0) {
+      const [node, depth, key] = stack.pop()!;
+
+      if (node.newValueType !== undefined) {
+        typeChanged++;
+      }
+      if (node.type !== DiffType.UNCHANGED && node.type !== DiffType.IGNORED) {
+        maxChangeDepth = Math.max(maxChangeDepth, depth);
+      }
+
+      if (node.size !== undefined) {
+        // 折叠的子树逐个统计其中的值（根节点折叠时按值中的顶层键计数）
+        this.forEachValue(node.oldValue, (valueType, container, valueKey) =>
+          count(node.type, valueType, container, key ?? valueKey),
+        );
+        continue;
+      }
+
+      count(node.type, node.valueType, node.children !== undefined, key);
+      if (node.children) {
+        for (const child of node.children) {
+          stack.push([child, depth + 1, depth === 0 ? DiffPath.lastKeyOf(child) : key]);
+        }
+      } else {
+        bytesChanged += this.changedBytesOf(node);
       }
+    }
+
+    return {
+      ...totals,
+      typeChanged,
+      leaves,
+      containers,
+      byValueType,
+      byTopLevelKey,
+      maxChangeDepth,
+      bytesChanged,
+    };
+  }
+
+  /**
+   * 按比较时展开的方式遍历值及其中的所有值，重复出现的引用只展开一次
+   * 访问的值的数量即折叠节点的 size
+   * @param value 值
+   * @param visit 回调（值的类型、是否为展开的容器、所在的顶层键，value 自身为 undefined）
+   */
+  static forEachValue(
+    value: any,
+    visit: (valueType: ValueType, container: boolean, key: string | undefined) => void,
+  ): void {
+    const seen = new Set<object>();
+    const stack: Array<[any, string | undefined]> = [[value, undefined]];
+
+    while (stack.length > 0) {
+      const [item, key] = stack.pop()!;
+      const valueType = TypeNormalizer.getValueType(item);
+      const container =
+        valueType === ValueType.OBJECT ||
+        valueType === ValueType.ARRAY ||
+        valueType === ValueType.MAP ||
+        valueType === ValueType.SET;
+      visit(valueType, container, key);
+      if (!container || seen.has(item)) {
+        continue;
+      }
+      seen.add(item);
+
+      // 子值的顶层键：value 的子值使用自身的键，更深的值沿用祖先的键
+      const keyOf = (childKey: string) => (item === value ? childKey : key);
+      if (item instanceof Map) {
+        for (const [mapKey, child] of item)
+          stack.push([child, keyOf(TypeNormalizer.formatKey(mapKey))]);
+      } else if (item instanceof Set) {
+        for (const child of item) stack.push([child, keyOf(TypeNormalizer.formatKey(child))]);
+      } else {
+        for (const childKey of Object.keys(item)) stack.push([item[childKey], keyOf(childKey)]);
+      }
+    }
+  }
+
+  /**
+   * 创建全为 0 的差异类型计数
+   */
+  private static emptyCounts(): DiffTypeCounts {
+    return { added: 0, deleted: 0, modified: 0, unchanged: 0, moved: 0, ignored: 0 };
+  }
+
+  /**
+   * 计算叶子节点变化的字节数
+   * 新增与删除按整个值计算，修改按新旧值之和计算；有字节级或字符串内部差异时只计算变化的部分
+   */
+  private static changedBytesOf(node: DiffNode): number {
+    switch (node.type) {
+      case DiffType.ADDED:
+        return this.byteSizeOf(node.newValue, node.valueType);
+      case DiffType.DELETED:
+        return this.byteSizeOf(node.oldValue, node.valueType);
+      case DiffType.MODIFIED:
+        if (node.byteDiff) {
+          return node.byteDiff.changedBytes;
+        }
+        if (node.textDiff) {
+          return node.textDiff
+            .filter((segment) => segment.op !== "equal")
+            .reduce((sum, segment) => sum + this.utf8Length(segment.text), 0);
+        }
+        return (
+          this.byteSizeOf(node.oldValue, node.oldValueType ?? node.valueType) +
+          this.byteSizeOf(node.newValue, node.newValueType ?? node.valueType)
+        );
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * 计算值的字节数：字符串按 UTF-8 编码，二进制数据按字节长度，其余值按序列化形式
+   * 包含循环引用等无法序列化的值不计入
+   */
+  private static byteSizeOf(value: any, valueType: ValueType): number {
+    if (typeof value === "string") {
+      return this.utf8Length(value);
+    }
+    if (valueType === ValueType.TYPED_ARRAY) {
+      return TypeNormalizer.normalizeBytes(value).length;
+    }
+    try {
+      return this.utf8Length(TypeNormalizer.serialize(value, valueType));
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * 计算字符串的 UTF-8 编码长度（孤立的代理项按替换字符计算）
+   */
+  private static utf8Length(text: string): number {
+    let length = 0;
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      if (code < 0x80) {
+        length += 1;
+      } else if (code < 0x800) {
+        length += 2;
+      } else if (code >= 0xd800 && code <= 0xdbff && (text.charCodeAt(i + 1) & 0xfc00) === 0xdc00) {
+        // 代理对
+        length += 4;
+        i++;
+      } else {
+        length += 3;
+      }
+    }
+    return length;
+  }
+
+  /**
+   * 计算两个文档的相似度
+   * 每个值（容器与叶子）按其所在路径的权重计入：两侧都存在且未改变的值计为相同，
+   * 新增、删除与修改的值按其子树大小计为不同（修改取新旧子树中较大者），移动的值按内容比较；
+   * 被忽略的值不参与计算。节点的权重由第一个匹配其路径的规则决定，没有匹配的规则时继承父节点（根节点为 1）
+   * 没有子节点的子树（新增、删除、折叠等）作为整体计入，其内部路径的权重规则不生效
+   * @param root 根节点
+   * @param weights 路径模式及其权重（权重为 0 时排除整个子树）
+   * @returns 0 到 1 之间的相似度（没有参与计算的值时为 1）
+   */
+  static computeSimilarity(root: DiffNode, weights: Record<string, number> = {}): number {
+    const rules = Object.entries(weights).map(([pattern, weight]): [PathPattern, number] => {
+      if (!(weight >= 0 && weight < Infinity)) {
+        throw new Error(
+          `Similarity weight for "${pattern}" must be a non-negative number, got: ${weight}`,
+        );
+      }
+      return [PathPattern.compile(pattern), weight];
+    });
+
+    // 根节点的匹配状态（比较数组元素时根节点的路径不为空）
+    const rootStates = rules.map(([pattern]) =>
+      root.path.reduce((states, key) => pattern.advance(states, key), pattern.initialStates()),
+    );
+
+    let same = 0;
+    let total = 0;
+
+    // 使用显式栈遍历所有节点；[节点, 权重, 各规则的匹配状态]
+    const stack: Array<[DiffNode, number, boolean[][]]> = [[root, 1, rootStates]];
+    while (stack.length > 0) {
+      const [node, inherited, states] = stack.pop()!;
+      const matched = rules.findIndex(([pattern], i) => states[i][pattern.tokens.length]);
+      const weight = matched === -1 ? inherited : rules[matched][1];
+
+      const [nodeSame, nodeTotal] = this.similarityOf(node);
+      same += weight * nodeSame;
+      total += weight * nodeTotal;
 
-      // 递归统计子节点
       if (node.children) {
         for (const child of node.children) {
-          traverse(child);
+          const key = DiffPath.lastKeyOf(child)!;
+          const childStates =
+            rules.length === 0
+              ? states
+              : rules.map(([pattern], i) => pattern.advance(states[i], key));
+          stack.push([child, weight, childStates]);
         }
       }
+    }
+
+    return total === 0 ? 1 : same / total;
+  }
+
+  /**
+   * 计算单个节点自身计入相似度的值的数量（不包括 children 中的子节点）
+   * @returns [相同的数量, 总数]
+   */
+  private static similarityOf(node: DiffNode): [number, number] {
+    const sizeOf = (value: any) => {
+      let count = 0;
+      this.forEachValue(value, () => count++);
+      return count;
     };
 
-    traverse(root);
+    // 循环引用只计为一个值
+    if (node.circular) {
+      return node.type === DiffType.UNCHANGED ? [1, 1] : [0, 1];
+    }
+
+    switch (node.type) {
+      case DiffType.IGNORED:
+        return [0, 0];
+      case DiffType.ADDED:
+        return [0, sizeOf(node.newValue)];
+      case DiffType.DELETED:
+        return [0, sizeOf(node.oldValue)];
+    }
+
+    if (!node.children) {
+      if (node.type === DiffType.MODIFIED) {
+        return [0, Math.max(sizeOf(node.oldValue), sizeOf(node.newValue))];
+      }
+      // 未改变的值与内容相同的移动元素
+      const size = node.size ?? sizeOf(node.oldValue);
+      return [size, size];
+    }
 
-    return stats;
+    // 容器自身在两侧都存在；省略的子节点都未改变，数量由旧值的大小推算
+    let omitted = 0;
+    if (node.omitted) {
+      const kept = node.children.reduce(
+        (sum, child) => sum + (child.type === DiffType.ADDED ? 0 : sizeOf(child.oldValue)),
+        0,
+      );
+      omitted = Math.max(0, sizeOf(node.oldValue) - 1 - kept);
+    }
+    return [1 + omitted, 1 + omitted];
   }
 
   /**
@@ -228,21 +538,78 @@ export class DiffResultBuilder {
    */
   static buildResult(root: DiffNode): DiffResult {
     const stats = this.computeStats(root);
+    const similarity = this.computeSimilarity(root);
 
     return {
       root,
       stats,
+      similarity,
     };
   }
 
+  /**
+   * 移除容器节点中未改变的子节点，只保留变化以及每处变化前后 context 个未改变的兄弟节点
+   * 省略的子节点数累加到 omitted 上；被忽略的节点保留，但不作为保留上下文的依据
+   * @param node 容器节点（直接修改）
+   * @param context 每处变化前后保留的未改变兄弟节点数
+   */
+  static omitUnchangedChildren(node: DiffNode, context = 0): void {
+    const children = node.children;
+    if (!children || children.length === 0) {
+      return;
+    }
+
+    const keep = children.map((child) => child.type !== DiffType.UNCHANGED);
+    if (context > 0) {
+      children.forEach((child, index) => {
+        if (child.type === DiffType.UNCHANGED || child.type === DiffType.IGNORED) {
+          return;
+        }
+        const end = Math.min(children.length - 1, index + context);
+        for (let i = Math.max(0, index - context); i <= end; i++) {
+          keep[i] = true;
+        }
+      });
+    }
+
+    const kept = children.filter((_, index) => keep[index]);
+    if (kept.length < children.length) {
+      node.children = kept;
+      node.omitted = (node.omitted ?? 0) + children.length - kept.length;
+    }
+  }
+
   /**
    * 验证 DiffNode 的结构完整性
    * @param node 要验证的节点
    * @returns 是否有效
    */
   static validateNode(node: DiffNode): boolean {
-    // 检查必需字段
-    if (!node.type || !node.path || !node.valueType) {
+    // 使用显式栈验证所有节点，嵌套深度不受调用栈限制
+    const stack: DiffNode[] = [node];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (!this.validateFields(current)) {
+        return false;
+      }
+      if (current.children) {
+        for (const child of current.children) {
+          stack.push(child);
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * 验证单个节点的字段（不包括子节点）
+   * @param node 要验证的节点
+   * @returns 是否有效
+   */
+  private static validateFields(node: DiffNode): boolean {
+    // 检查必需字段（不会生成延迟路径）
+    if (!node.type || !DiffPath.hasPath(node) || !node.valueType) {
       return false;
     }
 
@@ -272,18 +639,25 @@ export class DiffResultBuilder {
           return false;
         }
         break;
-    }
-
-    // 递归验证子节点
-    if (node.children) {
-      for (const child of node.children) {
-        if (!this.validateNode(child)) {
+      case DiffType.MOVED:
+        // MOVED 节点必须有 oldValue、newValue 以及移动前后的下标
+        if (!("oldValue" in node) || !("newValue" in node)) {
           return false;
         }
-      }
+        if (typeof node.fromIndex !== "number" || typeof node.toIndex !== "number") {
+          return false;
+        }
+        break;
+      case DiffType.IGNORED:
+        // IGNORED 节点至少有一侧的值
+        if (!("oldValue" in node) && !("newValue" in node)) {
+          return false;
+        }
+        break;
     }
 
-    return true;
+    // oldValueType 与 newValueType 必须同时出现
+    return (node.oldValueType === undefined) === (node.newValueType === undefined);
   }
 
   /**
@@ -292,11 +666,33 @@ export class DiffResultBuilder {
    * @returns 克隆的节点
    */
   static cloneNode(node: DiffNode): DiffNode {
-    const cloned: DiffNode = {
-      type: node.type,
-      path: [...node.path],
-      valueType: node.valueType,
-    };
+    const root = this.cloneFields(node);
+
+    // 使用显式栈逐层克隆子节点，嵌套深度不受调用栈限制
+    const stack: Array<[DiffNode, DiffNode]> = [[node, root]];
+    while (stack.length > 0) {
+      const [source, target] = stack.pop()!;
+      if (source.children) {
+        target.children = source.children.map((child) => {
+          const cloned = this.cloneFields(child);
+          stack.push([child, cloned]);
+          return cloned;
+        });
+      }
+    }
+
+    return root;
+  }
+
+  /**
+   * 克隆单个节点的字段（不包括子节点）
+   * @param node 要克隆的节点
+   * @returns 克隆的节点
+   */
+  private static cloneFields(node: DiffNode): DiffNode {
+    const cloned = { type: node.type } as DiffNode;
+    DiffPath.copyPath(node, cloned);
+    cloned.valueType = node.valueType;
 
     if ("oldValue" in node) {
       cloned.oldValue = node.oldValue;
@@ -306,20 +702,112 @@ export class DiffResultBuilder {
       cloned.newValue = node.newValue;
     }
 
-    if (node.children) {
-      cloned.children = node.children.map((child) => this.cloneNode(child));
+    if (node.truncated) {
+      cloned.truncated = true;
+    }
+
+    if (node.fromIndex !== undefined) {
+      cloned.fromIndex = node.fromIndex;
+    }
+
+    if (node.toIndex !== undefined) {
+      cloned.toIndex = node.toIndex;
+    }
+
+    if (node.delta !== undefined) {
+      cloned.delta = node.delta;
+    }
+
+    if (node.customType !== undefined) {
+      cloned.customType = node.customType;
+    }
+
+    if (node.newValueType !== undefined) {
+      cloned.oldValueType = node.oldValueType;
+      cloned.newValueType = node.newValueType;
+    }
+
+    if ("mapKey" in node) {
+      cloned.mapKey = node.mapKey;
+    }
+
+    if (node.size !== undefined) {
+      cloned.size = node.size;
+    }
+
+    if (node.omitted !== undefined) {
+      cloned.omitted = node.omitted;
+    }
+
+    if (node.byteDiff) {
+      cloned.byteDiff = { ...node.byteDiff };
+    }
+
+    if (node.textDiff) {
+      cloned.textDiff = node.textDiff.map((segment) => ({ ...segment }));
+    }
+
+    if (node.circular) {
+      cloned.circular = {
+        oldRefPath: node.circular.oldRefPath && [...node.circular.oldRefPath],
+        newRefPath: node.circular.newRefPath && [...node.circular.newRefPath],
+      };
     }
 
     return cloned;
   }
 
+  /**
+   * 计算数组节点的每个子节点在旧数组和新数组中的下标
+   * 子节点按操作顺序排列：ADDED 只占用新下标，DELETED 只占用旧下标，
+   * 带有 fromIndex 的节点（MOVED 以及无序比较的元素）的旧下标由 fromIndex 给出，其余节点依次占用新旧下标
+   * 省略了元素的数组无法推算下标
+   * @param node 数组节点
+   * @returns 与 children 一一对应的下标信息
+   */
+  static resolveArrayIndices(node: DiffNode): Array<{ oldIndex?: number; newIndex?: number }> {
+    if (node.omitted) {
+      throw new Error(
+        `Cannot resolve array indices at ${this.buildJsonPath(node.path)}: array elements were omitted`,
+      );
+    }
+    const children = node.children ?? [];
+    const movedFrom = new Set<number>();
+    for (const child of children) {
+      if (child.type !== DiffType.ADDED && child.fromIndex !== undefined) {
+        movedFrom.add(child.fromIndex);
+      }
+    }
+
+    let oldCursor = 0;
+    let newCursor = 0;
+    const nextOldIndex = () => {
+      // 跳过已被移动走的旧下标
+      while (movedFrom.has(oldCursor)) {
+        oldCursor++;
+      }
+      return oldCursor++;
+    };
+
+    return children.map((child) => {
+      switch (child.type) {
+        case DiffType.ADDED:
+          return { newIndex: newCursor++ };
+        case DiffType.DELETED:
+          return { oldIndex: child.fromIndex ?? nextOldIndex() };
+        default:
+          return { oldIndex: child.fromIndex ?? nextOldIndex(), newIndex: newCursor++ };
+      }
+    });
+  }
+
   /**
    * 获取节点的深度
    * @param node 节点
    * @returns 深度（根节点为 0）
    */
   static getNodeDepth(node: DiffNode): number {
-    return node.path.length;
+    return DiffPath.lengthOf(node);
   }
 
   /**
@@ -328,12 +816,16 @@ export class DiffResultBuilder {
    * @returns 最大深度
    */
   static getMaxDepth(node: DiffNode): number {
-    let maxDepth = node.path.length;
-
-    if (node.children) {
-      for (const child of node.children) {
-        const childDepth = this.getMaxDepth(child);
-        maxDepth = Math.max(maxDepth, childDepth);
+    let maxDepth = 0;
+
+    const stack: DiffNode[] = [node];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      maxDepth = Math.max(maxDepth, DiffPath.lengthOf(current));
+      if (current.children) {
+        for (const child of current.children) {
+          stack.push(child);
+        }
       }
     }
 
@@ -346,11 +838,16 @@ export class DiffResultBuilder {
    * @returns 节点总数
    */
   static countNodes(node: DiffNode): number {
-    let count = 1; // 当前节点
-
-    if (node.children) {
-      for (const child of node.children) {
-        count += this.countNodes(child);
+    let count = 0;
+
+    const stack: DiffNode[] = [node];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      count++;
+      if (current.children) {
+        for (const child of current.children) {
+          stack.push(child);
+        }
       }
     }
 
@@ -366,19 +863,20 @@ export class DiffResultBuilder {
   static filterNodes(node: DiffNode, predicate: (node: DiffNode) => boolean): DiffNode[] {
     const result: DiffNode[] = [];
 
-    const traverse = (n: DiffNode) => {
-      if (predicate(n)) {
-        result.push(n);
+    // 子节点逆序入栈，保持先序遍历的顺序
+    const stack: DiffNode[] = [node];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (predicate(current)) {
+        result.push(current);
       }
 
-      if (n.children) {
-        for (const child of n.children) {
-          traverse(child);
+      if (current.children) {
+        for (let i = current.children.length - 1; i >= 0; i--) {
+          stack.push(current.children[i]);
         }
       }
-    };
-
-    traverse(node);
+    }
 
     return result;
   }
@@ -390,17 +888,19 @@ export class DiffResultBuilder {
    * @returns 找到的节点，如果不存在则返回 undefined
    */
   static findNodeByPath(root: DiffNode, targetPath: string[]): DiffNode | undefined {
-    // 检查当前节点
-    if (this.pathsEqual(root.path, targetPath)) {
-      return root;
-    }
+    // 子节点逆序入栈，保持先序遍历的顺序
+    const stack: DiffNode[] = [root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+
+      // 先比较长度，长度不同的延迟路径不需要生成
+      if (DiffPath.lengthOf(node) === targetPath.length && this.pathsEqual(node.path, targetPath)) {
+        return node;
+      }
 
-    // 递归查找子节点
-    if (root.children) {
-      for (const child of root.children) {
-        const found = this.findNodeByPath(child, targetPath);
-        if (found) {
-          return found;
+      if (node.children) {
+        for (let i = node.children.length - 1; i >= 0; i--) {
+          stack.push(node.children[i]);
         }
       }
     }
@@ -0,0 +1,385 @@
+/**
+ * 序列比较算法
+ * 元素为整数 id 的序列（相等的元素具有相同的 id），结果为按下标递增排列的匹配对
+ */
+
+/**
+ * 匹配对：a[oldIndex] 与 b[newIndex] 相等
+ */
+export interface SequenceMatch {
+  oldIndex: number;
+  newIndex: number;
+}
+
+/**
+ * 待处理的区间 [aStart, aEnd) × [bStart, bEnd)
+ */
+interface SequenceRange {
+  aStart: number;
+  aEnd: number;
+  bStart: number;
+  bEnd: number;
+}
+
+/**
+ * 工作栈中的任务：待比较的区间或已确定的匹配对
+ */
+type SequenceTask = { range: SequenceRange } | { match: SequenceMatch };
+
+/**
+ * 精确 LCS 动态规划允许的最大单元格数，超过时回退到 Myers 算法
+ */
+export const LCS_MAX_CELLS = 1_000_000;
+
+/**
+ * 序列匹配器
+ * 所有算法都先去除公共前缀和后缀，并使用显式工作栈代替递归，避免大数组导致调用栈溢出
+ */
+export class SequenceMatcher {
+  /**
+   * Myers O(ND) 差分算法（线性空间的中间蛇分治版本）
+   * 对大部分元素相同的长序列接近线性
+   * @param a 旧序列
+   * @param b 新序列
+   * @returns 匹配对
+   */
+  static myers(a: ArrayLike<number>, b: ArrayLike<number>): SequenceMatch[] {
+    return this.run(a, b, (range, push) => this.myersSplit(a, b, range, push));
+  }
+
+  /**
+   * Patience 差分算法
+   * 以两侧都只出现一次的元素作为锚点（取最长递增子序列），锚点之间的区间递归处理，
+   * 没有唯一元素的区间使用 Myers 算法
+   * @param a 旧序列
+   * @param b 新序列
+   * @returns 匹配对
+   */
+  static patience(a: ArrayLike<number>, b: ArrayLike<number>): SequenceMatch[] {
+    return this.run(a, b, (range, push) => {
+      const anchors = this.uniqueAnchors(a, b, range);
+      if (anchors.length === 0) {
+        this.myersSplit(a, b, range, push);
+        return;
+      }
+
+      // 按逆序入栈：最后一个锚点之后的区间、锚点、锚点之间的区间……
+      let aEnd = range.aEnd;
+      let bEnd = range.bEnd;
+      for (let i = anchors.length - 1; i >= 0; i--) {
+        const anchor = anchors[i];
+        push({
+          range: { aStart: anchor.oldIndex + 1, aEnd, bStart: anchor.newIndex + 1, bEnd },
+        });
+        push({ match: anchor });
+        aEnd = anchor.oldIndex;
+        bEnd = anchor.newIndex;
+      }
+      push({ range: { aStart: range.aStart, aEnd, bStart: range.bStart, bEnd } });
+    });
+  }
+
+  /**
+   * 经典 LCS 动态规划
+   * 去除公共前后缀后的区间超过 LCS_MAX_CELLS 个单元格时回退到 Myers 算法
+   * @param a 旧序列
+   * @param b 新序列
+   * @returns 匹配对
+   */
+  static lcs(a: ArrayLike<number>, b: ArrayLike<number>): SequenceMatch[] {
+    return this.run(a, b, (range, push) => {
+      const m = range.aEnd - range.aStart;
+      const n = range.bEnd - range.bStart;
+      if (m * n > LCS_MAX_CELLS) {
+        this.myersSplit(a, b, range, push);
+        return;
+      }
+      // 匹配对按逆序得到，逆序入栈后即为正序输出
+      for (const match of this.lcsTable(a, b, range)) {
+        push({ match });
+      }
+    });
+  }
+
+  /**
+   * 使用工作栈依次处理区间
+   * 每个区间先去除公共前后缀，剩余部分交给 split 拆分为子任务
+   * @param a 旧序列
+   * @param b 新序列
+   * @param split 区间拆分函数，按逆序调用 push 添加子任务
+   * @returns 匹配对
+   */
+  private static run(
+    a: ArrayLike<number>,
+    b: ArrayLike<number>,
+    split: (range: SequenceRange, push: (task: SequenceTask) => void) => void,
+  ): SequenceMatch[] {
+    const matches: SequenceMatch[] = [];
+    const stack: SequenceTask[] = [
+      { range: { aStart: 0, aEnd: a.length, bStart: 0, bEnd: b.length } },
+    ];
+    const push = (task: SequenceTask) => stack.push(task);
+
+    while (stack.length > 0) {
+      const task = stack.pop()!;
+      if ("match" in task) {
+        matches.push(task.match);
+        continue;
+      }
+
+      let { aStart, aEnd, bStart, bEnd } = task.range;
+
+      // 公共前缀
+      while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+        matches.push({ oldIndex: aStart++, newIndex: bStart++ });
+      }
+
+      // 公共后缀（在剩余区间处理完之后输出）
+      let suffix = 0;
+      while (aStart < aEnd - suffix && bStart < bEnd - suffix) {
+        if (a[aEnd - suffix - 1] !== b[bEnd - suffix - 1]) break;
+        suffix++;
+      }
+      for (let k = 0; k < suffix; k++) {
+        stack.push({ match: { oldIndex: aEnd - k - 1, newIndex: bEnd - k - 1 } });
+      }
+      aEnd -= suffix;
+      bEnd -= suffix;
+
+      if (aStart < aEnd && bStart < bEnd) {
+        split({ aStart, aEnd, bStart, bEnd }, push);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * 用中间蛇将区间一分为二（区间的首尾元素已保证不相等）
+   * 两侧没有公共元素时不产生任何子任务
+   */
+  private static myersSplit(
+    a: ArrayLike<number>,
+    b: ArrayLike<number>,
+    range: SequenceRange,
+    push: (task: SequenceTask) => void,
+  ): void {
+    const { aStart, aEnd, bStart, bEnd } = range;
+    if (!this.hasCommon(a, b, range)) {
+      return;
+    }
+
+    const split = this.middleSnake(a, b, range);
+    if (
+      !split ||
+      (split.x === aStart && split.y === bStart) ||
+      (split.x === aEnd && split.y === bEnd)
+    ) {
+      // 无法进一步拆分（理论上不会发生），退回到没有匹配的结果
+      return;
+    }
+
+    push({ range: { aStart: split.x, aEnd, bStart: split.y, bEnd } });
+    push({ range: { aStart, aEnd: split.x, bStart, bEnd: split.y } });
+  }
+
+  /**
+   * 查找最短编辑路径的中点（同时从两端搜索，路径重叠时返回分割点）
+   * @returns 分割点（绝对下标），两侧没有重叠路径时返回 undefined
+   */
+  private static middleSnake(
+    a: ArrayLike<number>,
+    b: ArrayLike<number>,
+    range: SequenceRange,
+  ): { x: number; y: number } | undefined {
+    const { aStart, bStart } = range;
+    const n = range.aEnd - aStart;
+    const m = range.bEnd - bStart;
+    const maxD = Math.ceil((n + m) / 2);
+    const offset = maxD;
+    const size = 2 * maxD + 2;
+    // forward[k] / backward[k]：在对角线 k 上到达的最远 x（-1 表示尚未到达）
+    const forward = new Int32Array(size).fill(-1);
+    const backward = new Int32Array(size).fill(-1);
+    forward[offset + 1] = 0;
+    backward[offset + 1] = 0;
+
+    const delta = n - m;
+    // delta 为奇数时在正向搜索中检查重叠，否则在反向搜索中检查
+    const checkForward = delta % 2 !== 0;
+    // 超出边界的对角线不再扩展
+    let forwardStart = 0;
+    let forwardEnd = 0;
+    let backwardStart = 0;
+    let backwardEnd = 0;
+
+    for (let d = 0; d < maxD; d++) {
+      for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+        const index = offset + k;
+        let x =
+          k === -d || (k !== d && forward[index - 1] < forward[index + 1])
+            ? forward[index + 1]
+            : forward[index - 1] + 1;
+        let y = x - k;
+        while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+          x++;
+          y++;
+        }
+        forward[index] = x;
+
+        if (x > n) {
+          forwardEnd += 2;
+        } else if (y > m) {
+          forwardStart += 2;
+        } else if (checkForward) {
+          const other = offset + delta - k;
+          if (other >= 0 && other < size && backward[other] !== -1 && x >= n - backward[other]) {
+            return { x: aStart + x, y: bStart + y };
+          }
+        }
+      }
+
+      for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+        const index = offset + k;
+        let x =
+          k === -d || (k !== d && backward[index - 1] < backward[index + 1])
+            ? backward[index + 1]
+            : backward[index - 1] + 1;
+        let y = x - k;
+        while (x < n && y < m && a[aStart + n - x - 1] === b[bStart + m - y - 1]) {
+          x++;
+          y++;
+        }
+        backward[index] = x;
+
+        if (x > n) {
+          backwardEnd += 2;
+        } else if (y > m) {
+          backwardStart += 2;
+        } else if (!checkForward) {
+          const other = offset + delta - k;
+          if (other >= 0 && other < size && forward[other] !== -1) {
+            const forwardX = forward[other];
+            const forwardY = forwardX - (other - offset);
+            if (forwardX >= n - x) {
+              return { x: aStart + forwardX, y: bStart + forwardY };
+            }
+          }
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 判断两个区间是否存在公共元素
+   */
+  private static hasCommon(a: ArrayLike<number>, b: ArrayLike<number>, range: SequenceRange) {
+    const seen = new Set<number>();
+    for (let i = range.aStart; i < range.aEnd; i++) {
+      seen.add(a[i]);
+    }
+    for (let j = range.bStart; j < range.bEnd; j++) {
+      if (seen.has(b[j])) return true;
+    }
+    return false;
+  }
+
+  /**
+   * 查找 patience 锚点：两侧区间内都只出现一次的元素中，按新下标递增的最长子序列
+   */
+  private static uniqueAnchors(
+    a: ArrayLike<number>,
+    b: ArrayLike<number>,
+    range: SequenceRange,
+  ): SequenceMatch[] {
+    // 出现次数：-1 表示出现多次
+    const inA = new Map<number, number>();
+    for (let i = range.aStart; i < range.aEnd; i++) {
+      inA.set(a[i], inA.has(a[i]) ? -1 : i);
+    }
+    const inB = new Map<number, number>();
+    for (let j = range.bStart; j < range.bEnd; j++) {
+      inB.set(b[j], inB.has(b[j]) ? -1 : j);
+    }
+
+    const candidates: SequenceMatch[] = [];
+    for (let i = range.aStart; i < range.aEnd; i++) {
+      const oldIndex = inA.get(a[i])!;
+      const newIndex = inB.get(a[i]);
+      if (oldIndex !== -1 && newIndex !== undefined && newIndex !== -1) {
+        candidates.push({ oldIndex, newIndex });
+      }
+    }
+
+    // 耐心排序求最长递增子序列
+    const tails: number[] = []; // tails[len] 为长度 len + 1 的子序列末尾候选的下标
+    const previous = new Int32Array(candidates.length).fill(-1);
+    for (let c = 0; c < candidates.length; c++) {
+      const value = candidates[c].newIndex;
+      let low = 0;
+      let high = tails.length;
+      while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (candidates[tails[mid]].newIndex < value) {
+          low = mid + 1;
+        } else {
+          high = mid;
+        }
+      }
+      if (low > 0) {
+        previous[c] = tails[low - 1];
+      }
+      tails[low] = c;
+    }
+
+    const anchors: SequenceMatch[] = [];
+    for (let c = tails.length > 0 ? tails[tails.length - 1] : -1; c !== -1; c = previous[c]) {
+      anchors.push(candidates[c]);
+    }
+    return anchors.reverse();
+  }
+
+  /**
+   * 对区间执行 LCS 动态规划并回溯
+   * 回溯规则：元素相等时匹配，否则优先删除能保持更长 LCS 的一侧，相同时先回退新序列
+   * @returns 逆序排列的匹配对
+   */
+  private static lcsTable(
+    a: ArrayLike<number>,
+    b: ArrayLike<number>,
+    range: SequenceRange,
+  ): SequenceMatch[] {
+    const { aStart, bStart } = range;
+    const m = range.aEnd - aStart;
+    const n = range.bEnd - bStart;
+    const width = n + 1;
+    const dp = new Int32Array((m + 1) * width);
+
+    for (let i = 1; i <= m; i++) {
+      for (let j = 1; j <= n; j++) {
+        dp[i * width + j] =
+          a[aStart + i - 1] === b[bStart + j - 1]
+            ? dp[(i - 1) * width + j - 1] + 1
+            : Math.max(dp[(i - 1) * width + j], dp[i * width + j - 1]);
+      }
+    }
+
+    const matches: SequenceMatch[] = [];
+    let i = m;
+    let j = n;
+    while (i > 0 && j > 0) {
+      if (a[aStart + i - 1] === b[bStart + j - 1]) {
+        matches.push({ oldIndex: aStart + i - 1, newIndex: bStart + j - 1 });
+        i--;
+        j--;
+      } else if (dp[(i - 1) * width + j] > dp[i * width + j - 1]) {
+        i--;
+      } else {
+        j--;
+      }
+    }
+    return matches;
+  }
+}
@@ -0,0 +1,122 @@
+import { ValueType } from "./types";
+import { TypeNormalizer } from "./normalizer";
+import { LCSArrayDiff } from "./lcs";
+
+/**
+ * 子树内容哈希
+ * 每个对象的哈希按引用缓存，比较过程中逐层查询子树的哈希总共只需要 O(n)
+ * 哈希只用于快速排除内容不同的子树，哈希相同的子树仍需深度比较确认
+ * 缓存跨多次比较保留，适合比较不可变数据（如 Redux / Immer 的状态）的连续版本
+ */
+export class SubtreeHasher {
+  private hashes = new WeakMap<object, number | null>(); // 对象的哈希（null 表示子树中有循环引用）
+
+  /**
+   * 计算值的内容哈希
+   * 使用显式栈后序遍历，嵌套深度不受调用栈限制
+   * @param value 值
+   * @returns 32 位整数哈希，子树中有循环引用时返回 undefined
+   */
+  hash(value: any): number | undefined {
+    if (!this.isContainer(value)) {
+      return LCSArrayDiff.hash(value);
+    }
+
+    const pending = new Set<object>(); // 正在计算的对象（当前分支上的祖先）
+    const stack: Array<{ value: object; expanded: boolean }> = [{ value, expanded: false }];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (this.hashes.has(frame.value) || (!frame.expanded && pending.has(frame.value))) {
+        // 已计算，或指向祖先（循环引用，父节点的哈希为 null）
+        stack.pop();
+        continue;
+      }
+
+      if (!frame.expanded) {
+        frame.expanded = true;
+        pending.add(frame.value);
+        for (const child of this.childrenOf(frame.value)) {
+          if (this.isContainer(child) && !this.hashes.has(child)) {
+            stack.push({ value: child, expanded: false });
+          }
+        }
+        continue;
+      }
+
+      stack.pop();
+      pending.delete(frame.value);
+      this.hashes.set(frame.value, this.combine(frame.value));
+    }
+
+    return this.hashes.get(value) ?? undefined;
+  }
+
+  /**
+   * 判断值是否为需要逐层计算哈希的容器（对象、数组、Map 与 Set）
+   */
+  private isContainer(value: any): value is object {
+    if (value === null || typeof value !== "object") {
+      return false;
+    }
+    const type = TypeNormalizer.getValueType(value);
+    return (
+      type === ValueType.OBJECT ||
+      type === ValueType.ARRAY ||
+      type === ValueType.MAP ||
+      type === ValueType.SET
+    );
+  }
+
+  /**
+   * 获取容器的直接子值（Map 包括键和值）
+   */
+  private childrenOf(value: any): any[] {
+    if (value instanceof Map) {
+      return [...value.keys(), ...value.values()];
+    }
+    if (value instanceof Set) {
+      return [...value];
+    }
+    if (Array.isArray(value)) {
+      return value;
+    }
+    return Object.keys(value).map((key) => value[key]);
+  }
+
+  /**
+   * 由子值的哈希合成容器的哈希
+   * 数组的哈希与元素顺序有关，对象、Map 与 Set 的哈希与顺序无关
+   * @returns 哈希，任一子值的哈希为 null 时返回 null
+   */
+  private combine(value: any): number | null {
+    const hashOf = (child: any): number | null =>
+      this.isContainer(child) ? (this.hashes.get(child) ?? null) : LCSArrayDiff.hash(child);
+
+    let hash: number;
+    if (Array.isArray(value)) {
+      hash = LCSArrayDiff.hashString("a:" + value.length);
+      for (const item of value) {
+        const itemHash = hashOf(item);
+        if (itemHash === null) return null;
+        hash = (Math.imul(hash, 31) + itemHash) | 0;
+      }
+      return hash;
+    }
+
+    const entries: Array<[any, any]> =
+      value instanceof Map
+        ? Array.from(value)
+        : value instanceof Set
+          ? Array.from(value, (member): [any, any] => [member, member])
+          : Object.keys(value).map((key): [any, any] => [key, value[key]]);
+    const tag = value instanceof Map ? "m:" : value instanceof Set ? "s:" : "o:";
+    hash = LCSArrayDiff.hashString(tag + entries.length);
+    for (const [key, item] of entries) {
+      const keyHash = hashOf(key);
+      const itemHash = hashOf(item);
+      if (keyHash === null || itemHash === null) return null;
+      hash = (hash + (Math.imul(keyHash, 31) ^ itemHash)) | 0;
+    }
+    return hash;
+  }
+}
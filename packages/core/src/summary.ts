@@ -0,0 +1,366 @@
+import { DiffType, ValueType, DiffNode, DiffResult } from "./types";
+import { DiffResultBuilder } from "./result";
+
+/**
+ * 内置的摘要语言
+ */
+export type SummaryLocale = "en" | "zh-CN";
+
+/**
+ * 变化的分组方式
+ * - parent：同一个父路径下的多处变化合并为一句
+ * - none：每处变化单独成句
+ */
+export type SummaryGroupBy = "parent" | "none";
+
+/**
+ * 摘要中的变化类型
+ */
+export type SummaryChangeKind = "modified" | "added" | "deleted" | "moved";
+
+/**
+ * 分组句子中子项的称呼（对象的字段、数组与 Set 的元素、Map 的条目）
+ */
+export type SummaryUnit = "field" | "item" | "entry";
+
+/**
+ * 摘要配置选项
+ */
+export interface SummaryOptions {
+  locale?: SummaryLocale; // 语言（默认 en）
+  maxItems?: number; // 最多输出的句子数，其余变化合并为一句（默认不限制）
+  groupBy?: SummaryGroupBy; // 分组方式（默认 parent）
+}
+
+/**
+ * 摘要中的一句话
+ */
+export interface SummarySentence {
+  path: string[]; // 描述的路径（分组句子为父路径）
+  kinds: SummaryChangeKind[]; // 句子包含的变化类型（按 modified、added、deleted、moved 排序）
+  nodes: DiffNode[]; // 句子描述的差异节点
+  text: string; // 句子文本
+}
+
+/**
+ * 变化摘要
+ */
+export interface DiffSummary {
+  text: string; // 完整的纯文本摘要
+  sentences: SummarySentence[]; // 输出的句子（不超过 maxItems）
+  total: number; // 变化的总数
+  omitted: number; // 因 maxItems 未输出的变化数
+}
+
+/**
+ * 摘要的消息目录
+ */
+interface SummaryMessages {
+  modified(path: string, oldValue: string, newValue: string): string;
+  added(path: string, value: string): string;
+  deleted(path: string): string;
+  moved(path: string, fromIndex: number, toIndex: number): string;
+  group(path: string, counts: Array<[SummaryChangeKind, number]>, unit: SummaryUnit): string;
+  more(count: number): string;
+  empty: string;
+  separator: string;
+  terminator: string;
+}
+
+/**
+ * 英文消息目录
+ */
+const EN_MESSAGES: SummaryMessages = {
+  modified: (path, oldValue, newValue) => `\`${path}\` changed from ${oldValue} to ${newValue}`,
+  added: (path, value) => `\`${path}\` added (${value})`,
+  deleted: (path) => `\`${path}\` removed`,
+  moved: (path, fromIndex, toIndex) => `\`${path}\` moved from index ${fromIndex} to ${toIndex}`,
+  group: (path, counts, unit) => {
+    const noun = (count: number) =>
+      `${count} ${unit === "entry" ? (count === 1 ? "entry" : "entries") : count === 1 ? unit : unit + "s"}`;
+    const verbs = { modified: "changed", added: "added", deleted: "removed", moved: "moved" };
+    if (counts.length === 1) {
+      const [kind, count] = counts[0];
+      const preposition = { modified: "in", added: "to", deleted: "from", moved: "in" }[kind];
+      return `${noun(count)} ${verbs[kind]} ${preposition} \`${path}\``;
+    }
+    return `\`${path}\`: ${counts.map(([kind, count]) => `${noun(count)} ${verbs[kind]}`).join(", ")}`;
+  },
+  more: (count) => `and ${count} more ${count === 1 ? "change" : "changes"}`,
+  empty: "No changes.",
+  separator: "; ",
+  terminator: ".",
+};
+
+/**
+ * 简体中文消息目录
+ */
+const ZH_CN_MESSAGES: SummaryMessages = {
+  modified: (path, oldValue, newValue) => `\`${path}\` 从 ${oldValue} 改为 ${newValue}`,
+  added: (path, value) => `新增 \`${path}\`（${value}）`,
+  deleted: (path) => `删除 \`${path}\``,
+  moved: (path, fromIndex, toIndex) => `\`${path}\` 从下标 ${fromIndex} 移动到 ${toIndex}`,
+  group: (path, counts, unit) => {
+    const noun = { field: "个字段", item: "项", entry: "个条目" }[unit];
+    const verbs = { modified: "修改", added: "新增", deleted: "删除", moved: "移动" };
+    const parts = counts.map(([kind, count]) => `${verbs[kind]}了 ${count} ${noun}`);
+    return `\`${path}\` 中${parts.join("，")}`;
+  },
+  more: (count) => `以及另外 ${count} 处变化`,
+  empty: "没有变化。",
+  separator: "；",
+  terminator: "。",
+};
+
+/**
+ * 内置消息目录
+ */
+const MESSAGES: Record<SummaryLocale, SummaryMessages> = {
+  en: EN_MESSAGES,
+  "zh-CN": ZH_CN_MESSAGES,
+};
+
+/**
+ * 摘要中值的最大显示长度
+ */
+const MAX_VALUE_LENGTH = 40;
+
+/**
+ * 一处变化及其父节点
+ */
+interface SummaryChange {
+  node: DiffNode;
+  kind: SummaryChangeKind;
+  parent: DiffNode | undefined;
+}
+
+/**
+ * 变化摘要生成器
+ * 将 diff 结果转换为人类可读的句子，如 "3 fields changed in `user.address`"
+ */
+export class DiffSummarizer {
+  /**
+   * 生成 diff 结果的摘要
+   * @param result diff 结果
+   * @param options 配置选项
+   * @returns 纯文本摘要与结构化的句子
+   */
+  static summarize(result: DiffResult, options: SummaryOptions = {}): DiffSummary {
+    const { locale = "en", maxItems = Infinity, groupBy = "parent" } = options;
+    const messages = MESSAGES[locale];
+    if (!messages) {
+      throw new Error(`Unsupported summary locale: ${locale}`);
+    }
+    if (maxItems !== Infinity && (!Number.isInteger(maxItems) || maxItems < 1)) {
+      throw new Error(`maxItems must be a positive integer, got: ${maxItems}`);
+    }
+
+    const changes = this.collectChanges(result.root);
+    const sentences = this.buildSentences(changes, groupBy, messages);
+
+    const shown = sentences.slice(0, maxItems);
+    const omitted = sentences.slice(maxItems).reduce((sum, s) => sum + s.nodes.length, 0);
+
+    let text = messages.empty;
+    if (shown.length > 0) {
+      const parts = shown.map((sentence) => sentence.text);
+      if (omitted > 0) {
+        parts.push(messages.more(omitted));
+      }
+      text = parts.join(messages.separator) + messages.terminator;
+    }
+
+    return { text, sentences: shown, total: changes.length, omitted };
+  }
+
+  /**
+   * 按文档顺序收集所有变化
+   * 有子节点的修改节点只是容器，变化记录在其后代上；移动的元素本身算作一处变化，内部的修改另外记录
+   * @param root 根节点
+   * @returns 变化列表
+   */
+  private static collectChanges(root: DiffNode): SummaryChange[] {
+    const changes: SummaryChange[] = [];
+
+    // 子节点逆序入栈，保持先序遍历的顺序
+    const stack: Array<[DiffNode, DiffNode | undefined]> = [[root, undefined]];
+    while (stack.length > 0) {
+      const [node, parent] = stack.pop()!;
+      const hasChildren = node.children !== undefined && node.children.length > 0;
+
+      switch (node.type) {
+        case DiffType.ADDED:
+          changes.push({ node, kind: "added", parent });
+          continue;
+        case DiffType.DELETED:
+          changes.push({ node, kind: "deleted", parent });
+          continue;
+        case DiffType.MOVED:
+          changes.push({ node, kind: "moved", parent });
+          break;
+        case DiffType.MODIFIED:
+          if (!hasChildren) {
+            changes.push({ node, kind: "modified", parent });
+          }
+          break;
+        default:
+          // 未改变与被忽略的子树中没有变化
+          continue;
+      }
+
+      if (hasChildren) {
+        for (let i = node.children!.length - 1; i >= 0; i--) {
+          stack.push([node.children![i], node]);
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * 将变化组织为句子
+   * 按父路径分组时，同一个父节点下的多处变化合并为一句，句子按组内第一处变化的位置排序
+   */
+  private static buildSentences(
+    changes: SummaryChange[],
+    groupBy: SummaryGroupBy,
+    messages: SummaryMessages,
+  ): SummarySentence[] {
+    const groups: SummaryChange[][] = [];
+    if (groupBy === "parent") {
+      const byParent = new Map<DiffNode | undefined, SummaryChange[]>();
+      for (const change of changes) {
+        let group = byParent.get(change.parent);
+        if (!group) {
+          group = [];
+          byParent.set(change.parent, group);
+          groups.push(group);
+        }
+        group.push(change);
+      }
+    } else {
+      for (const change of changes) {
+        groups.push([change]);
+      }
+    }
+
+    return groups.map((group) =>
+      group.length === 1 || group[0].parent === undefined
+        ? this.describeChange(group[0], messages)
+        : this.describeGroup(group, group[0].parent, messages),
+    );
+  }
+
+  /**
+   * 描述单处变化
+   */
+  private static describeChange(change: SummaryChange, messages: SummaryMessages): SummarySentence {
+    const { node, kind } = change;
+    const path = DiffResultBuilder.buildReadablePath(node.path);
+
+    let text: string;
+    switch (kind) {
+      case "modified":
+        text = messages.modified(
+          path,
+          this.formatValue(node.oldValue, node.oldValueType ?? node.valueType),
+          this.formatValue(node.newValue, node.newValueType ?? node.valueType),
+        );
+        break;
+      case "added":
+        text = messages.added(path, this.formatValue(node.newValue, node.valueType));
+        break;
+      case "deleted":
+        text = messages.deleted(path);
+        break;
+      case "moved":
+        text = messages.moved(path, node.fromIndex!, node.toIndex!);
+        break;
+    }
+
+    return { path: node.path, kinds: [kind], nodes: [node], text };
+  }
+
+  /**
+   * 描述同一个父节点下的多处变化
+   */
+  private static describeGroup(
+    group: SummaryChange[],
+    parent: DiffNode,
+    messages: SummaryMessages,
+  ): SummarySentence {
+    const order: SummaryChangeKind[] = ["modified", "added", "deleted", "moved"];
+    const counts = order
+      .map((kind): [SummaryChangeKind, number] => [
+        kind,
+        group.filter((change) => change.kind === kind).length,
+      ])
+      .filter(([, count]) => count > 0);
+
+    const unit: SummaryUnit =
+      parent.valueType === ValueType.ARRAY || parent.valueType === ValueType.SET
+        ? "item"
+        : parent.valueType === ValueType.MAP
+          ? "entry"
+          : "field";
+    const text = messages.group(DiffResultBuilder.buildReadablePath(parent.path), counts, unit);
+
+    return {
+      path: parent.path,
+      kinds: counts.map(([kind]) => kind),
+      nodes: group.map((change) => change.node),
+      text,
+    };
+  }
+
+  /**
+   * 将值格式化为简短的显示形式（过长时截断）
+   */
+  private static formatValue(value: any, valueType: ValueType): string {
+    let text: string;
+    switch (valueType) {
+      case ValueType.PRIMITIVE:
+      case ValueType.NULL:
+      case ValueType.UNDEFINED:
+        text = String(value);
+        break;
+      case ValueType.BIGINT:
+        text = `${value}n`;
+        break;
+      case ValueType.DATE:
+        text = Number.isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+        break;
+      case ValueType.REGEXP:
+      case ValueType.URL:
+        text = String(value);
+        break;
+      case ValueType.OBJECT:
+      case ValueType.ARRAY:
+        try {
+          text = JSON.stringify(value) ?? valueType;
+        } catch {
+          // 循环引用等无法序列化的值
+          text = valueType;
+        }
+        break;
+      default:
+        text = valueType;
+    }
+
+    if (text.length > MAX_VALUE_LENGTH) {
+      text = text.slice(0, MAX_VALUE_LENGTH - 1) + "…";
+    }
+    return `\`${text}\``;
+  }
+}
+
+/**
+ * 便捷函数：生成 diff 结果的人类可读摘要
+ * @param result diff 结果
+ * @param options 配置选项
+ * @returns DiffSummary
+ */
+export function summarize(result: DiffResult, options?: SummaryOptions): DiffSummary {
+  return DiffSummarizer.summarize(result, options);
+}
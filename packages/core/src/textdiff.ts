@@ -0,0 +1,84 @@
+import { TextDiffGranularity, TextDiffSegment } from "./types";
+import { SequenceMatcher } from "./sequence";
+
+/**
+ * 字符串内部差异计算
+ * 按字符、单词或行切分后使用 Myers 算法比较，相邻的同类片段会被合并
+ */
+export class TextDiff {
+  /**
+   * 将字符串切分为片段
+   * - char：按 Unicode 码点切分
+   * - word：单词、连续空白和单个标点各为一个片段
+   * - line：每行一个片段（包含行尾的换行符）
+   * @param text 字符串
+   * @param granularity 切分粒度
+   * @returns 片段数组，拼接后等于原字符串
+   */
+  static tokenize(text: string, granularity: TextDiffGranularity): string[] {
+    switch (granularity) {
+      case "char":
+        return Array.from(text);
+      case "word":
+        return text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+      case "line":
+        return text.match(/[^\n]*\n|[^\n]+/g) ?? [];
+    }
+  }
+
+  /**
+   * 计算两个字符串的差异片段
+   * @param oldText 旧字符串
+   * @param newText 新字符串
+   * @param granularity 切分粒度（默认 word）
+   * @returns 差异片段，依次拼接 equal 与 delete 片段得到旧字符串，拼接 equal 与 insert 片段得到新字符串
+   */
+  static diff(
+    oldText: string,
+    newText: string,
+    granularity: TextDiffGranularity = "word",
+  ): TextDiffSegment[] {
+    const oldTokens = this.tokenize(oldText, granularity);
+    const newTokens = this.tokenize(newText, granularity);
+
+    // 片段映射为整数 id
+    const ids = new Map<string, number>();
+    const idOf = (token: string) => {
+      let id = ids.get(token);
+      if (id === undefined) {
+        id = ids.size;
+        ids.set(token, id);
+      }
+      return id;
+    };
+    const oldIds = Int32Array.from(oldTokens, idOf);
+    const newIds = Int32Array.from(newTokens, idOf);
+
+    const segments: TextDiffSegment[] = [];
+    const push = (op: TextDiffSegment["op"], text: string) => {
+      const last = segments[segments.length - 1];
+      if (last && last.op === op) {
+        last.text += text;
+      } else if (text.length > 0) {
+        segments.push({ op, text });
+      }
+    };
+
+    let i = 0;
+    let j = 0;
+    const flush = (oldEnd: number, newEnd: number) => {
+      for (; i < oldEnd; i++) push("delete", oldTokens[i]);
+      for (; j < newEnd; j++) push("insert", newTokens[j]);
+    };
+
+    for (const { oldIndex, newIndex } of SequenceMatcher.myers(oldIds, newIds)) {
+      flush(oldIndex, newIndex);
+      push("equal", oldTokens[i]);
+      i++;
+      j++;
+    }
+    flush(oldTokens.length, newTokens.length);
+
+    return segments;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * 编码标记键（带有该键的对象是编码后的特殊值）
+ */
+const TAG = "__jsonVisualDiffTransfer__";
+
+/**
+ * 跨线程传输的编解码器
+ * 结构化克隆无法传输函数、Symbol 与 URL，编码时将它们替换为带标记的普通对象，解码时还原
+ * 编码后的函数保留源码（toString 返回原始源码），足以参与 diff 比较，但不能被调用
+ * 共享引用与循环引用在编解码后保持不变
+ */
+export class TransferCodec {
+  /**
+   * 判断错误是否为结构化克隆失败
+   * @param error 捕获的错误
+   * @returns 是否为 DataCloneError
+   */
+  static isCloneError(error: unknown): boolean {
+    return error instanceof Error && error.name === "DataCloneError";
+  }
+
+  /**
+   * 将值编码为可结构化克隆的形式
+   * @param value 值
+   * @returns 编码后的值
+   */
+  static encode(value: any): any {
+    return this.encodeValue(value, new Map());
+  }
+
+  /**
+   * 还原 encode 编码的值
+   * @param value 编码后的值
+   * @returns 原始值
+   */
+  static decode(value: any): any {
+    return this.decodeValue(value, new Map());
+  }
+
+  private static encodeValue(value: any, seen: Map<object, any>): any {
+    if (typeof value === "symbol") {
+      return { [TAG]: "symbol", description: value.description };
+    }
+    if (typeof value === "function") {
+      return { [TAG]: "function", name: value.name, source: value.toString() };
+    }
+    if (value === null || typeof value !== "object") {
+      return value;
+    }
+    if (seen.has(value)) {
+      return seen.get(value);
+    }
+
+    if (value instanceof URL) {
+      const encoded = { [TAG]: "url", href: value.href };
+      seen.set(value, encoded);
+      return encoded;
+    }
+    if (value instanceof Map) {
+      const encoded = new Map();
+      seen.set(value, encoded);
+      for (const [key, item] of value) {
+        encoded.set(this.encodeValue(key, seen), this.encodeValue(item, seen));
+      }
+      return encoded;
+    }
+    if (value instanceof Set) {
+      const encoded = new Set();
+      seen.set(value, encoded);
+      for (const item of value) {
+        encoded.add(this.encodeValue(item, seen));
+      }
+      return encoded;
+    }
+    if (Array.isArray(value)) {
+      const encoded: any[] = [];
+      seen.set(value, encoded);
+      for (const item of value) {
+        encoded.push(this.encodeValue(item, seen));
+      }
+      return encoded;
+    }
+    if (Object.prototype.toString.call(value) !== "[object Object]") {
+      // Date、RegExp、Error、二进制数据与包装对象本身可以被结构化克隆
+      seen.set(value, value);
+      return value;
+    }
+
+    const fields: Record<string, any> = {};
+    // 原本就带有标记键的对象需要转义，避免被误认为特殊值
+    const encoded = TAG in value ? { [TAG]: "object", fields } : fields;
+    seen.set(value, encoded);
+    for (const key of Object.keys(value)) {
+      fields[key] = this.encodeValue(value[key], seen);
+    }
+    return encoded;
+  }
+
+  private static decodeValue(value: any, seen: Map<object, any>): any {
+    if (value === null || typeof value !== "object") {
+      return value;
+    }
+    if (seen.has(value)) {
+      return seen.get(value);
+    }
+
+    if (value instanceof Map) {
+      const decoded = new Map();
+      seen.set(value, decoded);
+      for (const [key, item] of value) {
+        decoded.set(this.decodeValue(key, seen), this.decodeValue(item, seen));
+      }
+      return decoded;
+    }
+    if (value instanceof Set) {
+      const decoded = new Set();
+      seen.set(value, decoded);
+      for (const item of value) {
+        decoded.add(this.decodeValue(item, seen));
+      }
+      return decoded;
+    }
+    if (Array.isArray(value)) {
+      const decoded: any[] = [];
+      seen.set(value, decoded);
+      for (const item of value) {
+        decoded.push(this.decodeValue(item, seen));
+      }
+      return decoded;
+    }
+    if (Object.prototype.toString.call(value) !== "[object Object]") {
+      seen.set(value, value);
+      return value;
+    }
+
+    let fields: Record<string, any> = value;
+    switch (value[TAG]) {
+      case "symbol": {
+        const decoded = Symbol(value.description);
+        seen.set(value, decoded);
+        return decoded;
+      }
+      case "function": {
+        const decoded = this.createFunction(value.name, value.source);
+        seen.set(value, decoded);
+        return decoded;
+      }
+      case "url": {
+        const decoded = new URL(value.href);
+        seen.set(value, decoded);
+        return decoded;
+      }
+      case "object":
+        fields = value.fields;
+        break;
+    }
+
+    const decoded: Record<string, any> = {};
+    seen.set(value, decoded);
+    for (const key of Object.keys(fields)) {
+      decoded[key] = this.decodeValue(fields[key], seen);
+    }
+    return decoded;
+  }
+
+  /**
+   * 创建一个只保留名称和源码的占位函数
+   */
+  private static createFunction(name: string, source: string): Function {
+    const fn = function () {
+      throw new Error(
+        `Function "${name}" was transferred from another thread and cannot be called`,
+      );
+    };
+    Object.defineProperty(fn, "name", { value: name });
+    Object.defineProperty(fn, "toString", { value: () => source });
+    return fn;
+  }
+}
@@ -0,0 +1,71 @@
+import { TypeHandler } from "./types";
+
+/**
+ * 自定义类型注册表
+ * 按注册顺序查找第一个 test 返回 true 的处理器，同名处理器会被替换
+ */
+export class TypeRegistry {
+  private static handlers: TypeHandler[] = [];
+
+  /**
+   * 注册类型处理器
+   * @param handler 类型处理器
+   */
+  static register(handler: TypeHandler): void {
+    if (typeof handler.name !== "string" || handler.name.length === 0) {
+      throw new Error("Type handler name must be a non-empty string");
+    }
+    if (typeof handler.test !== "function") {
+      throw new Error(`Type handler "${handler.name}" must provide a test function`);
+    }
+
+    const index = this.handlers.findIndex((h) => h.name === handler.name);
+    if (index === -1) {
+      this.handlers.push(handler);
+    } else {
+      this.handlers[index] = handler;
+    }
+  }
+
+  /**
+   * 注销类型处理器
+   * @param name 类型名称
+   * @returns 是否存在并已注销
+   */
+  static unregister(name: string): boolean {
+    const index = this.handlers.findIndex((h) => h.name === name);
+    if (index === -1) {
+      return false;
+    }
+    this.handlers.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * 注销所有类型处理器
+   */
+  static clear(): void {
+    this.handlers = [];
+  }
+
+  /**
+   * 按名称获取类型处理器
+   * @param name 类型名称
+   * @returns 类型处理器，不存在时返回 undefined
+   */
+  static get(name: string): TypeHandler | undefined {
+    return this.handlers.find((h) => h.name === name);
+  }
+
+  /**
+   * 查找能处理该值的类型处理器
+   * @param value 值
+   * @returns 类型处理器，没有匹配时返回 undefined
+   */
+  static find(value: any): TypeHandler | undefined {
+    if (this.handlers.length === 0 || value === null || value === undefined) {
+      return undefined;
+    }
+    return this.handlers.find((h) => h.test(value));
+  }
+}
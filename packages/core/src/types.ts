@@ -6,6 +6,8 @@ export enum DiffType {
   DELETED = "deleted", // 删除
   MODIFIED = "modified", // 修改
   UNCHANGED = "unchanged", // 未改变
+  MOVED = "moved", // 移动（数组元素位置变化）
+  IGNORED = "ignored", // 被忽略 / 包含规则过滤
 }
 
 /**
@@ -21,6 +23,14 @@ export enum ValueType {
   UNDEFINED = "undefined", // undefined
   NULL = "null", // null
   SYMBOL = "symbol", // Symbol
+  BIGINT = "bigint", // BigInt
+  MAP = "map", // Map
+  SET = "set", // Set
+  TYPED_ARRAY = "typedarray", // ArrayBuffer、DataView 与类型化数组
+  ERROR = "error", // Error
+  URL = "url", // URL
+  BOXED = "boxed", // 包装对象（new Number / new String / new Boolean）
+  CUSTOM = "custom", // 通过类型注册表注册的自定义类型
 }
 
 /**
@@ -32,7 +42,65 @@ export interface DiffNode {
   valueType: ValueType; // 值类型
   oldValue?: any; // 旧值（删除或修改时）
   newValue?: any; // 新值（添加或修改时）
+  truncated?: boolean; // 达到 maxDepth 未继续比较的节点（oldValue / newValue 为占位字符串）
   children?: DiffNode[]; // 子节点（对象或数组）
+  fromIndex?: number; // 元素在旧数组中的下标（MOVED 节点，以及无序比较的数组中有旧值的元素）
+  toIndex?: number; // 移动后的下标（MOVED 节点）
+  circular?: CircularRef; // 循环引用信息（值指向自身祖先的节点）
+  delta?: number; // 数值变化量 newValue - oldValue（修改的数值节点）
+  textDiff?: TextDiffSegment[]; // 字符串内部差异（修改的字符串节点，需开启 textDiff 选项）
+  mapKey?: any; // Map 条目的原始键（path 中只保存其字符串形式）
+  byteDiff?: ByteDiffSummary; // 字节级差异摘要（修改的二进制数据节点）
+  customType?: string; // 自定义类型名称（valueType 为 CUSTOM 的节点）
+  oldValueType?: ValueType; // 旧值的类型（仅在值类型发生变化的节点上设置）
+  newValueType?: ValueType; // 新值的类型（仅在值类型发生变化的节点上设置）
+  size?: number; // 折叠的子树包含的值的数量（包括自身，需开启 collapseUnchanged 选项）
+  omitted?: number; // 省略的子节点数（需关闭 includeUnchanged 选项，或调用 pruneUnchanged / pruneTree / mapTree）
+}
+
+/**
+ * 二进制数据的字节级差异摘要
+ */
+export interface ByteDiffSummary {
+  oldByteLength: number; // 旧数据的字节长度
+  newByteLength: number; // 新数据的字节长度
+  changedBytes: number; // 不同的字节数（包括长度差）
+  firstChangedOffset: number; // 第一个不同字节的偏移量
+}
+
+/**
+ * 循环引用信息
+ * 记录循环引用指向的祖先节点路径，没有形成循环的一侧为 undefined
+ */
+export interface CircularRef {
+  oldRefPath?: string[]; // 旧值指向的祖先路径
+  newRefPath?: string[]; // 新值指向的祖先路径
+}
+
+/**
+ * 按差异类型的计数（键为 DiffType 的值，如 "added"）
+ */
+export type DiffTypeCounts = Record<DiffType, number>;
+
+/**
+ * Diff 统计信息
+ * 前七项按节点计数，修改的叶子及其每一层祖先容器都计入 modified；
+ * 其余字段区分叶子与容器，由 DiffResultBuilder.computeStats 生成，手动构造的结果可以省略
+ */
+export interface DiffStats {
+  added: number;
+  deleted: number;
+  modified: number;
+  unchanged: number;
+  moved: number;
+  ignored: number;
+  typeChanged: number; // 值类型发生变化的节点数（这些节点同时按各自的差异类型计数）
+  leaves?: DiffTypeCounts; // 叶子节点（没有 children 的节点）的计数
+  containers?: DiffTypeCounts; // 容器节点（有 children 的节点）的计数，与 leaves 之和等于对应的总数
+  byValueType?: Partial<Record<ValueType, DiffTypeCounts>>; // 叶子节点按值类型的计数
+  byTopLevelKey?: Record<string, DiffTypeCounts>; // 叶子节点按所在的顶层键的计数
+  maxChangeDepth?: number; // 发生变化的节点的最大深度（根节点为 0，没有变化时为 -1）
+  bytesChanged?: number; // 变化的叶子涉及的字节数（UTF-8）
 }
 
 /**
@@ -40,13 +108,97 @@ export interface DiffNode {
  */
 export interface DiffResult {
   root: DiffNode; // 根节点
-  stats: {
-    // 统计信息
-    added: number;
-    deleted: number;
-    modified: number;
-    unchanged: number;
-  };
+  stats: DiffStats; // 统计信息
+  similarity?: number; // 两个文档的相似度（0 到 1，由 DiffResultBuilder.computeSimilarity 计算）
+}
+
+/**
+ * 数组比较模式
+ * - myers / patience / lcs：按顺序匹配元素的序列算法
+ * - position：按下标逐个比较
+ * - unordered：忽略顺序，按深度相等或身份键以多重集方式匹配元素
+ */
+export type ArrayDiffMode = "myers" | "patience" | "lcs" | "position" | "unordered";
+
+/**
+ * 数组元素身份键
+ * 字符串表示取元素的同名属性，函数接收元素和数组路径，返回 undefined 表示该元素没有身份
+ */
+export type ArrayKey = string | ((item: any, path: string[]) => string | number | undefined);
+
+/**
+ * 自定义比较器的上下文
+ */
+export interface ComparatorContext {
+  path: string[]; // 当前比较的路径
+}
+
+/**
+ * 自定义比较结果：true / "unchanged" 表示相等，false / "modified" 表示不相等
+ */
+export type ComparatorResult = boolean | "unchanged" | "modified";
+
+/**
+ * 自定义比较器
+ * match 为路径模式字符串或谓词函数，谓词对新旧两侧的值分别调用，两侧都返回 true 时比较器生效
+ */
+export interface Comparator {
+  match: string | ((path: string[], value: any) => boolean);
+  compare: (a: any, b: any, ctx: ComparatorContext) => ComparatorResult;
+}
+
+/**
+ * 自定义类型比较的上下文
+ */
+export interface TypeDiffContext {
+  path: string[]; // 当前比较的路径
+  diff: (oldValue: any, newValue: any, path: string[]) => DiffNode; // 使用引擎比较子值（用于展开子节点）
+}
+
+/**
+ * 自定义类型处理器
+ * test 识别类型；normalize 将实例规范化为可比较的值；diff 完全接管比较（可展开子节点）；
+ * serialize 与 format 分别提供序列化结果和渲染器中的显示字符串
+ */
+export interface TypeHandler<T = any> {
+  name: string; // 类型名称（唯一）
+  test: (value: any) => boolean;
+  normalize?: (value: T) => any;
+  diff?: (oldValue: T, newValue: T, ctx: TypeDiffContext) => DiffNode;
+  serialize?: (value: T) => string;
+  format?: (value: T) => string;
+}
+
+/**
+ * 数值比较选项
+ */
+export interface NumericOptions {
+  absoluteTolerance?: number; // 绝对误差（默认 0）
+  relativeTolerance?: number; // 相对误差，相对于两者中绝对值较大的一方（默认 0）
+  nanEqual?: boolean; // NaN 与 NaN 视为相等（默认 true）
+  signedZero?: boolean; // 区分 0 与 -0（默认 false）
+  strictInteger?: boolean; // 整数与非整数总是视为不同，不应用误差（默认 false）
+}
+
+/**
+ * 字符串内部差异的切分粒度
+ */
+export type TextDiffGranularity = "char" | "word" | "line";
+
+/**
+ * 字符串内部差异选项
+ */
+export interface TextDiffOptions {
+  granularity?: TextDiffGranularity; // 切分粒度（默认 word）
+  minLength?: number; // 较长一侧字符串达到该长度才计算（默认 0）
+}
+
+/**
+ * 字符串内部差异片段
+ */
+export interface TextDiffSegment {
+  op: "equal" | "insert" | "delete"; // 片段类型
+  text: string; // 片段文本
 }
 
 /**
@@ -54,11 +206,47 @@ export interface DiffResult {
  */
 export interface DiffOptions {
   maxDepth?: number; // 最大比较深度
-  ignoreKeys?: string[]; // 忽略的键
-  arrayDiffMode?: "lcs" | "position"; // 数组比较模式
+  ignoreKeys?: string[]; // 忽略的键（匹配任意深度的同名键）
+  ignorePaths?: string[]; // 忽略的路径模式
+  includePaths?: string[]; // 只比较匹配的路径模式及其子树（为空时比较所有路径）
+  ignoreMode?: "drop" | "mark"; // 被过滤的路径直接丢弃或标记为 IGNORED 节点（默认 drop）
+  arrayDiffMode?: ArrayDiffMode | Record<string, ArrayDiffMode>; // 数组比较模式（可按路径模式分别配置，默认 lcs）
   detectCircular?: boolean; // 是否检测循环引用
+  arrayKey?: ArrayKey | Record<string, ArrayKey>; // 数组元素身份键（可按路径模式分别配置）
+  detectMoves?: boolean; // 是否检测数组元素移动
+  comparators?: Comparator[]; // 自定义比较器（按顺序匹配，先于内置比较）
+  numeric?: NumericOptions; // 数值比较选项
+  textDiff?: boolean | TextDiffOptions; // 为修改的字符串计算内部差异（默认关闭）
+  collapseUnchanged?: boolean; // 未改变的子树折叠为单个带 size 的 UNCHANGED 节点（默认关闭）
+  hashSubtrees?: boolean; // 使用内容哈希识别引用不同但内容相同的子树（默认关闭）
+  includeUnchanged?: boolean; // 是否保留未改变的节点（默认 true，关闭时只保留变化及其祖先）
+  unchangedContext?: number; // 关闭 includeUnchanged 时每处变化前后保留的未改变兄弟节点数（默认 0）
+  similarityWeights?: Record<string, number>; // 计算相似度时各路径模式的权重（默认均为 1）
+  similarityThreshold?: number; // 数组中被删除与新增的元素相似度不低于该值时才配对为修改（默认 0，同类型的对象或数组即可配对；候选元素的比较同步执行并计入进度）
+}
+
+/**
+ * 异步 diff 的进度
+ */
+export interface DiffProgress {
+  visited: number; // 已比较的节点数
+  estimatedTotal: number; // 估算的节点总数（不小于 visited，完成时等于 visited）
+}
+
+/**
+ * 异步 diff 的调度选项
+ */
+export interface AsyncComputeOptions {
+  signal?: AbortSignal; // 取消信号，取消后以 signal.reason 拒绝
+  yieldEvery?: number; // 每比较多少个节点让出一次事件循环（默认 1000）
+  onProgress?: (progress: DiffProgress) => void; // 每次让出事件循环时以及完成时调用
 }
 
+/**
+ * 异步 diff 配置选项
+ */
+export interface AsyncDiffOptions extends DiffOptions, AsyncComputeOptions {}
+
 /**
  * 渲染器配置接口
  */
@@ -69,6 +257,7 @@ export interface RendererConfig {
     deleted?: string;
     modified?: string;
     unchanged?: string;
+    moved?: string;
   };
   indent?: number; // 缩进空格数
   expandDepth?: number; // 默认展开深度
@@ -108,4 +297,14 @@ export interface Renderer<T> {
    * 渲染未改变的节点
    */
   renderUnchanged(node: DiffNode, config?: RendererConfig): T;
+
+  /**
+   * 渲染移动的节点
+   */
+  renderMoved?(node: DiffNode, config?: RendererConfig): T;
+
+  /**
+   * 渲染被路径规则过滤的节点
+   */
+  renderIgnored?(node: DiffNode, config?: RendererConfig): T;
 }
@@ -0,0 +1,294 @@
+import { DiffNode, DiffResult, ValueType } from "./types";
+import { DiffResultBuilder } from "./result";
+import { DiffPath } from "./diffpath";
+
+/**
+ * 遍历控制：skip 跳过当前节点的子节点，stop 结束整个遍历
+ */
+export type WalkControl = "skip" | "stop" | void;
+
+/**
+ * 遍历时节点的上下文
+ */
+export interface WalkContext {
+  parent: DiffNode | undefined; // 父节点（根节点为 undefined）
+  index: number; // 在父节点 children 中的下标（根节点为 0）
+  depth: number; // 深度（根节点为 0）
+}
+
+/**
+ * 节点访问器
+ */
+export interface DiffVisitor {
+  enter?: (node: DiffNode, context: WalkContext) => WalkControl; // 进入节点（子节点之前）
+  leave?: (node: DiffNode, context: WalkContext) => WalkControl; // 离开节点（子节点之后）
+}
+
+/**
+ * 节点映射函数
+ * 接收节点的浅拷贝（children 已替换为映射后的子节点，数组的 omitted 包含被移除的元素），返回新节点或 null（移除该节点）
+ */
+export type DiffNodeMapper = (node: DiffNode, context: WalkContext) => DiffNode | null;
+
+/**
+ * 节点保留条件（返回 false 时移除节点及其子树）
+ */
+export type DiffNodePredicate = (node: DiffNode, context: WalkContext) => boolean;
+
+/**
+ * pruneUnchanged 的配置选项
+ */
+export interface PruneUnchangedOptions {
+  context?: number; // 每处变化前后保留的未改变兄弟节点数（默认 0）
+}
+
+/**
+ * 遍历帧
+ */
+interface WalkFrame {
+  node: DiffNode;
+  context: WalkContext;
+  entered: boolean;
+}
+
+/**
+ * 映射帧（mapped 收集映射后的子节点）
+ */
+interface MapFrame extends WalkFrame {
+  owner: MapFrame | undefined;
+  mapped?: DiffNode[];
+}
+
+/**
+ * DiffNode 树的遍历与变换
+ * 均使用显式栈，嵌套深度不受调用栈限制；变换不修改原始结果
+ */
+export class DiffWalker {
+  /**
+   * 深度优先遍历节点树
+   * enter 返回 skip 时不访问子节点（仍会调用 leave），enter 或 leave 返回 stop 时立即结束
+   * @param root 根节点
+   * @param visitor 访问器
+   */
+  static walk(root: DiffNode, visitor: DiffVisitor): void {
+    const stack: WalkFrame[] = [this.rootFrame(root)];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+
+      if (frame.entered) {
+        stack.pop();
+        if (visitor.leave?.(frame.node, frame.context) === "stop") {
+          return;
+        }
+        continue;
+      }
+
+      frame.entered = true;
+      const control = visitor.enter?.(frame.node, frame.context);
+      if (control === "stop") {
+        return;
+      }
+      if (control !== "skip") {
+        this.pushChildren(stack, frame, (child) => child);
+      }
+    }
+  }
+
+  /**
+   * 后序映射节点树，生成新的节点树
+   * 数组移除的子节点数在调用映射函数之前累加到 omitted 上
+   * @param root 根节点
+   * @param mapper 映射函数
+   * @returns 新的根节点
+   */
+  static mapTree(root: DiffNode, mapper: DiffNodeMapper): DiffNode {
+    let mappedRoot: DiffNode | null = null;
+
+    const stack: MapFrame[] = [{ ...this.rootFrame(root), owner: undefined }];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+
+      if (!frame.entered) {
+        frame.entered = true;
+        if (frame.node.children) {
+          frame.mapped = [];
+          this.pushChildren(stack, frame, (child) => ({ ...child, owner: frame }));
+        }
+        continue;
+      }
+
+      // 子节点都已映射
+      stack.pop();
+      const copy = this.copyNode(frame.node);
+      if (frame.mapped) {
+        copy.children = frame.mapped;
+        this.countOmitted(frame.node, copy);
+      }
+      const mapped = mapper(copy, frame.context);
+      if (frame.owner) {
+        if (mapped) {
+          frame.owner.mapped!.push(mapped);
+        }
+      } else {
+        mappedRoot = mapped;
+      }
+    }
+
+    if (!mappedRoot) {
+      throw new Error("mapTree cannot remove the root node");
+    }
+    return mappedRoot;
+  }
+
+  /**
+   * 移除不满足条件的节点及其子树，生成新的节点树
+   * 先序判断，被移除的子树不会被访问；根节点总是保留
+   * 数组移除的子节点数累加到 omitted 上
+   * @param root 根节点
+   * @param predicate 保留条件
+   * @returns 新的根节点
+   */
+  static pruneTree(root: DiffNode, predicate: DiffNodePredicate): DiffNode {
+    const prunedRoot = this.copyNode(root);
+
+    // [原节点, 拷贝]，子节点逆序入栈，拷贝按原顺序加入父节点
+    const stack: Array<[DiffNode, DiffNode, number]> = [[root, prunedRoot, 0]];
+    while (stack.length > 0) {
+      const [node, copy, depth] = stack.pop()!;
+      if (!node.children) {
+        continue;
+      }
+
+      const kept: Array<[DiffNode, DiffNode, number]> = [];
+      node.children.forEach((child, index) => {
+        if (predicate(child, { parent: node, index, depth: depth + 1 })) {
+          kept.push([child, this.copyNode(child), depth + 1]);
+        }
+      });
+      copy.children = kept.map(([, childCopy]) => childCopy);
+      this.countOmitted(node, copy);
+      for (let i = kept.length - 1; i >= 0; i--) {
+        stack.push(kept[i]);
+      }
+    }
+
+    return prunedRoot;
+  }
+
+  /**
+   * 移除未改变的节点，只保留变化及其祖先，生成新的节点树
+   * 与关闭 includeUnchanged 选项的比较结果相同；根节点总是保留
+   * @param root 根节点
+   * @param context 每处变化前后保留的未改变兄弟节点数
+   * @returns 新的根节点
+   */
+  static pruneUnchanged(root: DiffNode, context = 0): DiffNode {
+    if (!Number.isInteger(context) || context < 0) {
+      throw new Error(`context must be a non-negative integer, got: ${context}`);
+    }
+    // 映射时子节点已替换为新数组，可以直接修改拷贝
+    return this.mapTree(root, (node) => {
+      DiffResultBuilder.omitUnchangedChildren(node, context);
+      return node;
+    });
+  }
+
+  /**
+   * 数组移除的子节点数累加到拷贝的 omitted 上
+   * 应用或导出时无法推算下标会报错，而不是静默错位
+   * @param node 原节点
+   * @param copy 拷贝（children 已替换为保留的子节点）
+   */
+  private static countOmitted(node: DiffNode, copy: DiffNode): void {
+    const removed = node.children!.length - copy.children!.length;
+    if (node.valueType === ValueType.ARRAY && removed > 0) {
+      copy.omitted = (node.omitted ?? 0) + removed;
+    }
+  }
+
+  /**
+   * 创建根节点的遍历帧
+   */
+  private static rootFrame(root: DiffNode): WalkFrame {
+    return { node: root, context: { parent: undefined, index: 0, depth: 0 }, entered: false };
+  }
+
+  /**
+   * 子节点逆序入栈，保持先序遍历的顺序
+   */
+  private static pushChildren<F extends WalkFrame>(
+    stack: F[],
+    frame: WalkFrame,
+    create: (child: WalkFrame) => F,
+  ): void {
+    const children = frame.node.children;
+    if (!children) {
+      return;
+    }
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push(
+        create({
+          node: children[i],
+          context: { parent: frame.node, index: i, depth: frame.context.depth + 1 },
+          entered: false,
+        }),
+      );
+    }
+  }
+
+  /**
+   * 浅拷贝节点（尚未生成的延迟路径保持延迟）
+   */
+  private static copyNode(node: DiffNode): DiffNode {
+    const copy = { type: node.type } as DiffNode;
+    DiffPath.copyPath(node, copy);
+    for (const key of Object.keys(node) as Array<keyof DiffNode>) {
+      if (key !== "type" && key !== "path") {
+        (copy as any)[key] = node[key];
+      }
+    }
+    return copy;
+  }
+}
+
+/**
+ * 便捷函数：深度优先遍历 diff 结果
+ * @param result diff 结果
+ * @param visitor 访问器（enter / leave 可以返回 "skip" 或 "stop"）
+ */
+export function walk(result: DiffResult, visitor: DiffVisitor): void {
+  DiffWalker.walk(result.root, visitor);
+}
+
+/**
+ * 便捷函数：映射 diff 结果中的每个节点，生成新的 diff 结果并重新计算统计信息（相似度沿用原结果）
+ * @param result diff 结果
+ * @param mapper 映射函数（后序调用，返回 null 移除节点）
+ * @returns 新的 DiffResult
+ */
+export function mapTree(result: DiffResult, mapper: DiffNodeMapper): DiffResult {
+  const root = DiffWalker.mapTree(result.root, mapper);
+  return { root, stats: DiffResultBuilder.computeStats(root), similarity: result.similarity };
+}
+
+/**
+ * 便捷函数：移除不满足条件的节点及其子树，生成新的 diff 结果并重新计算统计信息（相似度沿用原结果）
+ * @param result diff 结果
+ * @param predicate 保留条件（先序调用，根节点总是保留）
+ * @returns 新的 DiffResult（数组的 omitted 记录移除的子节点数）
+ */
+export function pruneTree(result: DiffResult, predicate: DiffNodePredicate): DiffResult {
+  const root = DiffWalker.pruneTree(result.root, predicate);
+  return { root, stats: DiffResultBuilder.computeStats(root), similarity: result.similarity };
+}
+
+/**
+ * 便捷函数：移除 diff 结果中未改变的节点，只保留变化及其祖先，并重新计算统计信息（相似度沿用原结果）
+ * @param result diff 结果
+ * @param options 配置选项
+ * @returns 新的 DiffResult（容器的 omitted 记录省略的子节点数）
+ */
+export function pruneUnchanged(result: DiffResult, options?: PruneUnchangedOptions): DiffResult {
+  const root = DiffWalker.pruneUnchanged(result.root, options?.context);
+  return { root, stats: DiffResultBuilder.computeStats(root), similarity: result.similarity };
+}
@@ -0,0 +1,5 @@
+// Worker 入口：在 Worker 脚本中导入 @json-visual-diff/core/worker 即可处理 createDiffWorker 发来的请求
+
+import { serveDiffWorker, DiffWorkerScope } from "./workerpool";
+
+serveDiffWorker(globalThis as unknown as DiffWorkerScope);
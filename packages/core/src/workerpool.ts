@@ -0,0 +1,341 @@
+import { AsyncDiffOptions, DiffOptions, DiffProgress, DiffResult } from "./types";
+import { DiffEngine } from "./diff";
+import { TransferCodec } from "./transfer";
+
+/**
+ * 主线程发给 Worker 的消息
+ */
+type WorkerRequest =
+  | {
+      type: "diff";
+      id: number;
+      oldValue: any;
+      newValue: any;
+      options: DiffOptions;
+      yieldEvery?: number;
+      progress: boolean; // 是否需要进度消息
+      encoded: boolean; // oldValue 与 newValue 是否经过 TransferCodec 编码
+    }
+  | { type: "cancel"; id: number };
+
+/**
+ * Worker 发回主线程的消息
+ */
+type WorkerResponse =
+  | { type: "result"; id: number; result: DiffResult; encoded: boolean }
+  | { type: "progress"; id: number; progress: DiffProgress }
+  | { type: "error"; id: number; error: { name: string; message: string } };
+
+/**
+ * 可以运行 diff 的 Worker（浏览器的 Worker 或任何具有相同消息接口的对象）
+ */
+export interface DiffWorkerLike {
+  postMessage(message: any): void;
+  addEventListener(type: "message" | "error", listener: (event: any) => void): void;
+  terminate(): void;
+}
+
+/**
+ * Worker 内部的全局作用域（Worker 中的 self 或任何具有相同消息接口的对象）
+ */
+export interface DiffWorkerScope {
+  postMessage(message: any): void;
+  addEventListener(type: "message", listener: (event: any) => void): void;
+}
+
+/**
+ * Worker 池配置选项
+ */
+export interface DiffWorkerOptions {
+  createWorker: () => DiffWorkerLike; // 创建 Worker（Worker 脚本需要加载 @json-visual-diff/core/worker）
+  poolSize?: number; // 最多同时存在的 Worker 数量（默认 1）
+}
+
+/**
+ * 正在进行的 diff 请求
+ */
+interface PendingJob {
+  worker: PooledWorker;
+  resolve: (result: DiffResult) => void;
+  reject: (reason: unknown) => void;
+  onProgress?: (progress: DiffProgress) => void;
+  cleanup: () => void;
+}
+
+/**
+ * 池中的 Worker 及其正在处理的请求数
+ */
+interface PooledWorker {
+  worker: DiffWorkerLike;
+  active: number;
+}
+
+/**
+ * 在 Worker 中运行 diff 的客户端
+ * 按需创建最多 poolSize 个 Worker，每个请求分配给正在处理请求最少的 Worker
+ * 输入优先使用结构化克隆传输，无法克隆时（函数、Symbol、URL 等）回退到 TransferCodec 编码
+ */
+export class DiffWorkerPool {
+  private createWorker: () => DiffWorkerLike;
+  private poolSize: number;
+  private workers: PooledWorker[] = [];
+  private pending = new Map<number, PendingJob>();
+  private nextId = 1;
+  private terminated = false;
+
+  constructor(options: DiffWorkerOptions) {
+    const poolSize = options.poolSize ?? 1;
+    if (!Number.isInteger(poolSize) || poolSize < 1) {
+      throw new Error(`poolSize must be a positive integer, got: ${poolSize}`);
+    }
+    this.createWorker = options.createWorker;
+    this.poolSize = poolSize;
+  }
+
+  /**
+   * 在 Worker 中计算两个值的差异
+   * 配置选项会被结构化克隆，因此不能包含函数（如自定义比较器）
+   * @param oldValue 旧值
+   * @param newValue 新值
+   * @param options 配置选项（signal 与 onProgress 在主线程处理）
+   * @returns DiffResult；取消时以 signal.reason 拒绝
+   */
+  diff(oldValue: any, newValue: any, options: AsyncDiffOptions = {}): Promise<DiffResult> {
+    const { signal, onProgress, yieldEvery, ...diffOptions } = options;
+
+    return new Promise<DiffResult>((resolve, reject) => {
+      if (this.terminated) {
+        reject(new Error("Diff worker pool has been terminated"));
+        return;
+      }
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const id = this.nextId++;
+      const pooled = this.acquire();
+      const onAbort = () => {
+        this.settle(id)?.reject(signal!.reason);
+        this.post(pooled, { type: "cancel", id });
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.pending.set(id, {
+        worker: pooled,
+        resolve,
+        reject,
+        onProgress,
+        cleanup: () => signal?.removeEventListener("abort", onAbort),
+      });
+
+      const request: WorkerRequest = {
+        type: "diff",
+        id,
+        oldValue,
+        newValue,
+        options: diffOptions,
+        yieldEvery,
+        progress: onProgress !== undefined,
+        encoded: false,
+      };
+      try {
+        this.send(pooled, request);
+      } catch (error) {
+        this.settle(id)?.reject(error);
+      }
+    });
+  }
+
+  /**
+   * 终止所有 Worker，未完成的请求会被拒绝
+   */
+  terminate(): void {
+    this.terminated = true;
+    for (const id of Array.from(this.pending.keys())) {
+      this.settle(id)?.reject(new Error("Diff worker pool has been terminated"));
+    }
+    for (const pooled of this.workers) {
+      pooled.worker.terminate();
+    }
+    this.workers = [];
+  }
+
+  /**
+   * 选择处理请求最少的 Worker，池未满且没有空闲 Worker 时创建新的 Worker
+   */
+  private acquire(): PooledWorker {
+    let best: PooledWorker | undefined;
+    for (const pooled of this.workers) {
+      if (!best || pooled.active < best.active) {
+        best = pooled;
+      }
+    }
+
+    if (!best || (best.active > 0 && this.workers.length < this.poolSize)) {
+      best = { worker: this.createWorker(), active: 0 };
+      this.listen(best);
+      this.workers.push(best);
+    }
+
+    best.active++;
+    return best;
+  }
+
+  /**
+   * 监听 Worker 的消息与错误
+   */
+  private listen(pooled: PooledWorker): void {
+    pooled.worker.addEventListener("message", (event) => {
+      const message = event.data as WorkerResponse;
+      const job = this.pending.get(message.id);
+      if (!job) {
+        // 已取消的请求
+        return;
+      }
+
+      switch (message.type) {
+        case "progress":
+          job.onProgress?.(message.progress);
+          break;
+        case "result":
+          this.settle(message.id);
+          job.resolve(message.encoded ? TransferCodec.decode(message.result) : message.result);
+          break;
+        case "error":
+          this.settle(message.id);
+          job.reject(Object.assign(new Error(message.error.message), { name: message.error.name }));
+          break;
+      }
+    });
+
+    pooled.worker.addEventListener("error", (event) => {
+      // Worker 崩溃：拒绝它的所有请求并将其移出池，之后的请求会创建新的 Worker
+      const reason = new Error(`Diff worker failed: ${event?.message ?? "unknown error"}`);
+      for (const [id, job] of Array.from(this.pending)) {
+        if (job.worker === pooled) {
+          this.settle(id)?.reject(reason);
+        }
+      }
+      this.workers = this.workers.filter((w) => w !== pooled);
+      pooled.worker.terminate();
+    });
+  }
+
+  /**
+   * 发送 diff 请求，结构化克隆失败时改为发送编码后的输入
+   */
+  private send(pooled: PooledWorker, request: Extract<WorkerRequest, { type: "diff" }>): void {
+    try {
+      pooled.worker.postMessage(request);
+    } catch (error) {
+      if (!TransferCodec.isCloneError(error)) {
+        throw error;
+      }
+      pooled.worker.postMessage({
+        ...request,
+        oldValue: TransferCodec.encode(request.oldValue),
+        newValue: TransferCodec.encode(request.newValue),
+        encoded: true,
+      });
+    }
+  }
+
+  /**
+   * 发送消息，忽略已终止的 Worker 抛出的错误
+   */
+  private post(pooled: PooledWorker, message: WorkerRequest): void {
+    try {
+      pooled.worker.postMessage(message);
+    } catch {
+      // Worker 已终止
+    }
+  }
+
+  /**
+   * 结束请求：从等待列表中移除并释放 Worker
+   * @returns 请求，已结束时返回 undefined
+   */
+  private settle(id: number): PendingJob | undefined {
+    const job = this.pending.get(id);
+    if (!job) {
+      return undefined;
+    }
+    this.pending.delete(id);
+    job.worker.active--;
+    job.cleanup();
+    return job;
+  }
+}
+
+/**
+ * 便捷函数：创建在 Worker 中运行 diff 的客户端
+ * @param options Worker 池配置选项
+ * @returns DiffWorkerPool
+ */
+export function createDiffWorker(options: DiffWorkerOptions): DiffWorkerPool {
+  return new DiffWorkerPool(options);
+}
+
+/**
+ * 在 Worker 内处理 diff 请求（@json-visual-diff/core/worker 入口会自动调用）
+ * 每个请求使用 DiffEngine.computeAsync 计算，因此计算过程中仍能收到取消消息
+ * @param scope Worker 的全局作用域
+ */
+export function serveDiffWorker(scope: DiffWorkerScope): void {
+  const controllers = new Map<number, AbortController>();
+
+  const respond = (message: WorkerResponse) => {
+    if (message.type !== "result") {
+      scope.postMessage(message);
+      return;
+    }
+    try {
+      scope.postMessage(message);
+    } catch (error) {
+      if (!TransferCodec.isCloneError(error)) {
+        throw error;
+      }
+      scope.postMessage({
+        ...message,
+        result: TransferCodec.encode(message.result),
+        encoded: true,
+      });
+    }
+  };
+
+  const run = async (request: Extract<WorkerRequest, { type: "diff" }>) => {
+    const controller = new AbortController();
+    controllers.set(request.id, controller);
+
+    try {
+      const oldValue = request.encoded ? TransferCodec.decode(request.oldValue) : request.oldValue;
+      const newValue = request.encoded ? TransferCodec.decode(request.newValue) : request.newValue;
+      const engine = new DiffEngine(request.options);
+      const result = await engine.computeAsync(oldValue, newValue, {
+        signal: controller.signal,
+        yieldEvery: request.yieldEvery,
+        onProgress: request.progress
+          ? (progress) => respond({ type: "progress", id: request.id, progress })
+          : undefined,
+      });
+      respond({ type: "result", id: request.id, result, encoded: false });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        const { name, message } = error instanceof Error ? error : new Error(String(error));
+        respond({ type: "error", id: request.id, error: { name, message } });
+      }
+    } finally {
+      controllers.delete(request.id);
+    }
+  };
+
+  scope.addEventListener("message", (event) => {
+    const request = event.data as WorkerRequest;
+    if (request.type === "cancel") {
+      controllers.get(request.id)?.abort();
+    } else if (request.type === "diff") {
+      void run(request);
+    }
+  });
+}
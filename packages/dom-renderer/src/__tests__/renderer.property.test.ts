@@ -8,6 +8,7 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import fc from "fast-check";
 import { DOMRenderer } from "../renderer";
+import { TextDiff, TypeRegistry } from "@json-visual-diff/core";
 import type { DiffResult, DiffNode, DiffType, ValueType } from "@json-visual-diff/core";
 
 describe("DOM Renderer Property Tests", () => {
@@ -24,7 +25,13 @@ describe("DOM Renderer Property Tests", () => {
   it("Property 14: DOM 渲染输出有效性 - 渲染器应该生成有效的 HTML 元素", () => {
     // Feature: json-visual-diff, Property 14: DOM 渲染输出有效性
 
-    const diffTypeArb = fc.constantFrom<DiffType>("added", "deleted", "modified", "unchanged");
+    const diffTypeArb = fc.constantFrom<DiffType>(
+      "added",
+      "deleted",
+      "modified",
+      "unchanged",
+      "moved",
+    );
     const valueTypeArb = fc.constantFrom<ValueType>(
       "primitive",
       "object",
@@ -54,6 +61,7 @@ describe("DOM Renderer Property Tests", () => {
         deleted: fc.nat({ max: 100 }),
         modified: fc.nat({ max: 100 }),
         unchanged: fc.nat({ max: 100 }),
+        moved: fc.nat({ max: 100 }),
       }),
     });
 
@@ -94,7 +102,13 @@ describe("DOM Renderer Property Tests", () => {
   it("Property 14: DOM 渲染输出有效性 - renderNode 应该生成有效的 HTML 元素", () => {
     // Feature: json-visual-diff, Property 14: DOM 渲染输出有效性
 
-    const diffTypeArb = fc.constantFrom<DiffType>("added", "deleted", "modified", "unchanged");
+    const diffTypeArb = fc.constantFrom<DiffType>(
+      "added",
+      "deleted",
+      "modified",
+      "unchanged",
+      "moved",
+    );
     const valueTypeArb = fc.constantFrom<ValueType>(
       "primitive",
       "object",
@@ -284,4 +298,150 @@ describe("DOM Renderer Property Tests", () => {
       { numRuns: 100 },
     );
   });
+
+  it("Property 18: 字符串内部差异 - 行内高亮应该包含所有删除和插入的片段", () => {
+    const granularityArb = fc.constantFrom<"char" | "word" | "line">("char", "word", "line");
+
+    fc.assert(
+      fc.property(fc.string(), fc.string(), granularityArb, (oldValue, newValue, granularity) => {
+        fc.pre(oldValue !== newValue);
+        const testRenderer = new DOMRenderer({ theme: "light" });
+        const node: DiffNode = {
+          type: "modified",
+          path: ["text"],
+          valueType: "primitive" as ValueType,
+          oldValue,
+          newValue,
+          textDiff: TextDiff.diff(oldValue, newValue, granularity),
+        };
+        const element = testRenderer.renderModified(node);
+        const container = element.querySelector(".text-diff");
+
+        expect(container).toBeTruthy();
+        expect(element.querySelector(".old-value")).toBeNull();
+        const deleted = Array.from(element.querySelectorAll(".text-delete"));
+        const inserted = Array.from(element.querySelectorAll(".text-insert"));
+        expect(deleted.length).toBe(node.textDiff!.filter((s) => s.op === "delete").length);
+        expect(inserted.length).toBe(node.textDiff!.filter((s) => s.op === "insert").length);
+        for (const span of deleted) {
+          expect(span.getAttribute("style")).toContain("line-through");
+        }
+        return true;
+      }),
+      { numRuns: 100 },
+    );
+  });
+
+  it("Property 19: 扩展类型格式化 - 修改的扩展类型节点应该显示可读的值", () => {
+    const valueArb = fc.constantFrom<[string, any, string]>(
+      ["bigint", 12n, "12n"],
+      ["map", new Map<any, any>([["a", 1], [2, 3n]]), 'Map(2) {"a" => 1, 2 => "3n"}'],
+      ["set", new Set([1, "x"]), 'Set(2) {1, "x"}'],
+      ["typedarray", new Uint8Array([1, 2]), "Uint8Array(2) [1, 2]"],
+      ["typedarray", new ArrayBuffer(4), "ArrayBuffer(4)"],
+      ["error", new TypeError("boom"), "TypeError: boom"],
+      ["url", new URL("https://example.com/a"), "https://example.com/a"],
+      ["boxed", Object(1), "[Number: 1]"],
+    );
+
+    fc.assert(
+      fc.property(valueArb, ([valueType, value, expected]) => {
+        const testRenderer = new DOMRenderer({ theme: "light" });
+        const node: DiffNode = {
+          type: "modified",
+          path: ["value"],
+          valueType: valueType as ValueType,
+          oldValue: value,
+          newValue: value,
+        };
+        const element = testRenderer.renderModified(node);
+
+        expect(element.querySelector(".old-value")!.textContent).toBe(expected);
+        expect(element.querySelector(".new-value")!.textContent).toBe(expected);
+        return true;
+      }),
+      { numRuns: 50 },
+    );
+  });
+
+  it("Property 20: 自定义类型格式化 - 应该使用注册的处理器格式化值", () => {
+    class Money {
+      constructor(
+        readonly amount: number,
+        readonly currency: string,
+      ) {}
+    }
+    TypeRegistry.register({
+      name: "Money",
+      test: (value) => value instanceof Money,
+      format: (value: Money) => `${value.amount.toFixed(2)} ${value.currency}`,
+    });
+
+    try {
+      fc.assert(
+        fc.property(fc.integer({ min: 0, max: 100000 }), (cents) => {
+          const testRenderer = new DOMRenderer({ theme: "light" });
+          const money = new Money(cents / 100, "EUR");
+          const node: DiffNode = {
+            type: "modified",
+            path: ["price"],
+            valueType: "custom" as ValueType,
+            customType: "Money",
+            oldValue: money,
+            newValue: { wrapped: money },
+          };
+          const element = testRenderer.renderModified(node);
+          const expected = `${(cents / 100).toFixed(2)} EUR`;
+
+          expect(element.querySelector(".old-value")!.textContent).toBe(expected);
+          expect(element.querySelector(".new-value")!.textContent).toBe(
+            `{"wrapped":"${expected}"}`,
+          );
+          return true;
+        }),
+        { numRuns: 50 },
+      );
+    } finally {
+      TypeRegistry.unregister("Money");
+    }
+  });
+
+  it("Property 21: 类型变化格式化 - 两侧的值应该按各自的类型格式化", () => {
+    const sideArb = fc.constantFrom<[ValueType, any, string]>(
+      ["object", { a: 1 }, '{"a":1}'],
+      ["array", [1, 2], "[1,2]"],
+      ["date", new Date(0), "1970-01-01T00:00:00.000Z"],
+      ["bigint", 5n, "5n"],
+      ["set", new Set([1]), "Set(1) {1}"],
+    );
+
+    fc.assert(
+      fc.property(
+        sideArb,
+        sideArb,
+        ([oldType, oldValue, oldText], [newType, newValue, newText]) => {
+          fc.pre(oldType !== newType);
+          const testRenderer = new DOMRenderer({ theme: "light" });
+          const node: DiffNode = {
+            type: "modified",
+            path: ["value"],
+            valueType: oldType,
+            oldValueType: oldType,
+            newValueType: newType,
+            oldValue,
+            newValue,
+          };
+          const element = testRenderer.renderModified(node);
+
+          expect(element.querySelector(".old-value")!.textContent).toBe(oldText);
+          expect(element.querySelector(".new-value")!.textContent).toBe(newText);
+          expect(element.querySelector(".type-change")!.textContent).toBe(
+            ` (${oldType} → ${newType})`,
+          );
+          return true;
+        },
+      ),
+      { numRuns: 50 },
+    );
+  });
 });
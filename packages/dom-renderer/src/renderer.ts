@@ -4,8 +4,17 @@
  */
 
 import type { DiffResult, DiffNode, Renderer, RendererConfig } from "@json-visual-diff/core";
+import { TypeRegistry } from "@json-visual-diff/core";
 import { getThemeColors, type ThemeColors } from "./styles";
 
+/**
+ * 已创建的节点元素及其子节点容器
+ */
+interface RenderedNode {
+  element: HTMLElement;
+  childrenContainer?: HTMLElement;
+}
+
 /**
  * DOM 渲染器类
  * 实现 Renderer 接口，将 diff 结果渲染为 HTML DOM 元素
@@ -76,25 +85,89 @@ export class DOMRenderer implements Renderer<HTMLElement> {
       this.updateConfig(config);
     }
 
-    // 根据差异类型选择渲染方法
+    return this.renderChildren(this.createNode(node), node);
+  }
+
+  /**
+   * 根据差异类型创建节点自身的元素（不含子节点）
+   */
+  private createNode(node: DiffNode): RenderedNode {
     switch (node.type) {
       case "added":
-        return this.renderAdded(node, config);
+        return this.createAdded(node);
       case "deleted":
-        return this.renderDeleted(node, config);
+        return this.createDeleted(node);
       case "modified":
-        return this.renderModified(node, config);
+        return this.createModified(node);
       case "unchanged":
-        return this.renderUnchanged(node, config);
+        return this.createUnchanged(node);
+      case "moved":
+        return this.createMoved(node);
+      case "ignored":
+        return { element: this.renderIgnored(node) };
       default:
         throw new Error(`Unknown diff type: ${node.type}`);
     }
   }
 
+  /**
+   * 渲染节点的所有后代
+   * 使用显式栈逐层创建子节点元素，嵌套深度不受调用栈限制
+   */
+  private renderChildren(
+    rendered: RenderedNode,
+    node: DiffNode,
+    config?: RendererConfig,
+  ): HTMLElement {
+    if (!rendered.childrenContainer) {
+      return rendered.element;
+    }
+
+    // 如果提供了新配置，更新配置（作用于子节点）
+    if (config) {
+      this.updateConfig(config);
+    }
+
+    // 子节点逆序入栈，保持文档顺序；省略的未改变子节点的提示最先入栈，显示在所有子节点之后
+    const stack: Array<[DiffNode | HTMLElement, HTMLElement]> = [];
+    const pushChildren = (parent: DiffNode, container: HTMLElement) => {
+      if (parent.omitted) {
+        stack.push([this.createOmittedMarker(parent), container]);
+      }
+      const children = parent.children!;
+      for (let i = children.length - 1; i >= 0; i--) {
+        stack.push([children[i], container]);
+      }
+    };
+
+    pushChildren(node, rendered.childrenContainer);
+    while (stack.length > 0) {
+      const [child, container] = stack.pop()!;
+      if (child instanceof HTMLElement) {
+        container.appendChild(child);
+        continue;
+      }
+      const { element, childrenContainer } = this.createNode(child);
+      container.appendChild(element);
+      if (childrenContainer) {
+        pushChildren(child, childrenContainer);
+      }
+    }
+
+    return rendered.element;
+  }
+
   /**
    * 渲染添加的节点
    */
   renderAdded(node: DiffNode, config?: RendererConfig): HTMLElement {
+    return this.renderChildren(this.createAdded(node), node, config);
+  }
+
+  /**
+   * 创建添加的节点自身的元素（不含子节点）
+   */
+  private createAdded(node: DiffNode): RenderedNode {
     const element = document.createElement("div");
     element.className = "diff-node diff-added";
     element.style.color = this.colors.added;
@@ -132,22 +205,27 @@ export class DOMRenderer implements Renderer<HTMLElement> {
 
     element.appendChild(line);
 
-    // 渲染子节点
+    // 子节点容器（子节点由 renderChildren 填充）
+    let childrenContainer: HTMLElement | undefined;
     if (node.children && node.children.length > 0) {
-      const childrenContainer = this.createChildrenContainer(node.path);
-      for (const child of node.children) {
-        childrenContainer.appendChild(this.renderNode(child, config));
-      }
+      childrenContainer = this.createChildrenContainer(node.path);
       element.appendChild(childrenContainer);
     }
 
-    return element;
+    return { element, childrenContainer };
   }
 
   /**
    * 渲染删除的节点
    */
   renderDeleted(node: DiffNode, config?: RendererConfig): HTMLElement {
+    return this.renderChildren(this.createDeleted(node), node, config);
+  }
+
+  /**
+   * 创建删除的节点自身的元素（不含子节点）
+   */
+  private createDeleted(node: DiffNode): RenderedNode {
     const element = document.createElement("div");
     element.className = "diff-node diff-deleted";
     element.style.color = this.colors.deleted;
@@ -185,22 +263,27 @@ export class DOMRenderer implements Renderer<HTMLElement> {
 
     element.appendChild(line);
 
-    // 渲染子节点
+    // 子节点容器（子节点由 renderChildren 填充）
+    let childrenContainer: HTMLElement | undefined;
     if (node.children && node.children.length > 0) {
-      const childrenContainer = this.createChildrenContainer(node.path);
-      for (const child of node.children) {
-        childrenContainer.appendChild(this.renderNode(child, config));
-      }
+      childrenContainer = this.createChildrenContainer(node.path);
       element.appendChild(childrenContainer);
     }
 
-    return element;
+    return { element, childrenContainer };
   }
 
   /**
    * 渲染修改的节点
    */
   renderModified(node: DiffNode, config?: RendererConfig): HTMLElement {
+    return this.renderChildren(this.createModified(node), node, config);
+  }
+
+  /**
+   * 创建修改的节点自身的元素（不含子节点）
+   */
+  private createModified(node: DiffNode): RenderedNode {
     const element = document.createElement("div");
     element.className = "diff-node diff-modified";
     element.style.color = this.colors.modified;
@@ -229,12 +312,15 @@ export class DOMRenderer implements Renderer<HTMLElement> {
       line.appendChild(key);
     }
 
-    // 如果没有子节点，显示旧值和新值
-    if (!node.children || node.children.length === 0) {
+    // 字符串内部差异：在同一个字符串内高亮删除和插入的片段
+    if (node.textDiff && (!node.children || node.children.length === 0)) {
+      line.appendChild(this.createTextDiff(node));
+    } else if (!node.children || node.children.length === 0) {
+      // 如果没有子节点，显示旧值和新值
       const oldValue = document.createElement("span");
       oldValue.className = "old-value";
       oldValue.style.color = this.colors.deleted;
-      oldValue.textContent = this.formatValue(node.oldValue, node.valueType);
+      oldValue.textContent = this.formatNodeValue(node, "old");
       line.appendChild(oldValue);
 
       const arrow = document.createElement("span");
@@ -246,33 +332,69 @@ export class DOMRenderer implements Renderer<HTMLElement> {
       const newValue = document.createElement("span");
       newValue.className = "new-value";
       newValue.style.color = this.colors.added;
-      newValue.textContent = this.formatValue(node.newValue, node.valueType);
+      newValue.textContent = this.formatNodeValue(node, "new");
       line.appendChild(newValue);
+
+      // 值类型变化
+      if (node.oldValueType !== undefined && node.newValueType !== undefined) {
+        const typeChange = document.createElement("span");
+        typeChange.className = "type-change";
+        typeChange.textContent = ` (${node.oldValueType} → ${node.newValueType})`;
+        typeChange.style.color = this.colors.text;
+        line.appendChild(typeChange);
+      }
+
+      // 数值变化量
+      if (node.delta !== undefined && Number.isFinite(node.delta)) {
+        const delta = document.createElement("span");
+        delta.className = "delta";
+        delta.textContent = ` (${node.delta > 0 ? "+" : ""}${node.delta})`;
+        delta.style.color = this.colors.text;
+        line.appendChild(delta);
+      }
+
+      // 二进制数据的字节级差异摘要
+      if (node.byteDiff) {
+        const { changedBytes, firstChangedOffset } = node.byteDiff;
+        const summary = document.createElement("span");
+        summary.className = "byte-diff";
+        summary.textContent =
+          firstChangedOffset === -1
+            ? " (same bytes, different type)"
+            : ` (${changedBytes} byte${changedBytes === 1 ? "" : "s"} changed from offset ${firstChangedOffset})`;
+        summary.style.color = this.colors.text;
+        line.appendChild(summary);
+      }
     }
 
     element.appendChild(line);
 
-    // 渲染子节点
+    // 子节点容器（子节点由 renderChildren 填充）
+    let childrenContainer: HTMLElement | undefined;
     if (node.children && node.children.length > 0) {
-      const childrenContainer = this.createChildrenContainer(node.path);
-      for (const child of node.children) {
-        childrenContainer.appendChild(this.renderNode(child, config));
-      }
+      childrenContainer = this.createChildrenContainer(node.path);
       element.appendChild(childrenContainer);
     }
 
-    return element;
+    return { element, childrenContainer };
   }
 
   /**
    * 渲染未改变的节点
    */
   renderUnchanged(node: DiffNode, config?: RendererConfig): HTMLElement {
+    return this.renderChildren(this.createUnchanged(node), node, config);
+  }
+
+  /**
+   * 创建未改变的节点自身的元素（不含子节点）
+   */
+  private createUnchanged(node: DiffNode): RenderedNode {
     // 如果配置为不显示未改变的节点，返回空元素
     if (!this.config.showUnchanged) {
       const element = document.createElement("div");
       element.style.display = "none";
-      return element;
+      return { element };
     }
 
     const element = document.createElement("div");
@@ -307,20 +429,139 @@ export class DOMRenderer implements Renderer<HTMLElement> {
     const value = document.createElement("span");
     value.className = "value";
     value.style.color = this.colors.unchanged;
-    value.textContent = this.formatValue(node.oldValue ?? node.newValue, node.valueType);
+    value.textContent = node.circular
+      ? this.formatNodeValue(node, "old")
+      : this.formatValue(node.oldValue ?? node.newValue, node.valueType);
     line.appendChild(value);
 
+    // 折叠的子树显示其中值的数量
+    if (node.size !== undefined) {
+      const size = document.createElement("span");
+      size.className = "collapsed-size";
+      size.textContent = ` (${node.size} value${node.size === 1 ? "" : "s"})`;
+      size.style.color = this.colors.text;
+      line.appendChild(size);
+    }
+
     element.appendChild(line);
 
-    // 渲染子节点
+    // 子节点容器（子节点由 renderChildren 填充）
+    let childrenContainer: HTMLElement | undefined;
     if (node.children && node.children.length > 0) {
-      const childrenContainer = this.createChildrenContainer(node.path);
-      for (const child of node.children) {
-        childrenContainer.appendChild(this.renderNode(child, config));
-      }
+      childrenContainer = this.createChildrenContainer(node.path);
+      element.appendChild(childrenContainer);
+    }
+
+    return { element, childrenContainer };
+  }
+
+  /**
+   * 渲染移动的节点
+   * 显示移动前后的下标，元素内部的差异以子节点形式展示
+   */
+  renderMoved(node: DiffNode, config?: RendererConfig): HTMLElement {
+    return this.renderChildren(this.createMoved(node), node, config);
+  }
+
+  /**
+   * 创建移动的节点自身的元素（不含子节点）
+   */
+  private createMoved(node: DiffNode): RenderedNode {
+    const element = document.createElement("div");
+    element.className = "diff-node diff-moved";
+    element.style.color = this.colors.moved;
+    element.setAttribute("role", "treeitem");
+    element.setAttribute(
+      "aria-label",
+      `Moved: ${this.getPathLabel(node.path)} from index ${node.fromIndex} to ${node.toIndex}`,
+    );
+
+    const line = document.createElement("div");
+    line.className = "diff-line";
+
+    // 添加缩进
+    const indent = this.createIndent(node.path.length);
+    line.appendChild(indent);
+
+    // 添加展开/折叠按钮（如果有子节点）
+    if (node.children && node.children.length > 0) {
+      const toggle = this.createToggleButton(node.path);
+      line.appendChild(toggle);
+    }
+
+    // 添加键名（如果有）
+    if (node.path.length > 0) {
+      const key = document.createElement("span");
+      key.className = "key";
+      key.style.color = this.colors.key;
+      key.textContent = node.path[node.path.length - 1] + ": ";
+      line.appendChild(key);
+    }
+
+    // 添加移动标记
+    const badge = document.createElement("span");
+    badge.className = "move-indicator";
+    badge.style.color = this.colors.moved;
+    badge.textContent = `⇅ [${node.fromIndex}] → [${node.toIndex}] `;
+    line.appendChild(badge);
+
+    // 没有子节点时显示值
+    if (!node.children || node.children.length === 0) {
+      const value = document.createElement("span");
+      value.className = "value";
+      value.style.color = this.colors.moved;
+      value.textContent = this.formatValue(node.newValue, node.valueType);
+      line.appendChild(value);
+    }
+
+    element.appendChild(line);
+
+    // 子节点容器（子节点由 renderChildren 填充）
+    let childrenContainer: HTMLElement | undefined;
+    if (node.children && node.children.length > 0) {
+      childrenContainer = this.createChildrenContainer(node.path);
       element.appendChild(childrenContainer);
     }
 
+    return { element, childrenContainer };
+  }
+
+  /**
+   * 渲染被路径规则过滤的节点
+   * 只显示键名和忽略标记，不展示值
+   */
+  renderIgnored(node: DiffNode): HTMLElement {
+    const element = document.createElement("div");
+    element.className = "diff-node diff-ignored";
+    element.style.color = this.colors.unchanged;
+    element.setAttribute("role", "treeitem");
+    element.setAttribute("aria-label", `Ignored: ${this.getPathLabel(node.path)}`);
+
+    const line = document.createElement("div");
+    line.className = "diff-line";
+
+    // 添加缩进
+    const indent = this.createIndent(node.path.length);
+    line.appendChild(indent);
+
+    // 添加键名（如果有）
+    if (node.path.length > 0) {
+      const key = document.createElement("span");
+      key.className = "key";
+      key.style.color = this.colors.key;
+      key.textContent = node.path[node.path.length - 1] + ": ";
+      line.appendChild(key);
+    }
+
+    // 添加忽略标记
+    const badge = document.createElement("span");
+    badge.className = "ignore-indicator";
+    badge.style.color = this.colors.unchanged;
+    badge.style.fontStyle = "italic";
+    badge.textContent = "(ignored)";
+    line.appendChild(badge);
+
+    element.appendChild(line);
     return element;
   }
 
@@ -361,6 +602,24 @@ export class DOMRenderer implements Renderer<HTMLElement> {
       statsElement.appendChild(modifiedSpan);
     }
 
+    if (stats.moved > 0) {
+      const movedSpan = document.createElement("span");
+      movedSpan.className = "stat-moved";
+      movedSpan.textContent = `⇅${stats.moved}`;
+      movedSpan.style.color = this.colors.moved;
+      movedSpan.setAttribute("aria-label", `${stats.moved} items moved`);
+      statsElement.appendChild(movedSpan);
+    }
+
+    if (stats.ignored > 0) {
+      const ignoredSpan = document.createElement("span");
+      ignoredSpan.className = "stat-ignored";
+      ignoredSpan.textContent = `⊘${stats.ignored}`;
+      ignoredSpan.style.color = this.colors.unchanged;
+      ignoredSpan.setAttribute("aria-label", `${stats.ignored} items ignored`);
+      statsElement.appendChild(ignoredSpan);
+    }
+
     return statsElement;
   }
 
@@ -472,6 +731,26 @@ export class DOMRenderer implements Renderer<HTMLElement> {
     return button;
   }
 
+  /**
+   * 创建省略的未改变子节点的提示（如 "… 42 unchanged"）
+   */
+  private createOmittedMarker(parent: DiffNode): HTMLElement {
+    const element = document.createElement("div");
+    element.className = "diff-omitted";
+    element.style.color = this.colors.unchanged;
+
+    const line = document.createElement("div");
+    line.className = "diff-line";
+    line.appendChild(this.createIndent(parent.path.length + 1));
+
+    const text = document.createElement("span");
+    text.textContent = `… ${parent.omitted} unchanged`;
+    line.appendChild(text);
+
+    element.appendChild(line);
+    return element;
+  }
+
   /**
    * 创建子节点容器
    */
@@ -507,16 +786,125 @@ export class DOMRenderer implements Renderer<HTMLElement> {
       case "function":
         return "function() {...}";
       case "date":
-        return value instanceof Date ? value.toISOString() : String(value);
+        return value instanceof Date ? value.toISOString() : this.toDisplayString(value);
       case "regexp":
-        return value instanceof RegExp ? value.toString() : String(value);
+        return value instanceof RegExp ? value.toString() : this.toDisplayString(value);
       case "symbol":
-        return String(value);
+        return this.toDisplayString(value);
+      case "bigint":
+        return `${value}n`;
+      case "map":
+        return `Map(${value.size}) {${Array.from(
+          value as Map<any, any>,
+          ([key, item]) => `${this.formatComplexValue(key)} => ${this.formatComplexValue(item)}`,
+        ).join(", ")}}`;
+      case "set":
+        return `Set(${value.size}) {${Array.from(value as Set<any>, (item) =>
+          this.formatComplexValue(item),
+        ).join(", ")}}`;
+      case "typedarray":
+        return this.formatBinaryValue(value);
+      case "error":
+        return `${value.name}: ${value.message}`;
+      case "url":
+        return String(value.href ?? value);
+      case "boxed":
+        return `[${Object.prototype.toString.call(value).slice(8, -1)}: ${JSON.stringify(value.valueOf())}]`;
+      case "custom":
+        return this.formatCustomValue(value);
       default:
-        return JSON.stringify(value);
+        return this.formatComplexValue(value);
     }
   }
 
+  /**
+   * 转换为字符串，值与声明的类型不符且无法转换时按复杂结构格式化
+   */
+  private toDisplayString(value: any): string {
+    try {
+      return String(value);
+    } catch {
+      return this.formatComplexValue(value);
+    }
+  }
+
+  /**
+   * 格式化二进制数据
+   * 类型化数组显示前 32 个元素，ArrayBuffer 与 DataView 只显示字节长度
+   */
+  private formatBinaryValue(value: any): string {
+    const tag = Object.prototype.toString.call(value).slice(8, -1);
+    if (!ArrayBuffer.isView(value) || value instanceof DataView) {
+      return `${tag}(${value.byteLength})`;
+    }
+    const items = Array.from(value as unknown as ArrayLike<number | bigint>);
+    const shown = items
+      .slice(0, 32)
+      .map((item) => String(item) + (typeof item === "bigint" ? "n" : ""));
+    if (items.length > shown.length) {
+      shown.push(`… ${items.length - shown.length} more`);
+    }
+    return `${tag}(${items.length}) [${shown.join(", ")}]`;
+  }
+
+  /**
+   * 格式化自定义类型的实例
+   * 依次使用处理器的 format、serialize 和 normalize，都没有时按对象格式化
+   */
+  private formatCustomValue(value: any): string {
+    const handler = TypeRegistry.find(value);
+    if (handler?.format) {
+      return handler.format(value);
+    }
+    if (handler?.serialize) {
+      return handler.serialize(value);
+    }
+    return this.formatComplexValue(handler?.normalize ? handler.normalize(value) : { ...value });
+  }
+
+  /**
+   * 格式化节点一侧的值
+   * 循环引用显示为指向的祖先路径
+   */
+  private formatNodeValue(node: DiffNode, side: "old" | "new"): string {
+    const refPath = side === "old" ? node.circular?.oldRefPath : node.circular?.newRefPath;
+    if (refPath) {
+      return `[Circular → ${this.getPathLabel(refPath)}]`;
+    }
+    // 值类型发生变化时，两侧分别使用各自类型的格式
+    return side === "old"
+      ? this.formatValue(node.oldValue, node.oldValueType ?? node.valueType)
+      : this.formatValue(node.newValue, node.newValueType ?? node.valueType);
+  }
+
+  /**
+   * 创建字符串内部差异的行内高亮元素
+   * 每个片段单独转义，删除片段带删除线，插入片段使用新增颜色
+   */
+  private createTextDiff(node: DiffNode): HTMLElement {
+    const container = document.createElement("span");
+    container.className = "text-diff";
+    container.style.color = this.colors.text;
+    container.appendChild(document.createTextNode('"'));
+
+    for (const segment of node.textDiff!) {
+      const text = JSON.stringify(segment.text).slice(1, -1);
+      if (segment.op === "equal") {
+        container.appendChild(document.createTextNode(text));
+        continue;
+      }
+      const span = document.createElement(segment.op === "delete" ? "del" : "ins");
+      span.className = segment.op === "delete" ? "text-delete" : "text-insert";
+      span.style.color = segment.op === "delete" ? this.colors.deleted : this.colors.added;
+      span.style.textDecoration = segment.op === "delete" ? "line-through" : "none";
+      span.textContent = text;
+      container.appendChild(span);
+    }
+
+    container.appendChild(document.createTextNode('"'));
+    return container;
+  }
+
   /**
    * 格式化复杂数据结构（对象或数组）为 JSON 字符串
    */
@@ -535,7 +923,7 @@ export class DOMRenderer implements Renderer<HTMLElement> {
    */
   private createJsonReplacer(): (key: string, value: any) => any {
     const seen = new WeakSet();
-    return (_key: string, value: any) => {
+    return (key: string, value: any) => {
       // 处理循环引用
       if (typeof value === "object" && value !== null) {
         if (seen.has(value)) {
@@ -545,6 +933,10 @@ export class DOMRenderer implements Renderer<HTMLElement> {
       }
 
       // 处理特殊类型
+      // 嵌套的自定义类型实例（根值已经由 formatCustomValue 处理）
+      if (key !== "" && TypeRegistry.find(value)) {
+        return this.formatCustomValue(value);
+      }
       if (value instanceof Date) {
         return value.toISOString();
       }
@@ -560,6 +952,15 @@ export class DOMRenderer implements Renderer<HTMLElement> {
       if (typeof value === "bigint") {
         return value.toString() + "n";
       }
+      if (value instanceof Map || value instanceof Set) {
+        return Array.from(value);
+      }
+      if (value instanceof Error) {
+        return `${value.name}: ${value.message}`;
+      }
+      if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+        return Array.from(value as unknown as ArrayLike<number | bigint>);
+      }
       if (value === undefined) {
         return "[undefined]";
       }
@@ -13,6 +13,7 @@ export interface ThemeColors {
   deleted: string;
   modified: string;
   unchanged: string;
+  moved: string;
   background: string;
   text: string;
   border: string;
@@ -29,6 +30,7 @@ const themes: Record<"light" | "dark", ThemeColors> = {
     deleted: "#cb2431", // 红色 - 删除
     modified: "#e36209", // 橙色 - 修改
     unchanged: "#6a737d", // 灰色 - 未改变
+    moved: "#6f42c1", // 紫色 - 移动
     background: "#ffffff", // 背景色
     text: "#24292e", // 文本色
     border: "#e1e4e8", // 边框色
@@ -40,6 +42,7 @@ const themes: Record<"light" | "dark", ThemeColors> = {
     deleted: "#d73a49", // 红色 - 删除
     modified: "#f97583", // 橙色 - 修改
     unchanged: "#959da5", // 灰色 - 未改变
+    moved: "#d2a8ff", // 紫色 - 移动
     background: "#0d1117", // 背景色
     text: "#c9d1d9", // 文本色
     border: "#30363d", // 边框色
@@ -79,6 +82,7 @@ export function getThemeColors(
     ...(customColors.deleted && { deleted: customColors.deleted }),
     ...(customColors.modified && { modified: customColors.modified }),
     ...(customColors.unchanged && { unchanged: customColors.unchanged }),
+    ...(customColors.moved && { moved: customColors.moved }),
   };
 }
 
@@ -97,7 +101,7 @@ export function generateClassName(base: string, modifiers?: string[]): string {
  */
 export function generateInlineStyles(
   colors: ThemeColors,
-  type: "added" | "deleted" | "modified" | "unchanged",
+  type: "added" | "deleted" | "modified" | "unchanged" | "moved",
 ): Partial<CSSStyleDeclaration> {
   return {
     color: colors[type],
@@ -5,9 +5,9 @@ import {
   loadPreferences,
   type EditorPreferences,
 } from "./components/EditorSettings";
-import { diff } from "@json-visual-diff/core";
+import { createDiffWorker } from "@json-visual-diff/core";
 import { DOMRenderer } from "@json-visual-diff/dom-renderer";
-import type { DiffResult } from "@json-visual-diff/core";
+import type { DiffResult, DiffWorkerPool } from "@json-visual-diff/core";
 import { examples, getExampleById } from "./examples";
 import { selectFile, readFileAsText, downloadJSON, downloadTextFile } from "./utils/fileUtils";
 import "./App.css";
@@ -19,8 +19,20 @@ function App() {
   const [error, setError] = useState<string>("");
   const [selectedExample, setSelectedExample] = useState<string>("basic");
   const [preferences, setPreferences] = useState<EditorPreferences>(loadPreferences());
+  const [diffWorker, setDiffWorker] = useState<DiffWorkerPool | null>(null);
   const resultContainerRef = useRef<HTMLDivElement>(null);
 
+  // 创建 diff Worker，在 Worker 中比较以免阻塞编辑器
+  useEffect(() => {
+    const pool = createDiffWorker({
+      createWorker: () =>
+        new Worker(new URL("./workers/diff.worker.ts", import.meta.url), { type: "module" }),
+    });
+    setDiffWorker(pool);
+
+    return () => pool.terminate();
+  }, []);
+
   // 初始化时加载 basic 示例
   useEffect(() => {
     const example = getExampleById("basic");
@@ -53,24 +65,44 @@ function App() {
     // 清空之前的错误
     setError("");
 
+    if (!diffWorker) {
+      return undefined;
+    }
+
     if (!leftJson.trim() || !rightJson.trim()) {
       setDiffResult(null);
-      return;
+      return undefined;
     }
 
+    const fail = (err: unknown) => {
+      setError(`比较失败: ${err instanceof Error ? err.message : String(err)}`);
+      setDiffResult(null);
+    };
+
+    let leftValue: unknown;
+    let rightValue: unknown;
     try {
       // 解析 JSON
-      const leftValue = JSON.parse(leftJson);
-      const rightValue = JSON.parse(rightJson);
-
-      // 计算 diff
-      const result = diff(leftValue, rightValue);
-      setDiffResult(result);
+      leftValue = JSON.parse(leftJson);
+      rightValue = JSON.parse(rightJson);
     } catch (err) {
-      setError(`比较失败: ${err instanceof Error ? err.message : String(err)}`);
-      setDiffResult(null);
+      fail(err);
+      return undefined;
     }
-  }, [leftJson, rightJson]);
+
+    // 在 Worker 中计算 diff，内容再次改变时取消过期的计算
+    const controller = new AbortController();
+    diffWorker
+      .diff(leftValue, rightValue, { textDiff: true, signal: controller.signal })
+      .then(setDiffResult)
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          fail(err);
+        }
+      });
+
+    return () => controller.abort();
+  }, [leftJson, rightJson, diffWorker]);
 
   // 处理示例选择
   const handleExampleChange = (exampleId: string) => {
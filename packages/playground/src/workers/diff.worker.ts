@@ -0,0 +1,2 @@
+// diff Worker：处理 App 通过 createDiffWorker 发来的比较请求
+import "@json-visual-diff/core/worker";